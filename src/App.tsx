@@ -5,12 +5,16 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { useAuth } from "@/hooks/use-auth";
 import { NotificationsProvider } from "./context/NotificationsContext";
+import { PresenceProvider } from "./context/PresenceContext";
 import Navigation from "@/components/Navigation";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
+import Inbox from "./pages/Inbox";
 import Users from "./pages/Users";
 import Profile from "./pages/Profile";
 import NotificationsPage from "./pages/Notifications";
+import Moderation from "./pages/Moderation";
+import Admin from "./pages/Admin";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -32,10 +36,12 @@ const ProtectedRoute = ({ children }: { children: React.ReactNode }) => {
 
   return (
     <NotificationsProvider>
-      <div className="min-h-screen bg-background">
-        <Navigation />
-        <main>{children}</main>
-      </div>
+      <PresenceProvider>
+        <div className="min-h-screen bg-background">
+          <Navigation />
+          <main>{children}</main>
+        </div>
+      </PresenceProvider>
     </NotificationsProvider>
   );
 };
@@ -53,6 +59,11 @@ const App = () => (
               <Index />
             </ProtectedRoute>
           } />
+          <Route path="/inbox" element={
+            <ProtectedRoute>
+              <Inbox />
+            </ProtectedRoute>
+          } />
           <Route path="/users" element={
             <ProtectedRoute>
               <Users />
@@ -68,6 +79,16 @@ const App = () => (
               <NotificationsPage />
             </ProtectedRoute>
           } />
+          <Route path="/moderation" element={
+            <ProtectedRoute>
+              <Moderation />
+            </ProtectedRoute>
+          } />
+          <Route path="/admin" element={
+            <ProtectedRoute>
+              <Admin />
+            </ProtectedRoute>
+          } />
           <Route path="*" element={<NotFound />} />
         </Routes>
       </BrowserRouter>
@@ -0,0 +1,149 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Bar, BarChart, CartesianGrid, Cell, Pie, PieChart, XAxis, YAxis } from 'recharts';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+import { roleLabels, UserRole } from '@/lib/roles';
+import { ReportStatus, reportStatusLabels } from '@/lib/reports';
+
+interface AdminStatsData {
+  total_users: number;
+  suspended_users: number;
+  active_users: number;
+  users_by_role: { role: UserRole; count: number }[];
+  messages_per_day: { day: string; count: number }[];
+  reports_by_status: { status: ReportStatus; count: number }[];
+}
+
+const messagesChartConfig = {
+  count: { label: 'Messages', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const rolesChartConfig = {
+  student: { label: roleLabels.student, color: 'hsl(var(--chart-1))' },
+  teacher: { label: roleLabels.teacher, color: 'hsl(var(--chart-2))' },
+  counselor: { label: roleLabels.counselor, color: 'hsl(var(--chart-3))' },
+  admin: { label: roleLabels.admin, color: 'hsl(var(--chart-4))' },
+} satisfies ChartConfig;
+
+const reportsChartConfig = {
+  count: { label: 'Reports', color: 'hsl(var(--chart-5))' },
+} satisfies ChartConfig;
+
+const StatCard = ({ label, value }: { label: string; value: number }) => (
+  <Card>
+    <CardHeader className="pb-2">
+      <CardDescription>{label}</CardDescription>
+      <CardTitle className="text-3xl">{value}</CardTitle>
+    </CardHeader>
+  </Card>
+);
+
+const AdminStats = () => {
+  const [stats, setStats] = useState<AdminStatsData | null>(null);
+
+  useEffect(() => {
+    supabase.rpc('get_admin_stats', { p_days: 14 }).then(({ data, error }) => {
+      if (error) {
+        console.error('Error fetching admin stats:', error);
+        return;
+      }
+      setStats(data as unknown as AdminStatsData);
+    });
+  }, []);
+
+  if (!stats) {
+    return (
+      <div className="animate-pulse grid gap-4 md:grid-cols-3">
+        {[...Array(3)].map((_, i) => <div key={i} className="h-24 bg-muted rounded-lg"></div>)}
+      </div>
+    );
+  }
+
+  const openReports = stats.reports_by_status.find(row => row.status === 'open')?.count ?? 0;
+  const messagesPerDay = stats.messages_per_day.map(row => ({
+    ...row,
+    label: format(new Date(`${row.day}T00:00:00`), 'MMM d'),
+  }));
+  const reportsByStatus = stats.reports_by_status.map(row => ({
+    ...row,
+    label: reportStatusLabels[row.status],
+  }));
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 grid-cols-2 md:grid-cols-4">
+        <StatCard label="Users" value={stats.total_users} />
+        <StatCard label="Active this week" value={stats.active_users} />
+        <StatCard label="Suspended" value={stats.suspended_users} />
+        <StatCard label="Open reports" value={openReports} />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Messages per day</CardTitle>
+          <CardDescription>Last 14 days</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={messagesChartConfig} className="h-64 w-full">
+            <BarChart data={messagesPerDay}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Users by role</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={rolesChartConfig} className="h-64 w-full">
+              <PieChart>
+                <ChartTooltip content={<ChartTooltipContent nameKey="role" hideLabel />} />
+                <Pie data={stats.users_by_role} dataKey="count" nameKey="role" innerRadius={50}>
+                  {stats.users_by_role.map(row => (
+                    <Cell key={row.role} fill={`var(--color-${row.role})`} />
+                  ))}
+                </Pie>
+                <ChartLegend content={<ChartLegendContent nameKey="role" />} />
+              </PieChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Reports by status</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={reportsChartConfig} className="h-64 w-full">
+              <BarChart data={reportsByStatus}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default AdminStats;
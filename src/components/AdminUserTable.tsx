@@ -0,0 +1,298 @@
+import { useCallback, useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Ban, Lock, MoreVertical, RotateCcw, Search, Unlock, UserCheck } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { roleLabels, UserRole } from '@/lib/roles';
+
+interface ManagedUser {
+  id: string;
+  name: string;
+  email: string;
+  avatar_url?: string;
+  role: UserRole;
+  suspended_at?: string;
+  suspension_reason?: string;
+  privacy_mode: boolean;
+  privacy_mode_locked: boolean;
+  last_seen_at?: string;
+}
+
+const AdminUserTable = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [search, setSearch] = useState('');
+  const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [suspendTarget, setSuspendTarget] = useState<ManagedUser | null>(null);
+  const [suspendReason, setSuspendReason] = useState('');
+  const [resetTarget, setResetTarget] = useState<ManagedUser | null>(null);
+
+  const fetchUsers = useCallback(async (query: string) => {
+    setLoading(true);
+    const { data, error } = await supabase.rpc('admin_list_users', { p_search: query });
+    if (error) console.error('Error fetching users:', error);
+    setUsers(data || []);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => fetchUsers(search), 300);
+    return () => clearTimeout(timeout);
+  }, [search, fetchUsers]);
+
+  // Runs an admin RPC, then reloads the list so the table reflects the change
+  const runAction = async (action: PromiseLike<{ error: unknown }>, success: string) => {
+    const { error } = await action;
+    if (error) {
+      console.error('Error updating user:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to update user.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    toast({ title: 'User updated', description: success });
+    fetchUsers(search);
+  };
+
+  const changeRole = (target: ManagedUser, role: UserRole) =>
+    runAction(
+      supabase.rpc('admin_set_role', { p_user_id: target.id, p_role: role }),
+      `${target.name} is now ${roleLabels[role].toLowerCase()}.`
+    );
+
+  const confirmSuspend = async () => {
+    if (!suspendTarget) return;
+    await runAction(
+      supabase.rpc('admin_set_suspended', { p_user_id: suspendTarget.id, p_suspended: true, p_reason: suspendReason }),
+      `${suspendTarget.name} has been suspended.`
+    );
+    setSuspendTarget(null);
+    setSuspendReason('');
+  };
+
+  const unsuspend = (target: ManagedUser) =>
+    runAction(
+      supabase.rpc('admin_set_suspended', { p_user_id: target.id, p_suspended: false }),
+      `${target.name} can send messages again.`
+    );
+
+  const confirmReset = async () => {
+    if (!resetTarget) return;
+    await runAction(
+      supabase.rpc('admin_reset_profile', { p_user_id: resetTarget.id }),
+      `${resetTarget.name}'s name and avatar have been reset.`
+    );
+    setResetTarget(null);
+  };
+
+  const togglePrivacyLock = (target: ManagedUser) =>
+    runAction(
+      supabase.rpc('admin_force_privacy_mode', { p_user_id: target.id, p_locked: !target.privacy_mode_locked }),
+      target.privacy_mode_locked
+        ? `${target.name} can change privacy mode again.`
+        : `Privacy mode is now on for ${target.name}.`
+    );
+
+  return (
+    <div className="space-y-4">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search by name or email"
+          className="pl-9"
+        />
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>User</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="w-12" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading && users.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center text-muted-foreground">Loading users…</TableCell>
+              </TableRow>
+            ) : users.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center text-muted-foreground">No users found</TableCell>
+              </TableRow>
+            ) : users.map(managed => {
+              const isSelf = managed.id === user?.id;
+              return (
+                <TableRow key={managed.id}>
+                  <TableCell>
+                    <div className="flex items-center gap-3">
+                      <Avatar className="h-8 w-8">
+                        <AvatarImage src={managed.avatar_url} />
+                        <AvatarFallback>{managed.name.charAt(0).toUpperCase()}</AvatarFallback>
+                      </Avatar>
+                      <div className="min-w-0">
+                        <p className="font-medium truncate">{managed.name}</p>
+                        <p className="text-xs text-muted-foreground truncate">{managed.email}</p>
+                      </div>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={managed.role}
+                      onValueChange={(value) => changeRole(managed, value as UserRole)}
+                      disabled={isSelf}
+                    >
+                      <SelectTrigger className="w-32">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(roleLabels) as UserRole[]).map(role => (
+                          <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {managed.suspended_at && (
+                        <Badge variant="destructive" title={managed.suspension_reason}>Suspended</Badge>
+                      )}
+                      {managed.privacy_mode_locked && <Badge variant="secondary">Privacy locked</Badge>}
+                      {!managed.suspended_at && !managed.privacy_mode_locked && (
+                        <span className="text-xs text-muted-foreground">
+                          {managed.last_seen_at
+                            ? `Seen ${formatDistanceToNow(new Date(managed.last_seen_at), { addSuffix: true })}`
+                            : 'Active'}
+                        </span>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" aria-label="User actions">
+                          <MoreVertical className="h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem onClick={() => togglePrivacyLock(managed)}>
+                          {managed.privacy_mode_locked ? (
+                            <><Unlock className="h-4 w-4 mr-2" />Release privacy mode</>
+                          ) : (
+                            <><Lock className="h-4 w-4 mr-2" />Force privacy mode</>
+                          )}
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => setResetTarget(managed)}>
+                          <RotateCcw className="h-4 w-4 mr-2" />
+                          Reset profile
+                        </DropdownMenuItem>
+                        {!isSelf && (
+                          <>
+                            <DropdownMenuSeparator />
+                            {managed.suspended_at ? (
+                              <DropdownMenuItem onClick={() => unsuspend(managed)}>
+                                <UserCheck className="h-4 w-4 mr-2" />
+                                Lift suspension
+                              </DropdownMenuItem>
+                            ) : (
+                              <DropdownMenuItem className="text-destructive" onClick={() => setSuspendTarget(managed)}>
+                                <Ban className="h-4 w-4 mr-2" />
+                                Suspend
+                              </DropdownMenuItem>
+                            )}
+                          </>
+                        )}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Dialog open={!!suspendTarget} onOpenChange={(open) => { if (!open) setSuspendTarget(null); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Suspend {suspendTarget?.name}?</DialogTitle>
+            <DialogDescription>
+              They will still be able to sign in and read messages, but can't send messages or DM requests.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="suspension-reason">Reason (optional)</Label>
+            <Textarea
+              id="suspension-reason"
+              value={suspendReason}
+              onChange={(e) => setSuspendReason(e.target.value)}
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSuspendTarget(null)}>Cancel</Button>
+            <Button variant="destructive" onClick={confirmSuspend}>Suspend</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!resetTarget} onOpenChange={(open) => { if (!open) setResetTarget(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Reset {resetTarget?.name}'s profile?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Their display name goes back to their email name and their avatar is removed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmReset}>Reset profile</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default AdminUserTable;
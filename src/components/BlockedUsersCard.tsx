@@ -0,0 +1,80 @@
+import { useCallback, useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useBlockedUsers } from '@/hooks/use-blocked-users';
+
+interface BlockedUser {
+  user_id: string;
+  name: string;
+  avatar_url?: string;
+  blocked_at: string;
+}
+
+// Profile settings section listing everyone the user has blocked
+const BlockedUsersCard = () => {
+  const { unblockUser } = useBlockedUsers();
+  const [blockedUsers, setBlockedUsers] = useState<BlockedUser[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchBlockedUsers = useCallback(async () => {
+    const { data, error } = await supabase.rpc('get_blocked_users');
+    if (error) console.error('Error fetching blocked users:', error);
+    setBlockedUsers(data || []);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchBlockedUsers();
+  }, [fetchBlockedUsers]);
+
+  const handleUnblock = async (userId: string) => {
+    if (await unblockUser(userId)) {
+      setBlockedUsers(prev => prev.filter(u => u.user_id !== userId));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Blocked Users</CardTitle>
+        <CardDescription>
+          Blocked users can't message you, send you DM requests or find you in search
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="animate-pulse h-12 bg-muted rounded-lg"></div>
+        ) : blockedUsers.length === 0 ? (
+          <p className="text-sm text-muted-foreground">You haven't blocked anyone.</p>
+        ) : (
+          <div className="space-y-3">
+            {blockedUsers.map(blocked => (
+              <div key={blocked.user_id} className="flex items-center justify-between">
+                <div className="flex items-center space-x-3">
+                  <Avatar className="h-8 w-8">
+                    <AvatarImage src={blocked.avatar_url} />
+                    <AvatarFallback>{blocked.name?.charAt(0).toUpperCase()}</AvatarFallback>
+                  </Avatar>
+                  <div>
+                    <p className="text-sm font-medium">{blocked.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Blocked {formatDistanceToNow(new Date(blocked.blocked_at), { addSuffix: true })}
+                    </p>
+                  </div>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => handleUnblock(blocked.user_id)}>
+                  Unblock
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BlockedUsersCard;
@@ -1,73 +1,378 @@
-import { useEffect, useState, useRef } from 'react';
+import { useEffect, useLayoutEffect, useState, useRef, useCallback, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { ScrollArea } from '@/components/ui/scroll-area';
 import {
-  Dialog,
-  DialogContent,
-  DialogHeader,
-  DialogTitle,
-  DialogTrigger,
-} from "@/components/ui/dialog";
-import { Send, ArrowLeft, MessageCircle, Loader2, Image, X } from 'lucide-react';
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Send, ArrowLeft, MessageCircle, Loader2, Image, X, Settings, Pencil, Reply, MoreVertical, Ban, ShieldOff, Flag, Mic, Paperclip, FileText } from 'lucide-react';
 import { useAuth } from '@/hooks/use-auth';
 import { useToast } from '@/hooks/use-toast';
 import { useNotifications } from '@/context/NotificationsContext';
+import { usePresence } from '@/context/PresenceContext';
+import { useTypingIndicator } from '@/hooks/use-typing-indicator';
+import OnlineIndicator from '@/components/OnlineIndicator';
 import { formatDistanceToNow } from 'date-fns';
+import GroupSettingsDialog, { GroupDetails, GroupMember } from '@/components/GroupSettingsDialog';
+import MessageBubble, { ChatMessage, ChatUser, QuotedMessage } from '@/components/MessageBubble';
+import MessageHistoryDialog from '@/components/MessageHistoryDialog';
+import { useIsModerator } from '@/hooks/use-moderator';
+import { useBlockedUsers } from '@/hooks/use-blocked-users';
+import { useUserRole } from '@/hooks/use-user-role';
+import ReportDialog, { ReportTarget } from '@/components/ReportDialog';
+import { GifPicker, Gif } from '@/components/GifPicker';
+import { useMessageReactions, MessageReaction } from '@/hooks/use-message-reactions';
+import { useSignedUrls } from '@/hooks/use-signed-urls';
+import { useGifLibrary } from '@/hooks/use-gif-library';
+import { useLinkPreviews } from '@/hooks/use-link-previews';
+import { useVoiceRecorder } from '@/hooks/use-voice-recorder';
+import { ChatImage, prepareChatImage } from '@/lib/image';
+import { hasLink } from '@/lib/links';
+import { ATTACHMENT_ACCEPT, formatFileSize, getAttachmentMimeType, getExtension, MAX_ATTACHMENT_BYTES } from '@/lib/attachments';
+import { formatDuration, MAX_VOICE_MESSAGE_BYTES, MAX_VOICE_MESSAGE_SECONDS, prepareVoiceRecording } from '@/lib/audio';
+import { getFunctionErrorMessage, getRetryAfterSeconds } from '@/lib/functions';
 
-// Define types for better readability and safety
-interface User {
-  id: string;
-  name: string;
-  avatar_url?: string;
-}
-
-interface Message {
-  id: string;
-  sender_id: string;
-  recipient_id: string;
-  content: string;
-  created_at: string;
-  image_url?: string;
-  image_filename?: string;
-  image_size?: number;
-  // The 'sender' is a join from the users table
-  sender: User;
-}
+type User = ChatUser;
+type Message = ChatMessage;
 
+// Exactly one of recipientId (direct message) or conversationId (group) is set
 interface ChatWindowProps {
-  recipientId: string;
+  recipientId?: string;
+  conversationId?: string;
+  // Scroll to and highlight this message once the conversation has loaded
+  focusMessageId?: string;
   onBack: () => void;
 }
 
-const ChatWindow = ({ recipientId, onBack }: ChatWindowProps) => {
+// Messages fetched per page when opening a chat or scrolling up
+const MESSAGES_PAGE_SIZE = 50;
+// Distance from an edge of the message list, in pixels, that still counts as "at" it
+const SCROLL_EDGE_THRESHOLD = 80;
+
+const toUser = (member: GroupMember | undefined, fallbackId: string): User => (
+  member
+    ? { id: member.user_id, name: member.name, avatar_url: member.avatar_url }
+    : { id: fallbackId, name: 'Former member' }
+);
+
+const describeTypists = (typists: { name: string }[]) => {
+  if (typists.length === 1) return `${typists[0].name} is typing…`;
+  if (typists.length === 2) return `${typists[0].name} and ${typists[1].name} are typing…`;
+  return 'Several people are typing…';
+};
+
+// What the reply bar shows for a message with no text
+const describeAttachment = (message: Message) => {
+  if (message.media_type === 'gif') return 'GIF';
+  if (message.media_type === 'audio') return 'Voice message';
+  if (message.media_type === 'file') return message.media_filename || 'File';
+  return message.image_url ? 'Photo' : '';
+};
+
+const ChatWindow = ({ recipientId, conversationId, focusMessageId, onBack }: ChatWindowProps) => {
   const navigate = useNavigate();
   const { user: currentUser } = useAuth();
   const { toast } = useToast();
   const { setActiveChatRecipientId } = useNotifications();
+  const { isOnline } = usePresence();
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
+  // Auto-scroll on new messages only while the user is looking at the newest ones
+  const isAtBottomRef = useRef(true);
+  // The first page jumps straight to the bottom instead of animating from the top
+  const jumpToBottomRef = useRef(true);
+  // Scroll height before older messages were prepended, to keep the view in place
+  const scrollRestoreRef = useRef<{ height: number; top: number } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const attachmentInputRef = useRef<HTMLInputElement>(null);
 
   // State for the component
   const [recipient, setRecipient] = useState<User | null>(null);
+  const [group, setGroup] = useState<GroupDetails | null>(null);
+  const [members, setMembers] = useState<GroupMember[]>([]);
+  const [groupSettingsOpen, setGroupSettingsOpen] = useState(false);
   const [messages, setMessages] = useState<Message[]>([]);
   const [newMessage, setNewMessage] = useState('');
   const [loading, setLoading] = useState(true);
   const [sending, setSending] = useState(false);
-  const [imageFile, setImageFile] = useState<File | null>(null);
+  // Selected photo, already stripped of metadata and resized
+  const [imageFile, setImageFile] = useState<ChatImage | null>(null);
   const [imagePreviewUrl, setImagePreviewUrl] = useState<string | null>(null);
+  // Selected document and the type it will be uploaded as
+  const [attachment, setAttachment] = useState<{ file: File; mimeType: string } | null>(null);
   const [uploadingImage, setUploadingImage] = useState(false);
+  // Set when the server rate-limits us; sending is paused until then
+  const [rateLimitedUntil, setRateLimitedUntil] = useState<number | null>(null);
+  const [hasMoreMessages, setHasMoreMessages] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null);
+  const [messageToDelete, setMessageToDelete] = useState<Message | null>(null);
+  const [historyMessageId, setHistoryMessageId] = useState<string | null>(null);
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  // Originals of replies that aren't among the loaded messages
+  const [quotedMessages, setQuotedMessages] = useState<Record<string, Message>>({});
+  const [pendingJumpId, setPendingJumpId] = useState<string | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const requestedQuoteIdsRef = useRef<Set<string>>(new Set());
+  const skipAutoScrollRef = useRef(false);
+  const isModerator = useIsModerator();
+  const { isBlocked, blockUser, unblockUser } = useBlockedUsers();
+  const { suspended } = useUserRole();
+  const [blockDialogOpen, setBlockDialogOpen] = useState(false);
+  const [reportTarget, setReportTarget] = useState<ReportTarget | null>(null);
+
+  const isGroup = !!conversationId;
+  const recipientBlocked = !isGroup && !!recipientId && isBlocked(recipientId);
+  const chatKey = conversationId ?? recipientId;
+  const membersRef = useRef<GroupMember[]>([]);
+  const myRole = members.find(m => m.user_id === currentUser?.id)?.role;
+  const typingKey = conversationId ?? (currentUser && recipientId ? [currentUser.id, recipientId].sort().join('_') : undefined);
+  const { typists, notifyTyping, notifyStoppedTyping } = useTypingIndicator(typingKey);
+  const messageIds = useMemo(() => messages.map(msg => msg.id), [messages]);
+  const { reactions, toggleReaction } = useMessageReactions(chatKey, messageIds);
+  const gifLibrary = useGifLibrary();
+  const voiceRecorder = useVoiceRecorder({
+    maxDurationMs: MAX_VOICE_MESSAGE_SECONDS * 1000,
+    onLimitReached: () => handleSendVoiceMessage(),
+  });
+  const resolveImageUrl = useSignedUrls(
+    messages.flatMap(message => [
+      message.image_url,
+      message.image_thumbnail_url,
+      message.media_type === 'audio' || message.media_type === 'file' ? message.media_url : null,
+    ])
+  );
+  const resolveLinkPreview = useLinkPreviews(messages.map(message => message.link_preview_url));
+  const reactionsByMessage = useMemo(() => {
+    const map = new Map<string, MessageReaction[]>();
+    reactions.forEach(reaction => {
+      map.set(reaction.message_id, [...(map.get(reaction.message_id) || []), reaction]);
+    });
+    return map;
+  }, [reactions]);
+
+  const resolveName = useCallback((userId: string) => {
+    if (userId === currentUser?.id) return 'You';
+    if (isGroup) return members.find(m => m.user_id === userId)?.name ?? 'Former member';
+    return userId === recipient?.id ? recipient.name : 'Someone';
+  }, [isGroup, members, recipient, currentUser]);
+
+  // Attach the sender details the bubbles need to a raw messages row
+  const withSender = useCallback((msg: Omit<Message, 'sender'>): Message => {
+    if (isGroup) {
+      return { ...msg, sender: toUser(membersRef.current.find(m => m.user_id === msg.sender_id), msg.sender_id) };
+    }
+    if (msg.sender_id === currentUser?.id) {
+      return {
+        ...msg,
+        sender: { id: currentUser.id, name: currentUser.user_metadata.name || 'You', avatar_url: currentUser.user_metadata.avatar_url },
+      };
+    }
+    return { ...msg, sender: recipient ?? { id: msg.sender_id, name: 'Unknown User' } };
+  }, [isGroup, currentUser, recipient]);
+
+  // Messages in this conversation, whoever sent them
+  const threadQuery = useCallback((columns = '*') => {
+    const query = supabase.from('messages').select(columns);
+    if (conversationId) return query.eq('conversation_id', conversationId);
+    return query.or(
+      `and(sender_id.eq.${currentUser?.id},recipient_id.eq.${recipientId}),and(sender_id.eq.${recipientId},recipient_id.eq.${currentUser?.id})`
+    );
+  }, [conversationId, recipientId, currentUser]);
+
+  const fetchMembers = useCallback(async () => {
+    if (!conversationId) return [];
+    const { data, error } = await supabase.rpc('get_conversation_members', { p_conversation_id: conversationId });
+    if (error) {
+      console.error('Error fetching group members:', error);
+      return membersRef.current;
+    }
+    membersRef.current = data || [];
+    setMembers(data || []);
+    return data || [];
+  }, [conversationId]);
+
+  // One page of the conversation in display order (oldest first), ending just before `before`
+  const fetchMessagesPage = useCallback(async (before?: Pick<Message, 'id' | 'created_at'>) => {
+    const { data, error } = await supabase.rpc('get_conversation_messages', {
+      p_partner_id: conversationId ? undefined : recipientId,
+      p_conversation_id: conversationId,
+      p_before_created_at: before?.created_at,
+      p_before_id: before?.id,
+      p_limit: MESSAGES_PAGE_SIZE,
+    });
+    const page = data || [];
+    return { page: page.reverse(), hasMore: page.length === MESSAGES_PAGE_SIZE, error };
+  }, [conversationId, recipientId]);
+
+  // Edits, deletions and receipts arrive as row updates; the sender join is kept as is
+  const applyMessageUpdate = useCallback((updated: Partial<Message>) => {
+    setMessages(prevMessages => prevMessages.map(msg =>
+      msg.id === updated.id ? { ...msg, ...updated, sender: msg.sender } : msg
+    ));
+  }, []);
+
+  // Effect to fetch initial data and set up subscriptions for a group conversation
+  useEffect(() => {
+    if (!conversationId || !currentUser) return;
+
+    const fetchGroupData = async () => {
+      setLoading(true);
+      try {
+        const { data: groupData, error: groupError } = await supabase
+          .from('conversations')
+          .select('id, name, avatar_url')
+          .eq('id', conversationId)
+          .single();
+
+        if (groupError) {
+          console.error('Error fetching group:', groupError);
+          toast({
+            title: 'Error',
+            description: 'Could not load group details.',
+            variant: 'destructive',
+          });
+          throw groupError;
+        }
+        setGroup(groupData);
+
+        const groupMembers = await fetchMembers();
+
+        const { page: groupMessages, hasMore, error: messagesError } = await fetchMessagesPage();
+
+        if (messagesError) {
+          console.error('Message loading error:', messagesError);
+          toast({
+            title: 'Error',
+            description: 'Failed to load messages.',
+            variant: 'destructive',
+          });
+          throw messagesError;
+        }
+        setHasMoreMessages(hasMore);
+
+        isAtBottomRef.current = true;
+        jumpToBottomRef.current = true;
+        setMessages(groupMessages.map(msg => ({
+          ...msg,
+          sender: toUser(groupMembers.find(m => m.user_id === msg.sender_id), msg.sender_id),
+        })) as Message[]);
+
+        markGroupRead();
+      } catch (error) {
+        console.error('Failed to fetch group conversation data:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    const markGroupRead = async () => {
+      if (document.visibilityState !== 'visible') return;
+      const { error } = await supabase.rpc('mark_group_read', { p_conversation_id: conversationId });
+      if (error) console.error('Error marking group as read:', error);
+    };
+
+    fetchGroupData();
+    document.addEventListener('visibilitychange', markGroupRead);
+
+    const channel = supabase.channel(`realtime:group:${conversationId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'messages',
+          filter: `conversation_id=eq.${conversationId}`,
+        },
+        async (payload) => {
+          const newMessage = payload.new as Message;
+          // Our own messages are already on screen from the optimistic update
+          if (newMessage.sender_id === currentUser.id) return;
+
+          let sender = membersRef.current.find(m => m.user_id === newMessage.sender_id);
+          if (!sender) {
+            sender = (await fetchMembers()).find(m => m.user_id === newMessage.sender_id);
+          }
+
+          setMessages(prevMessages => [...prevMessages, { ...newMessage, sender: toUser(sender, newMessage.sender_id) }]);
+          markGroupRead();
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'messages',
+          filter: `conversation_id=eq.${conversationId}`,
+        },
+        (payload) => {
+          applyMessageUpdate(payload.new as Message);
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'conversation_members',
+          filter: `conversation_id=eq.${conversationId}`,
+        },
+        () => {
+          fetchMembers();
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'conversations',
+          filter: `id=eq.${conversationId}`,
+        },
+        (payload) => {
+          const updated = payload.new as GroupDetails;
+          setGroup({ id: updated.id, name: updated.name, avatar_url: updated.avatar_url });
+        }
+      )
+      .subscribe((status, err) => {
+        if (err) {
+          console.error('Realtime subscription error:', { status, err });
+          toast({
+            title: 'Connection interrupted',
+            description: 'Real-time updates may be delayed. Please refresh if issues persist.',
+            variant: 'destructive',
+          });
+        }
+      });
 
+    return () => {
+      document.removeEventListener('visibilitychange', markGroupRead);
+      supabase.removeChannel(channel);
+    };
+  }, [conversationId, currentUser, toast, fetchMembers, fetchMessagesPage, applyMessageUpdate]);
 
-  // Effect to fetch initial data and set up subscriptions
+  // Effect to fetch initial data and set up subscriptions for a direct conversation
   useEffect(() => {
     if (!recipientId || !currentUser) {
-      setLoading(false);
+      if (!conversationId) setLoading(false);
       return;
     }
 
@@ -77,7 +382,7 @@ const ChatWindow = ({ recipientId, onBack }: ChatWindowProps) => {
         // 1. Fetch recipient details
         const { data: recipientData, error: recipientError } = await supabase
           .from('users')
-          .select('id, name, avatar_url')
+          .select('id, name, avatar_url, last_seen_at')
           .eq('id', recipientId)
           .single();
 
@@ -92,30 +397,19 @@ const ChatWindow = ({ recipientId, onBack }: ChatWindowProps) => {
         }
         setRecipient(recipientData);
 
-        // 2. Fetch messages using the dual-query approach
-        const { data: sentMessages, error: sentError } = await supabase
-          .from('messages')
-          .select('*')
-          .eq('sender_id', currentUser.id)
-          .eq('recipient_id', recipientId);
-
-        const { data: receivedMessages, error: receivedError } = await supabase
-          .from('messages')
-          .select('*')
-          .eq('sender_id', recipientId)
-          .eq('recipient_id', currentUser.id);
-
-        if (sentError || receivedError) {
-          console.error('Message loading error:', { sentError, receivedError });
+        // 2. Fetch the newest page of messages; older ones load on scroll
+        const { page: latestMessages, hasMore, error: messagesError } = await fetchMessagesPage();
+
+        if (messagesError) {
+          console.error('Message loading error:', messagesError);
           toast({
             title: 'Error',
             description: 'Failed to load messages.',
             variant: 'destructive',
           });
-          throw sentError || receivedError;
+          throw messagesError;
         }
-
-        const allMessages = [...(sentMessages || []), ...(receivedMessages || [])];
+        setHasMoreMessages(hasMore);
 
         // Manually add sender info
         const usersMap = {
@@ -127,15 +421,17 @@ const ChatWindow = ({ recipientId, onBack }: ChatWindowProps) => {
           [recipientData.id]: recipientData,
         };
 
-        const messagesWithSenders = allMessages.map(msg => ({
+        const messagesWithSenders = latestMessages.map(msg => ({
           ...msg,
           sender: usersMap[msg.sender_id],
         }));
 
-        // Sort messages
-        messagesWithSenders.sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+        isAtBottomRef.current = true;
+        jumpToBottomRef.current = true;
+        setMessages(messagesWithSenders as Message[]);
 
-        setMessages(messagesWithSenders as any);
+        // 3. Everything on screen is now read
+        markConversationRead();
 
       } catch (error) {
         console.error('Failed to fetch conversation data:', error);
@@ -144,9 +440,17 @@ const ChatWindow = ({ recipientId, onBack }: ChatWindowProps) => {
       }
     };
 
+    // Only count messages as read while the chat is actually on screen
+    const markConversationRead = async () => {
+      if (document.visibilityState !== 'visible') return;
+      const { error } = await supabase.rpc('mark_conversation_read', { p_partner_id: recipientId });
+      if (error) console.error('Error marking conversation as read:', error);
+    };
+
     fetchData();
+    document.addEventListener('visibilitychange', markConversationRead);
 
-    // 3. Set up realtime subscription
+    // 4. Set up realtime subscription
     console.log('Setting up realtime subscription...');
     const channel = supabase.channel(`realtime:messages:${currentUser.id}`)
       .on(
@@ -181,9 +485,37 @@ const ChatWindow = ({ recipientId, onBack }: ChatWindowProps) => {
             };
 
             setMessages((prevMessages) => [...prevMessages, messageWithSender]);
+            markConversationRead();
           }
         }
       )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'messages',
+          filter: `sender_id=eq.${currentUser.id}`,
+        },
+        (payload) => {
+          // Delivery and read receipts, plus edits made from another device
+          applyMessageUpdate(payload.new as Message);
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'messages',
+          filter: `recipient_id=eq.${currentUser.id}`,
+        },
+        (payload) => {
+          // The other person edited or deleted one of their messages
+          const updated = payload.new as Message;
+          if (updated.sender_id === recipientId) applyMessageUpdate(updated);
+        }
+      )
       .subscribe((status, err) => {
         if (err) {
           console.error('Realtime subscription error:', { status, err });
@@ -199,27 +531,411 @@ const ChatWindow = ({ recipientId, onBack }: ChatWindowProps) => {
     // Cleanup function to remove subscription on component unmount
     return () => {
       console.log('Removing realtime subscription');
+      document.removeEventListener('visibilitychange', markConversationRead);
       supabase.removeChannel(channel);
     };
 
-  }, [recipientId, currentUser, toast]);
+  }, [recipientId, conversationId, currentUser, toast, fetchMessagesPage, applyMessageUpdate]);
+
+  // Keep the same messages in view after older ones are prepended above them
+  useLayoutEffect(() => {
+    const container = scrollContainerRef.current;
+    const restore = scrollRestoreRef.current;
+    if (!container || !restore) return;
+
+    scrollRestoreRef.current = null;
+    container.scrollTop = container.scrollHeight - restore.height + restore.top;
+  }, [messages]);
 
   // Effect to scroll to the bottom of the message list
   useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+    if (skipAutoScrollRef.current) {
+      skipAutoScrollRef.current = false;
+      return;
+    }
+    if (isAtBottomRef.current) {
+      messagesEndRef.current?.scrollIntoView({ behavior: jumpToBottomRef.current ? 'auto' : 'smooth' });
+      jumpToBottomRef.current = false;
+    }
   }, [messages]);
 
+  const loadOlderMessages = async () => {
+    const oldest = messages.find(msg => !msg.id.startsWith('optimistic-'));
+    if (!oldest || loadingOlder || !hasMoreMessages) return;
+
+    setLoadingOlder(true);
+    const { page, hasMore, error } = await fetchMessagesPage(oldest);
+    setLoadingOlder(false);
+
+    if (error) {
+      console.error('Error loading older messages:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load older messages.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const container = scrollContainerRef.current;
+    if (container) {
+      scrollRestoreRef.current = { height: container.scrollHeight, top: container.scrollTop };
+    }
+    skipAutoScrollRef.current = true;
+    setHasMoreMessages(hasMore);
+    setMessages(prevMessages => [...page.map(withSender), ...prevMessages]);
+  };
+
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const { scrollTop, scrollHeight, clientHeight } = e.currentTarget;
+    isAtBottomRef.current = scrollHeight - scrollTop - clientHeight < SCROLL_EDGE_THRESHOLD;
+    if (scrollTop < SCROLL_EDGE_THRESHOLD && !loading) loadOlderMessages();
+  };
+
+  // Reply state belongs to the conversation it was started in
+  useEffect(() => {
+    setReplyingTo(null);
+    setQuotedMessages({});
+    requestedQuoteIdsRef.current = new Set();
+  }, [chatKey]);
+
+  // Fetch the originals of replies whose quoted message isn't loaded
+  useEffect(() => {
+    const loadedIds = new Set(messages.map(msg => msg.id));
+    const missing = Array.from(new Set(
+      messages
+        .map(msg => msg.reply_to_id)
+        .filter(id => id && !loadedIds.has(id) && !requestedQuoteIdsRef.current.has(id))
+    ));
+    if (missing.length === 0) return;
+    missing.forEach(id => requestedQuoteIdsRef.current.add(id));
+
+    supabase
+      .from('messages')
+      .select('*')
+      .in('id', missing)
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching quoted messages:', error);
+          return;
+        }
+        setQuotedMessages(prev => {
+          const next = { ...prev };
+          (data || []).forEach(msg => { next[msg.id] = withSender(msg); });
+          return next;
+        });
+      });
+  }, [messages, withSender]);
+
+  // Scroll to a message once it is rendered and briefly highlight it
+  useEffect(() => {
+    if (!pendingJumpId) return;
+    const element = document.getElementById(`message-${pendingJumpId}`);
+    if (!element) return;
+
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedMessageId(pendingJumpId);
+    setPendingJumpId(null);
+  }, [messages, pendingJumpId]);
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timeout = setTimeout(() => setHighlightedMessageId(null), 2000);
+    return () => clearTimeout(timeout);
+  }, [highlightedMessageId]);
+
+  // Jump to a message, loading everything between it and the oldest loaded message first
+  const jumpToMessage = useCallback(async (messageId: string) => {
+    if (messages.some(msg => msg.id === messageId)) {
+      setPendingJumpId(messageId);
+      return;
+    }
+    if (messages.length === 0) return;
+
+    let target: Pick<Message, 'created_at'> | undefined = quotedMessages[messageId];
+    if (!target) {
+      const { data } = await threadQuery('created_at').eq('id', messageId).maybeSingle();
+      target = data as unknown as Pick<Message, 'created_at'> | undefined;
+    }
+    if (!target) {
+      toast({
+        title: 'Message unavailable',
+        description: 'That message could not be found in this conversation.',
+      });
+      return;
+    }
+
+    const { data, error } = await threadQuery()
+      .gte('created_at', target.created_at)
+      .lt('created_at', messages[0].created_at)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error loading earlier messages:', error);
+      toast({
+        title: 'Error',
+        description: 'Could not load the original message.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    skipAutoScrollRef.current = true;
+    setMessages(prevMessages => [...(data as unknown as Message[]).map(withSender), ...prevMessages]);
+    setPendingJumpId(messageId);
+  }, [messages, quotedMessages, threadQuery, withSender, toast]);
+
+  // Deep links (e.g. from search) open the chat at a specific message once it has loaded
+  const focusedMessageRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (loading || !focusMessageId || focusedMessageRef.current === focusMessageId) return;
+    focusedMessageRef.current = focusMessageId;
+    jumpToMessage(focusMessageId);
+  }, [loading, focusMessageId, jumpToMessage]);
+
+  const getQuote = (message: Message): QuotedMessage | undefined => {
+    if (!message.reply_to_id) return undefined;
+    const original = messages.find(msg => msg.id === message.reply_to_id) ?? quotedMessages[message.reply_to_id];
+    if (!original) return undefined;
+    return {
+      senderName: resolveName(original.sender_id),
+      content: original.content,
+      hasImage: !!original.image_url,
+      isGif: original.media_type === 'gif',
+      isVoice: original.media_type === 'audio',
+      fileName: original.media_type === 'file' ? original.media_filename : null,
+      deleted: !!original.deleted_at,
+    };
+  };
+
   // Effect to set the active chat recipient
   useEffect(() => {
-    setActiveChatRecipientId(recipientId);
+    setActiveChatRecipientId(chatKey);
     return () => {
       setActiveChatRecipientId(null);
     };
-  }, [recipientId, setActiveChatRecipientId]);
+  }, [chatKey, setActiveChatRecipientId]);
+
+  // Limits are per conversation, so switching chats lifts the pause
+  useEffect(() => {
+    setRateLimitedUntil(null);
+  }, [chatKey]);
+
+  useEffect(() => {
+    if (!rateLimitedUntil) return;
+    const timeout = setTimeout(() => setRateLimitedUntil(null), Math.max(0, rateLimitedUntil - Date.now()));
+    return () => clearTimeout(timeout);
+  }, [rateLimitedUntil]);
+
+  // Asks for a preview of the first link in a message the user just sent or edited.
+  // Previews are a nice-to-have, so failures are only logged.
+  const unfurlLinks = async (messageId: string) => {
+    const { data: result, error } = await supabase.functions.invoke('unfurl-link', {
+      body: { message_id: messageId },
+    });
+
+    if (error) {
+      console.error('Error unfurling link:', error);
+      return;
+    }
+    if (result?.data) applyMessageUpdate(result.data);
+  };
+
+  // Uploads for a message that was never sent. Failing here only leaves an orphan behind.
+  const removeUploads = async (paths: string[]) => {
+    const { error } = await supabase.storage.from('chat-images').remove(paths);
+    if (error) console.error('Error removing unsent uploads:', error);
+  };
+
+  // Sends through sanitize-message and swaps the optimistic copy for the stored
+  // (and possibly filtered) message. Rate limiting is handled here and resolves
+  // to false; other failures throw so the caller can roll back.
+  const deliverMessage = async (optimisticId: string, message: Record<string, unknown>, typedText = '') => {
+    const { data: result, error } = await supabase.functions.invoke('sanitize-message', {
+      body: { message },
+    });
+
+    if (error) {
+      const retryAfter = getRetryAfterSeconds(error);
+      if (retryAfter) {
+        setMessages(prevMessages => prevMessages.filter(msg => msg.id !== optimisticId));
+        // Put the text back so nothing typed is lost
+        setNewMessage(current => current || typedText);
+        setRateLimitedUntil(Date.now() + retryAfter * 1000);
+        toast({
+          title: 'Slow down',
+          description: await getFunctionErrorMessage(error, "You're sending messages too quickly."),
+          variant: 'destructive',
+        });
+        return false;
+      }
+      throw new Error('Failed to send message: ' + error.message);
+    }
+
+    if (result?.data) {
+      setMessages(prevMessages => prevMessages.map(msg =>
+        msg.id === optimisticId ? { ...result.data, sender: msg.sender } : msg
+      ));
+      if (hasLink(result.data.content)) unfurlLinks(result.data.id);
+    }
+    return true;
+  };
+
+  // GIFs go out on their own; anything typed stays in the composer
+  const handleGifSelect = async (gif: Gif) => {
+    if (!currentUser || !chatKey || rateLimitedUntil) return;
+
+    const optimisticId = `optimistic-${Date.now()}`;
+    const optimisticMessage: Message = {
+      id: optimisticId,
+      content: '',
+      created_at: new Date().toISOString(),
+      sender_id: currentUser.id,
+      recipient_id: recipientId,
+      conversation_id: conversationId,
+      reply_to_id: replyingTo?.id,
+      sender: {
+        id: currentUser.id,
+        name: currentUser.user_metadata.name || 'You',
+        avatar_url: currentUser.user_metadata.avatar_url,
+      },
+      media_type: 'gif',
+      media_url: gif.url,
+      image_width: gif.width,
+      image_height: gif.height,
+    };
+
+    isAtBottomRef.current = true;
+    setMessages(prevMessages => [...prevMessages, optimisticMessage]);
+    setReplyingTo(null);
+
+    try {
+      const sent = await deliverMessage(optimisticId, {
+        sender_id: currentUser.id,
+        recipient_id: recipientId,
+        conversation_id: conversationId,
+        content: '',
+        media_type: 'gif',
+        media_url: gif.url,
+        image_width: gif.width,
+        image_height: gif.height,
+        reply_to_id: optimisticMessage.reply_to_id,
+      });
+      if (sent) gifLibrary.recordRecent(gif);
+    } catch (error) {
+      console.error('GIF send error:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to send GIF. Please try again.',
+        variant: 'destructive',
+      });
+      setMessages(prevMessages => prevMessages.filter(msg => msg.id !== optimisticId));
+    }
+  };
+
+  // Voice messages are sent as soon as recording stops
+  const handleSendVoiceMessage = async () => {
+    const recorded = await voiceRecorder.stop();
+    if (!recorded || !currentUser || !chatKey) return;
+
+    const optimisticId = `optimistic-${Date.now()}`;
+    let localUrl: string | null = null;
+    let uploadedPath: string | null = null;
+    let sent = false;
+    setSending(true);
+    try {
+      const voice = await prepareVoiceRecording(recorded.blob, recorded.elapsedMs);
+      if (voice.blob.size > MAX_VOICE_MESSAGE_BYTES) {
+        toast({
+          title: 'Recording too large',
+          description: 'Voice messages must be under 10MB.',
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      const folder = conversationId ?? [currentUser.id, recipientId].sort().join('_');
+      const filePath = `${folder}/${currentUser.id}/${Date.now()}.${voice.extension}`;
+      const mediaDetails = {
+        media_type: 'audio',
+        media_size: voice.blob.size,
+        media_duration_ms: voice.durationMs,
+        media_waveform: voice.waveform,
+      };
+
+      // Plays from memory until the stored message comes back with the path
+      localUrl = URL.createObjectURL(voice.blob);
+      const optimisticMessage: Message = {
+        id: optimisticId,
+        content: '',
+        created_at: new Date().toISOString(),
+        sender_id: currentUser.id,
+        recipient_id: recipientId,
+        conversation_id: conversationId,
+        reply_to_id: replyingTo?.id,
+        sender: {
+          id: currentUser.id,
+          name: currentUser.user_metadata.name || 'You',
+          avatar_url: currentUser.user_metadata.avatar_url,
+        },
+        ...mediaDetails,
+        media_url: localUrl,
+      };
+
+      isAtBottomRef.current = true;
+      setMessages(prevMessages => [...prevMessages, optimisticMessage]);
+      setReplyingTo(null);
+
+      const { error: uploadError } = await supabase.storage
+        .from('chat-images')
+        .upload(filePath, voice.blob, { contentType: voice.blob.type });
+
+      if (uploadError) throw uploadError;
+      uploadedPath = filePath;
+
+      sent = await deliverMessage(optimisticId, {
+        sender_id: currentUser.id,
+        recipient_id: recipientId,
+        conversation_id: conversationId,
+        content: '',
+        ...mediaDetails,
+        media_url: filePath,
+        reply_to_id: optimisticMessage.reply_to_id,
+      });
+    } catch (error) {
+      console.error('Voice message send error:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to send voice message. Please try again.',
+        variant: 'destructive',
+      });
+      setMessages(prevMessages => prevMessages.filter(msg => msg.id !== optimisticId));
+    } finally {
+      // Rate limited or failed: the recording is gone, so its upload goes too
+      if (uploadedPath && !sent) removeUploads([uploadedPath]);
+      if (localUrl) URL.revokeObjectURL(localUrl);
+      setSending(false);
+    }
+  };
+
+  const startRecording = async () => {
+    try {
+      await voiceRecorder.start();
+    } catch (error) {
+      console.error('Error starting voice recording:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof DOMException
+          ? 'Allow microphone access to record voice messages.'
+          : 'Voice messages are not supported in this browser.',
+        variant: 'destructive',
+      });
+    }
+  };
 
   const handleSendMessage = async () => {
     const messageContent = newMessage.trim();
-    if ((!messageContent && !imageFile) || !currentUser || !recipientId) return;
+    if ((!messageContent && !imageFile && !attachment) || !currentUser || !chatKey || rateLimitedUntil) return;
 
     setSending(true);
 
@@ -230,66 +946,108 @@ const ChatWindow = ({ recipientId, onBack }: ChatWindowProps) => {
       created_at: new Date().toISOString(),
       sender_id: currentUser.id,
       recipient_id: recipientId,
+      conversation_id: conversationId,
+      reply_to_id: replyingTo?.id,
       sender: {
         id: currentUser.id,
         name: currentUser.user_metadata.name || 'You',
         avatar_url: currentUser.user_metadata.avatar_url,
       },
       image_url: imagePreviewUrl, // Use preview for optimistic UI
+      image_width: imageFile?.image.width,
+      image_height: imageFile?.image.height,
+      ...(attachment && {
+        media_type: 'file',
+        media_filename: attachment.file.name,
+        media_mime_type: attachment.mimeType,
+        media_size: attachment.file.size,
+      }),
     };
 
+    isAtBottomRef.current = true;
     setMessages(prevMessages => [...prevMessages, optimisticMessage]);
     setNewMessage('');
+    setReplyingTo(null);
+    notifyStoppedTyping();
     setImageFile(null);
     setImagePreviewUrl(null);
+    setAttachment(null);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
+    if (attachmentInputRef.current) {
+      attachmentInputRef.current.value = '';
+    }
 
     let imageUrl = '';
     let imageFilename = '';
     let imageSize = 0;
+    let thumbnailUrl = '';
+    let attachmentPath = '';
+    // Groups are stored under their own id, direct chats under both user ids
+    const folder = conversationId ?? [currentUser.id, recipientId].sort().join('_');
 
     try {
       if (imageFile) {
         setUploadingImage(true);
-        const conversationId = [currentUser.id, recipientId].sort().join('_');
-        const fileExt = imageFile.name.split('.').pop();
-        const fileName = `${Date.now()}.${fileExt}`;
-        const filePath = `${conversationId}/${currentUser.id}/${fileName}`;
+        const baseName = Date.now();
+        const fileName = `${baseName}.${imageFile.image.extension}`;
+        const filePath = `${folder}/${currentUser.id}/${fileName}`;
 
         const { error: uploadError } = await supabase.storage
           .from('chat-images')
-          .upload(filePath, imageFile);
+          .upload(filePath, imageFile.image.blob, { contentType: imageFile.image.blob.type });
 
         if (uploadError) throw uploadError;
 
-        const { data: { publicUrl } } = supabase.storage
-          .from('chat-images')
-          .getPublicUrl(filePath);
+        if (imageFile.thumbnail) {
+          const thumbnailPath = `${folder}/${currentUser.id}/${baseName}_thumb.${imageFile.thumbnail.extension}`;
+          const { error: thumbnailError } = await supabase.storage
+            .from('chat-images')
+            .upload(thumbnailPath, imageFile.thumbnail.blob, { contentType: imageFile.thumbnail.blob.type });
 
-        imageUrl = publicUrl;
+          if (thumbnailError) throw thumbnailError;
+          thumbnailUrl = thumbnailPath;
+        }
+
+        // The bucket is private; messages keep the path and viewers get signed links
+        imageUrl = filePath;
         imageFilename = fileName;
-        imageSize = imageFile.size;
+        imageSize = imageFile.image.blob.size;
         setUploadingImage(false);
       }
 
-      const { error } = await supabase.functions.invoke('sanitize-message', {
-        body: {
-          message: {
-            sender_id: currentUser.id,
-            recipient_id: recipientId,
-            content: messageContent,
-            image_url: imageUrl,
-            image_filename: imageFilename,
-            image_size: imageSize,
-          },
-        },
-      });
+      if (attachment) {
+        setUploadingImage(true);
+        // Stored under a generated name; the original name travels with the message
+        const filePath = `${folder}/${currentUser.id}/${Date.now()}.${getExtension(attachment.file.name)}`;
+        const { error: uploadError } = await supabase.storage
+          .from('chat-images')
+          .upload(filePath, attachment.file, { contentType: attachment.mimeType });
 
-      if (error) {
-        throw new Error('Failed to send message: ' + error.message);
+        if (uploadError) throw uploadError;
+        attachmentPath = filePath;
+        setUploadingImage(false);
       }
+
+      await deliverMessage(optimisticId, {
+        sender_id: currentUser.id,
+        recipient_id: recipientId,
+        conversation_id: conversationId,
+        content: messageContent,
+        image_url: imageUrl,
+        image_filename: imageFilename,
+        image_size: imageSize,
+        image_thumbnail_url: thumbnailUrl,
+        image_width: imageFile?.image.width,
+        image_height: imageFile?.image.height,
+        ...(attachment && {
+          media_type: 'file',
+          media_url: attachmentPath,
+          media_filename: attachment.file.name,
+        }),
+        reply_to_id: optimisticMessage.reply_to_id,
+      }, messageContent);
     } catch (error) {
       console.error('Message send error:', error);
       toast({
@@ -305,7 +1063,143 @@ const ChatWindow = ({ recipientId, onBack }: ChatWindowProps) => {
     }
   };
 
-  const handleImageSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+  // Bubbles only know the GIF's URL, which is also what favorites are keyed by
+  const toggleFavoriteGif = (message: Message) => {
+    if (!message.media_url) return;
+    gifLibrary.toggleFavorite({
+      id: message.media_url,
+      title: '',
+      url: message.media_url,
+      preview: message.media_url,
+      width: message.image_width ?? 0,
+      height: message.image_height ?? 0,
+    });
+  };
+
+  const startReply = (message: Message) => {
+    setEditingMessage(null);
+    setReplyingTo(message);
+  };
+
+  const startEditing = (message: Message) => {
+    setReplyingTo(null);
+    setEditingMessage(message);
+    setNewMessage(message.content);
+  };
+
+  const cancelEditing = () => {
+    setEditingMessage(null);
+    setNewMessage('');
+  };
+
+  // Edits go through sanitize-message so the new text is filtered like a new message
+  const handleSaveEdit = async () => {
+    const messageContent = newMessage.trim();
+    if (!editingMessage || !currentUser) return;
+    if (!messageContent || messageContent === editingMessage.content) {
+      cancelEditing();
+      return;
+    }
+
+    setSending(true);
+    try {
+      const { data: result, error } = await supabase.functions.invoke('sanitize-message', {
+        body: {
+          action: 'edit',
+          sender_id: currentUser.id,
+          message_id: editingMessage.id,
+          content: messageContent,
+        },
+      });
+
+      if (error) {
+        throw new Error('Failed to edit message: ' + error.message);
+      }
+
+      if (result?.data) {
+        applyMessageUpdate(result.data);
+        if (hasLink(result.data.content)) unfurlLinks(result.data.id);
+      }
+      cancelEditing();
+    } catch (error) {
+      console.error('Message edit error:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to edit message. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleDeleteMessage = async () => {
+    if (!messageToDelete) return;
+
+    const { data, error } = await supabase
+      .from('messages')
+      .update({ deleted_at: new Date().toISOString() })
+      .eq('id', messageToDelete.id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Message delete error:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to delete message. Please try again.',
+        variant: 'destructive',
+      });
+    } else {
+      applyMessageUpdate(data);
+      if (editingMessage?.id === messageToDelete.id) cancelEditing();
+    }
+    setMessageToDelete(null);
+  };
+
+  const clearAttachment = () => {
+    setAttachment(null);
+    if (attachmentInputRef.current) {
+      attachmentInputRef.current.value = '';
+    }
+  };
+
+  // Documents go up as they are; only the type and size are checked here
+  const handleAttachmentSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const mimeType = getAttachmentMimeType(file);
+    if (!mimeType) {
+      toast({
+        title: 'Invalid file type',
+        description: 'Please select a PDF, Word, Excel, PowerPoint, OpenDocument, RTF, CSV or text file.',
+        variant: 'destructive',
+      });
+      clearAttachment();
+      return;
+    }
+
+    if (file.size > MAX_ATTACHMENT_BYTES) {
+      toast({
+        title: 'File too large',
+        description: 'Please select a file smaller than 25MB.',
+        variant: 'destructive',
+      });
+      clearAttachment();
+      return;
+    }
+
+    // One attachment per message
+    setImageFile(null);
+    setImagePreviewUrl(null);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+    setAttachment({ file, mimeType });
+  };
+
+  const handleImageSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
@@ -320,40 +1214,134 @@ const ChatWindow = ({ recipientId, onBack }: ChatWindowProps) => {
       return;
     }
 
-    // Validate file size (5MB)
-    if (file.size > 5 * 1024 * 1024) {
+    // Photos are shrunk before upload; GIFs go up as they are, so they keep the 5MB cap
+    const isGif = file.type === 'image/gif';
+    if (file.size > (isGif ? 5 : 20) * 1024 * 1024) {
       toast({
         title: 'File too large',
-        description: 'Please select an image smaller than 5MB.',
+        description: isGif ? 'Please select a GIF smaller than 5MB.' : 'Please select an image smaller than 20MB.',
         variant: 'destructive',
       });
       return;
     }
 
-    setImageFile(file);
-    setImagePreviewUrl(URL.createObjectURL(file));
+    setUploadingImage(true);
+    try {
+      const prepared = await prepareChatImage(file);
+      clearAttachment();
+      setImageFile(prepared);
+      setImagePreviewUrl(URL.createObjectURL(prepared.image.blob));
+    } catch (error) {
+      console.error('Error processing image:', error);
+      toast({
+        title: 'Error',
+        description: "This image couldn't be processed. Please try another one.",
+        variant: 'destructive',
+      });
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    } finally {
+      setUploadingImage(false);
+    }
   };
 
   const handleKeyPress = (e: React.KeyboardEvent<HTMLInputElement>) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
-      handleSendMessage();
+      if (editingMessage) {
+        handleSaveEdit();
+      } else {
+        handleSendMessage();
+      }
+    } else if (e.key === 'Escape' && editingMessage) {
+      cancelEditing();
+    } else if (e.key === 'Escape' && replyingTo) {
+      setReplyingTo(null);
     }
   };
 
   return (
     <Card className="h-[600px] flex flex-col">
       <CardHeader className="border-b border-border">
-        {recipient ? (
+        {isGroup && group ? (
           <CardTitle className="flex items-center space-x-3">
             <Button variant="ghost" size="sm" onClick={onBack} className="mr-2">
               <ArrowLeft className="h-4 w-4" />
             </Button>
             <Avatar className="h-8 w-8">
-              <AvatarImage src={recipient.avatar_url} />
-              <AvatarFallback>{recipient.name?.charAt(0).toUpperCase()}</AvatarFallback>
+              <AvatarImage src={group.avatar_url} />
+              <AvatarFallback>{group.name?.charAt(0).toUpperCase()}</AvatarFallback>
             </Avatar>
-            <span>{recipient.name}</span>
+            <div className="flex-1 min-w-0">
+              <span className="block truncate">{group.name}</span>
+              <span className="block text-xs font-normal text-muted-foreground">
+                {members.length} {members.length === 1 ? 'member' : 'members'}
+              </span>
+            </div>
+            <Button variant="ghost" size="sm" onClick={() => setGroupSettingsOpen(true)} aria-label="Group settings">
+              <Settings className="h-4 w-4" />
+            </Button>
+            <GroupSettingsDialog
+              open={groupSettingsOpen}
+              onOpenChange={setGroupSettingsOpen}
+              group={group}
+              members={members}
+              myRole={myRole}
+              onGroupUpdated={setGroup}
+              onMembersChanged={fetchMembers}
+              onLeft={onBack}
+            />
+          </CardTitle>
+        ) : !isGroup && recipient ? (
+          <CardTitle className="flex items-center space-x-3">
+            <Button variant="ghost" size="sm" onClick={onBack} className="mr-2">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+            <div className="relative">
+              <Avatar className="h-8 w-8">
+                <AvatarImage src={recipient.avatar_url} />
+                <AvatarFallback>{recipient.name?.charAt(0).toUpperCase()}</AvatarFallback>
+              </Avatar>
+              <OnlineIndicator userId={recipient.id} className="h-2.5 w-2.5" />
+            </div>
+            <div className="min-w-0">
+              <span className="block truncate">{recipient.name}</span>
+              {isOnline(recipient.id) ? (
+                <span className="block text-xs font-normal text-green-600">Online</span>
+              ) : recipient.last_seen_at && (
+                <span className="block text-xs font-normal text-muted-foreground">
+                  Last seen {formatDistanceToNow(new Date(recipient.last_seen_at), { addSuffix: true })}
+                </span>
+              )}
+            </div>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="sm" className="ml-auto" aria-label="Conversation options">
+                  <MoreVertical className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {recipientBlocked ? (
+                  <DropdownMenuItem onClick={() => unblockUser(recipient.id)}>
+                    <ShieldOff className="h-4 w-4 mr-2" />
+                    Unblock {recipient.name}
+                  </DropdownMenuItem>
+                ) : (
+                  <DropdownMenuItem className="text-destructive" onClick={() => setBlockDialogOpen(true)}>
+                    <Ban className="h-4 w-4 mr-2" />
+                    Block {recipient.name}
+                  </DropdownMenuItem>
+                )}
+                <DropdownMenuItem
+                  className="text-destructive"
+                  onClick={() => setReportTarget({ type: 'user', userId: recipient.id, userName: recipient.name })}
+                >
+                  <Flag className="h-4 w-4 mr-2" />
+                  Report {recipient.name}
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
           </CardTitle>
         ) : (
           <div className="animate-pulse h-8 bg-muted rounded w-1/2"></div>
@@ -361,8 +1349,13 @@ const ChatWindow = ({ recipientId, onBack }: ChatWindowProps) => {
       </CardHeader>
 
       <CardContent className="flex-1 flex flex-col p-0 min-h-0">
-        <ScrollArea className="flex-1 p-4">
+        <div ref={scrollContainerRef} onScroll={handleScroll} className="flex-1 overflow-y-auto p-4">
           <div className="space-y-4">
+            {loadingOlder && (
+              <div className="flex justify-center">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            )}
             {loading ? (
               <div className="flex justify-center items-center h-full pt-10">
                 <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
@@ -374,124 +1367,256 @@ const ChatWindow = ({ recipientId, onBack }: ChatWindowProps) => {
             ) : (
               messages.map((message) => {
                 const isOwnMessage = message.sender_id === currentUser?.id;
-                const senderName = isOwnMessage ? currentUser?.user_metadata.name : message.sender.name;
-                const senderAvatar = isOwnMessage ? currentUser?.user_metadata.avatar_url : message.sender.avatar_url;
 
                 return (
-                  <div
+                  <MessageBubble
                     key={message.id}
-                    className={`flex items-end gap-2 ${isOwnMessage ? 'justify-end' : 'justify-start'}`}
-                  >
-                    {!isOwnMessage && (
-                      <Avatar className="h-8 w-8">
-                        <AvatarImage src={senderAvatar} />
-                        <AvatarFallback>{senderName?.charAt(0).toUpperCase()}</AvatarFallback>
-                      </Avatar>
-                    )}
-                    <div
-                      className={`max-w-[70%] rounded-lg p-3 ${
-                        isOwnMessage
-                          ? 'bg-primary text-primary-foreground'
-                          : 'bg-muted'
-                      }`}
-                    >
-                      {message.image_url && (
-                        <Dialog>
-                          <DialogTrigger asChild>
-                            <div className="relative cursor-pointer">
-                              {message.id.startsWith('optimistic-') && (
-                                <div className="absolute inset-0 bg-black/50 flex items-center justify-center rounded-lg">
-                                  <Loader2 className="h-6 w-6 animate-spin text-white" />
-                                </div>
-                              )}
-                              <img
-                                src={message.image_url}
-                                alt={message.image_filename || 'image'}
-                                className="rounded-lg max-w-full max-h-64 object-cover"
-                              />
-                            </div>
-                          </DialogTrigger>
-                          <DialogContent className="max-w-3xl">
-                            <DialogHeader>
-                              <DialogTitle>{message.image_filename || "Image"}</DialogTitle>
-                            </DialogHeader>
-                            <img src={message.image_url} alt={message.image_filename || 'image'} className="w-full h-auto rounded-lg" />
-                          </DialogContent>
-                        </Dialog>
-                      )}
-                      {message.content && <p className="break-words mt-2">{message.content}</p>}
-                      <p className="text-xs opacity-70 mt-1 text-right">
-                        {formatDistanceToNow(new Date(message.created_at), { addSuffix: true })}
-                      </p>
-                    </div>
-                     {isOwnMessage && currentUser && (
-                      <Avatar className="h-8 w-8">
-                        <AvatarImage src={senderAvatar} />
-                        <AvatarFallback>{senderName?.charAt(0).toUpperCase()}</AvatarFallback>
-                      </Avatar>
-                    )}
-                  </div>
+                    message={message}
+                    imageSrc={resolveImageUrl(message.image_url)}
+                    thumbnailSrc={resolveImageUrl(message.image_thumbnail_url)}
+                    mediaSrc={message.media_type === 'audio' || message.media_type === 'file' ? resolveImageUrl(message.media_url) : undefined}
+                    linkPreview={message.deleted_at ? undefined : resolveLinkPreview(message.link_preview_url)}
+                    isOwnMessage={isOwnMessage}
+                    isGroup={isGroup}
+                    senderName={isOwnMessage ? currentUser?.user_metadata.name : message.sender.name}
+                    senderAvatar={isOwnMessage ? currentUser?.user_metadata.avatar_url : message.sender.avatar_url}
+                    canViewHistory={isModerator}
+                    highlighted={highlightedMessageId === message.id}
+                    quote={getQuote(message)}
+                    onQuoteClick={jumpToMessage}
+                    onReply={startReply}
+                    isFavoriteGif={!!message.media_url && gifLibrary.isFavorite(message.media_url)}
+                    onToggleFavoriteGif={toggleFavoriteGif}
+                    onReport={(msg) => setReportTarget({ type: 'message', messageId: msg.id, userName: msg.sender.name })}
+                    currentUserId={currentUser?.id}
+                    reactions={reactionsByMessage.get(message.id)}
+                    resolveName={resolveName}
+                    onToggleReaction={(msg, emoji) => toggleReaction(msg.id, emoji)}
+                    onEdit={startEditing}
+                    onDelete={setMessageToDelete}
+                    onViewHistory={(msg) => setHistoryMessageId(msg.id)}
+                  />
                 );
               })
             )}
             <div ref={messagesEndRef} />
           </div>
-        </ScrollArea>
-
-        <div className="border-t border-border p-4">
-          {imagePreviewUrl && (
-            <div className="relative mb-4 w-32 h-32">
-              <img src={imagePreviewUrl} alt="Image preview" className="rounded-lg object-cover w-full h-full" />
-              <Button
-                variant="destructive"
-                size="sm"
-                className="absolute top-1 right-1 rounded-full h-6 w-6 p-0"
-                onClick={() => {
-                  setImageFile(null);
-                  setImagePreviewUrl(null);
-                  if (fileInputRef.current) {
-                    fileInputRef.current.value = '';
-                  }
-                }}
-              >
-                <X className="h-4 w-4" />
-              </Button>
-            </div>
-          )}
-          <div className="flex items-center space-x-2">
-            <input
-              type="file"
-              ref={fileInputRef}
-              className="hidden"
-              accept="image/jpeg,image/png,image/gif,image/webp"
-              onChange={handleImageSelect}
-            />
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={() => fileInputRef.current?.click()}
-              disabled={sending || uploadingImage || !currentUser}
-            >
-              <Image className="h-5 w-5" />
-            </Button>
-            <Input
-              value={newMessage}
-              onChange={(e) => setNewMessage(e.target.value)}
-              onKeyPress={handleKeyPress}
-              placeholder={imageFile ? "Add a caption..." : "Type a message..."}
-              disabled={sending || uploadingImage || !currentUser}
-              className="flex-1"
-            />
-            <Button onClick={handleSendMessage} disabled={sending || uploadingImage || (!newMessage.trim() && !imageFile) || !currentUser} size="sm" aria-label="Send message">
-              {sending || uploadingImage ? (
-                <Loader2 className="h-4 w-4 animate-spin" />
-              ) : (
-                <Send className="h-4 w-4" />
-              )}
+        </div>
+
+        {suspended ? (
+          <div className="border-t border-border p-4 text-center text-sm text-muted-foreground">
+            Your account is suspended. You can read messages but can't send new ones.
+          </div>
+        ) : recipientBlocked ? (
+          <div className="border-t border-border p-4 flex items-center justify-center gap-2 text-sm text-muted-foreground">
+            <span>You blocked {recipient?.name}. Unblock them to send messages.</span>
+            <Button variant="outline" size="sm" onClick={() => unblockUser(recipientId)}>
+              Unblock
             </Button>
           </div>
-        </div>
+        ) : (
+          <div className="border-t border-border p-4">
+            {rateLimitedUntil && !editingMessage && (
+              <p className="text-xs text-destructive mb-2" aria-live="polite">
+                You're sending messages too quickly. You can send again in a moment.
+              </p>
+            )}
+            {typists.length > 0 && (
+              <p className="text-xs text-muted-foreground italic mb-2" aria-live="polite">
+                {describeTypists(typists)}
+              </p>
+            )}
+            {editingMessage && (
+              <div className="flex items-center justify-between rounded-md bg-muted px-3 py-2 mb-2 text-sm">
+                <span className="flex items-center gap-2 min-w-0">
+                  <Pencil className="h-4 w-4 shrink-0" />
+                  <span className="truncate">Editing message</span>
+                </span>
+                <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={cancelEditing} aria-label="Cancel editing">
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+            {replyingTo && (
+              <div className="flex items-center justify-between rounded-md bg-muted px-3 py-2 mb-2 text-sm">
+                <div className="flex items-center gap-2 min-w-0 border-l-2 border-primary pl-2">
+                  <Reply className="h-4 w-4 shrink-0" />
+                  <div className="min-w-0">
+                    <span className="block text-xs font-semibold">Replying to {resolveName(replyingTo.sender_id)}</span>
+                    <span className="block truncate text-muted-foreground">
+                      {replyingTo.content || describeAttachment(replyingTo)}
+                    </span>
+                  </div>
+                </div>
+                <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => setReplyingTo(null)} aria-label="Cancel reply">
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+            {imagePreviewUrl && (
+              <div className="relative mb-4 w-32 h-32">
+                <img src={imagePreviewUrl} alt="Image preview" className="rounded-lg object-cover w-full h-full" />
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  className="absolute top-1 right-1 rounded-full h-6 w-6 p-0"
+                  onClick={() => {
+                    setImageFile(null);
+                    setImagePreviewUrl(null);
+                    if (fileInputRef.current) {
+                      fileInputRef.current.value = '';
+                    }
+                  }}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+            {attachment && (
+              <div className="flex items-center gap-2 mb-4 p-2 rounded-md bg-muted max-w-sm">
+                <FileText className="h-6 w-6 shrink-0 text-muted-foreground" />
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm font-medium truncate">{attachment.file.name}</p>
+                  <p className="text-xs text-muted-foreground">{formatFileSize(attachment.file.size)}</p>
+                </div>
+                <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={clearAttachment} aria-label="Remove attachment">
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+            {voiceRecorder.recording ? (
+              <div className="flex items-center space-x-2">
+                <Button variant="ghost" size="sm" onClick={voiceRecorder.cancel} aria-label="Discard recording">
+                  <X className="h-5 w-5" />
+                </Button>
+                <div className="flex flex-1 items-center gap-2 text-sm">
+                  <span className="h-2 w-2 rounded-full bg-destructive animate-pulse" />
+                  <span className="tabular-nums">{formatDuration(voiceRecorder.elapsedMs)}</span>
+                  <span className="text-muted-foreground">/ {formatDuration(MAX_VOICE_MESSAGE_SECONDS * 1000)}</span>
+                </div>
+                <Button onClick={handleSendVoiceMessage} size="sm" aria-label="Send voice message">
+                  <Send className="h-4 w-4" />
+                </Button>
+              </div>
+            ) : (
+              <div className="flex items-center space-x-2">
+                <input
+                  type="file"
+                  ref={fileInputRef}
+                  className="hidden"
+                  accept="image/jpeg,image/png,image/gif,image/webp"
+                  onChange={handleImageSelect}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={sending || uploadingImage || !!editingMessage || !currentUser}
+                >
+                  <Image className="h-5 w-5" />
+                </Button>
+                <input
+                  type="file"
+                  ref={attachmentInputRef}
+                  className="hidden"
+                  accept={ATTACHMENT_ACCEPT}
+                  onChange={handleAttachmentSelect}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => attachmentInputRef.current?.click()}
+                  disabled={sending || uploadingImage || !!editingMessage || !currentUser}
+                  aria-label="Attach a file"
+                >
+                  <Paperclip className="h-5 w-5" />
+                </Button>
+                <GifPicker
+                  onGifSelect={handleGifSelect}
+                  favorites={gifLibrary.favorites}
+                  recents={gifLibrary.recents}
+                  isFavorite={gifLibrary.isFavorite}
+                  onToggleFavorite={gifLibrary.toggleFavorite}
+                  disabled={sending || uploadingImage || !!editingMessage || !currentUser || !!rateLimitedUntil}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={startRecording}
+                  disabled={sending || uploadingImage || !!editingMessage || !!imageFile || !!attachment || !currentUser || !!rateLimitedUntil}
+                  aria-label="Record a voice message"
+                >
+                  <Mic className="h-5 w-5" />
+                </Button>
+                <Input
+                  value={newMessage}
+                  onChange={(e) => {
+                    setNewMessage(e.target.value);
+                    if (e.target.value && !editingMessage) notifyTyping();
+                  }}
+                  onKeyDown={handleKeyPress}
+                  placeholder={imageFile || attachment ? "Add a caption..." : "Type a message..."}
+                  disabled={sending || uploadingImage || !currentUser}
+                  className="flex-1"
+                />
+                <Button
+                  onClick={editingMessage ? handleSaveEdit : handleSendMessage}
+                  disabled={
+                    sending || uploadingImage || (!newMessage.trim() && !imageFile && !attachment) || !currentUser
+                    || (!editingMessage && !!rateLimitedUntil)
+                  }
+                  size="sm"
+                  aria-label={editingMessage ? 'Save edit' : 'Send message'}
+                >
+                  {sending || uploadingImage ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Send className="h-4 w-4" />
+                  )}
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
       </CardContent>
+
+      <AlertDialog open={blockDialogOpen} onOpenChange={setBlockDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Block {recipient?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              They won't be able to message you, send you DM requests or find you in the student list.
+              You can unblock them at any time from this chat or your profile.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => recipientId && blockUser(recipientId)}>Block</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={!!messageToDelete} onOpenChange={(open) => !open && setMessageToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete message?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The message will be removed for everyone in this conversation. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeleteMessage}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <ReportDialog target={reportTarget} onOpenChange={(open) => !open && setReportTarget(null)} />
+
+      <MessageHistoryDialog
+        messageId={historyMessageId}
+        onOpenChange={(open) => !open && setHistoryMessageId(null)}
+      />
     </Card>
   );
 };
@@ -0,0 +1,109 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2 } from 'lucide-react';
+import UserPicker from '@/components/UserPicker';
+import { useToast } from '@/hooks/use-toast';
+
+interface CreateGroupDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated: (conversationId: string) => void;
+}
+
+const CreateGroupDialog = ({ open, onOpenChange, onCreated }: CreateGroupDialogProps) => {
+  const { toast } = useToast();
+  const [name, setName] = useState('');
+  const [memberIds, setMemberIds] = useState<string[]>([]);
+  const [creating, setCreating] = useState(false);
+
+  const reset = () => {
+    setName('');
+    setMemberIds([]);
+  };
+
+  const handleCreate = async () => {
+    if (!name.trim() || memberIds.length === 0) return;
+
+    setCreating(true);
+    try {
+      const { data: conversationId, error } = await supabase.rpc('create_group_conversation', {
+        p_name: name.trim(),
+        p_member_ids: memberIds,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: 'Group created',
+        description: `${name.trim()} is ready to go.`,
+      });
+      reset();
+      onOpenChange(false);
+      onCreated(conversationId);
+    } catch (error) {
+      console.error('Error creating group:', error);
+      toast({
+        title: 'Error',
+        description: (error as { message?: string }).message || 'Failed to create group',
+        variant: 'destructive',
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        if (!isOpen) reset();
+        onOpenChange(isOpen);
+      }}
+    >
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>New group</DialogTitle>
+          <DialogDescription>Name your group and pick who to add.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="group-name">Group name</Label>
+            <Input
+              id="group-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Biology study group"
+              maxLength={80}
+            />
+          </div>
+          <div>
+            <Label>Members</Label>
+            <UserPicker selectedIds={memberIds} onSelectedIdsChange={setMemberIds} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button
+            onClick={handleCreate}
+            disabled={creating || !name.trim() || memberIds.length === 0}
+          >
+            {creating && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Create group
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CreateGroupDialog;
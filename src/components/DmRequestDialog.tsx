@@ -0,0 +1,76 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2, Send } from 'lucide-react';
+
+const MAX_NOTE_LENGTH = 200;
+
+interface DmRequestDialogProps {
+  recipient: { id: string; name: string } | null;
+  onOpenChange: (open: boolean) => void;
+  // Resolves to true once the request has been sent
+  onSend: (note: string) => Promise<boolean>;
+}
+
+const DmRequestDialog = ({ recipient, onOpenChange, onSend }: DmRequestDialogProps) => {
+  const [note, setNote] = useState('');
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    if (recipient) setNote('');
+  }, [recipient]);
+
+  const handleSend = async () => {
+    setSending(true);
+    const sent = await onSend(note.trim());
+    setSending(false);
+    if (sent) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={!!recipient} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Message {recipient?.name}</DialogTitle>
+          <DialogDescription>
+            {recipient?.name} only accepts messages from people they've approved. Send a request and let them know who you are.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="dm-request-note">Add a note (optional)</Label>
+          <Textarea
+            id="dm-request-note"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Hi, I'm in your biology group"
+            maxLength={MAX_NOTE_LENGTH}
+            rows={3}
+          />
+          <p className="text-xs text-muted-foreground text-right">
+            {note.length}/{MAX_NOTE_LENGTH}
+          </p>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={sending}>
+            Cancel
+          </Button>
+          <Button onClick={handleSend} disabled={sending}>
+            {sending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+            Send request
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DmRequestDialog;
@@ -0,0 +1,58 @@
+import { Button } from '@/components/ui/button';
+import { Download, File, FileSpreadsheet, FileText, Presentation } from 'lucide-react';
+import { ATTACHMENT_TYPES, AttachmentKind, formatFileSize, getExtension } from '@/lib/attachments';
+
+interface FileAttachmentCardProps {
+  filename: string;
+  mimeType?: string | null;
+  size?: number | null;
+  // Signed link to the file; the download button is disabled until it's ready
+  src?: string;
+  onOpen?: () => void;
+}
+
+const KIND_ICONS: Record<AttachmentKind, typeof File> = {
+  pdf: FileText,
+  document: FileText,
+  spreadsheet: FileSpreadsheet,
+  presentation: Presentation,
+  text: FileText,
+};
+
+const FileAttachmentCard = ({ filename, mimeType, size, src, onOpen }: FileAttachmentCardProps) => {
+  const type = mimeType ? ATTACHMENT_TYPES[mimeType] : undefined;
+  const Icon = type ? KIND_ICONS[type.kind] : File;
+  const details = [type?.label ?? getExtension(filename).toUpperCase(), size ? formatFileSize(size) : null]
+    .filter(Boolean)
+    .join(' · ');
+
+  return (
+    <div className="flex items-center gap-3 rounded-md bg-background/20 p-2 min-w-[220px] max-w-full">
+      <button
+        type="button"
+        onClick={onOpen}
+        disabled={!onOpen}
+        className="flex flex-1 items-center gap-3 min-w-0 text-left disabled:cursor-default"
+      >
+        <Icon className="h-8 w-8 shrink-0" />
+        <span className="min-w-0">
+          <span className="block truncate text-sm font-medium">{filename}</span>
+          <span className="block text-xs opacity-70">{details}</span>
+        </span>
+      </button>
+      <Button variant="ghost" size="sm" className="h-8 w-8 p-0 shrink-0" asChild={!!src} disabled={!src}>
+        {src ? (
+          <a href={src} download={filename} target="_blank" rel="noreferrer" aria-label={`Download ${filename}`}>
+            <Download className="h-4 w-4" />
+          </a>
+        ) : (
+          <span aria-label="Preparing download">
+            <Download className="h-4 w-4" />
+          </span>
+        )}
+      </Button>
+    </div>
+  );
+};
+
+export default FileAttachmentCard;
@@ -3,11 +3,12 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
-import { Search, Smile } from 'lucide-react';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Search, Smile, Star } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 
-interface Gif {
+export interface Gif {
   id: string;
   title: string;
   url: string;
@@ -16,37 +17,62 @@ interface Gif {
   height: number;
 }
 
+interface GifCategory {
+  name: string;
+  searchTerm: string;
+  preview: string;
+}
+
+type GifTab = 'trending' | 'favorites' | 'recent';
+
 interface GifPickerProps {
-  onGifSelect: (gifUrl: string) => void;
+  onGifSelect: (gif: Gif) => void;
+  disabled?: boolean;
+  // The user's saved GIFs, shown as tabs before any search
+  favorites?: Gif[];
+  recents?: Gif[];
+  isFavorite?: (url: string) => boolean;
+  onToggleFavorite?: (gif: Gif) => void;
 }
 
-export const GifPicker = ({ onGifSelect }: GifPickerProps) => {
+const PAGE_SIZE = 20;
+
+export const GifPicker = ({
+  onGifSelect,
+  disabled,
+  favorites = [],
+  recents = [],
+  isFavorite = () => false,
+  onToggleFavorite,
+}: GifPickerProps) => {
   const [isOpen, setIsOpen] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
+  const [tab, setTab] = useState<GifTab>('trending');
   const [gifs, setGifs] = useState<Gif[]>([]);
+  const [next, setNext] = useState<string | undefined>();
+  const [categories, setCategories] = useState<GifCategory[]>([]);
   const [loading, setLoading] = useState(false);
   const { toast } = useToast();
 
-  const searchGifs = useCallback(async (query: string) => {
-    if (!query.trim()) {
-      setGifs([]);
-      return;
-    }
-
+  // Trending GIFs when there's no search term, otherwise search results
+  const loadGifs = useCallback(async (query: string, pos?: string) => {
     setLoading(true);
     try {
       const { data, error } = await supabase.functions.invoke('search-gifs', {
-        body: { searchTerm: query, limit: 20 }
+        body: query
+          ? { action: 'search', searchTerm: query, limit: PAGE_SIZE, pos }
+          : { action: 'trending', limit: PAGE_SIZE, pos },
       });
 
       if (error) throw error;
 
-      setGifs(data.gifs || []);
+      setGifs(prev => (pos ? [...prev, ...(data.gifs || [])] : data.gifs || []));
+      setNext(data.next);
     } catch (error) {
-      console.error('Error searching GIFs:', error);
+      console.error('Error loading GIFs:', error);
       toast({
         title: 'Error',
-        description: 'Failed to search GIFs',
+        description: 'Failed to load GIFs',
         variant: 'destructive',
       });
     } finally {
@@ -55,17 +81,32 @@ export const GifPicker = ({ onGifSelect }: GifPickerProps) => {
   }, [toast]);
 
   useEffect(() => {
+    if (!isOpen || (!searchTerm && tab !== 'trending')) return;
     const timeoutId = setTimeout(() => {
-      if (searchTerm) {
-        searchGifs(searchTerm);
-      }
-    }, 300);
+      loadGifs(searchTerm.trim());
+    }, searchTerm ? 300 : 0);
 
     return () => clearTimeout(timeoutId);
-  }, [searchTerm, searchGifs]);
+  }, [isOpen, searchTerm, tab, loadGifs]);
+
+  useEffect(() => {
+    if (!isOpen || categories.length > 0) return;
+    supabase.functions.invoke('search-gifs', { body: { action: 'categories' } }).then(({ data, error }) => {
+      if (error) {
+        console.error('Error loading GIF categories:', error);
+        return;
+      }
+      setCategories(data.categories || []);
+    });
+  }, [isOpen, categories.length]);
+
+  const showingTrending = !searchTerm && tab === 'trending';
+  // Search results and trending come from the provider; the other tabs are saved GIFs
+  const fromProvider = !!searchTerm || tab === 'trending';
+  const visibleGifs = fromProvider ? gifs : tab === 'favorites' ? favorites : recents;
 
   const handleGifClick = (gif: Gif) => {
-    onGifSelect(gif.url);
+    onGifSelect(gif);
     setIsOpen(false);
     setSearchTerm('');
     setGifs([]);
@@ -74,7 +115,7 @@ export const GifPicker = ({ onGifSelect }: GifPickerProps) => {
   return (
     <Popover open={isOpen} onOpenChange={setIsOpen}>
       <PopoverTrigger asChild>
-        <Button variant="ghost" size="sm">
+        <Button variant="ghost" size="sm" disabled={disabled} aria-label="Send a GIF">
           <Smile className="h-4 w-4" />
         </Button>
       </PopoverTrigger>
@@ -89,41 +130,94 @@ export const GifPicker = ({ onGifSelect }: GifPickerProps) => {
               className="pl-8"
             />
           </div>
-          
+
+          {!searchTerm && (
+            <Tabs value={tab} onValueChange={(value) => setTab(value as GifTab)}>
+              <TabsList className="grid w-full grid-cols-3">
+                <TabsTrigger value="trending">Trending</TabsTrigger>
+                <TabsTrigger value="favorites">Favorites</TabsTrigger>
+                <TabsTrigger value="recent">Recent</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          )}
+
+          {showingTrending && categories.length > 0 && (
+            <div className="flex gap-1 overflow-x-auto pb-1">
+              {categories.map(category => (
+                <Button
+                  key={category.searchTerm}
+                  variant="secondary"
+                  size="sm"
+                  className="h-7 shrink-0 text-xs"
+                  onClick={() => setSearchTerm(category.searchTerm)}
+                >
+                  {category.name}
+                </Button>
+              ))}
+            </div>
+          )}
+
           <ScrollArea className="h-64">
-            {loading ? (
+            <div className="grid grid-cols-2 gap-2">
+              {visibleGifs.map((gif) => {
+                const favorite = isFavorite(gif.url);
+                return (
+                  <div key={gif.id} className="relative">
+                    <button
+                      type="button"
+                      onClick={() => handleGifClick(gif)}
+                      className="block w-full overflow-hidden rounded-md hover:opacity-80 transition-opacity"
+                      style={{ aspectRatio: '16/9' }}
+                    >
+                      <img
+                        src={gif.preview}
+                        alt={gif.title}
+                        className="w-full h-full object-cover"
+                        loading="lazy"
+                      />
+                    </button>
+                    {onToggleFavorite && (
+                      <button
+                        type="button"
+                        onClick={() => onToggleFavorite(gif)}
+                        className="absolute top-1 right-1 rounded-full bg-black/50 p-1 text-white hover:bg-black/70"
+                        aria-label={favorite ? 'Remove from favorites' : 'Add to favorites'}
+                      >
+                        <Star className={`h-3 w-3 ${favorite ? 'fill-yellow-400 text-yellow-400' : ''}`} />
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            {loading && fromProvider && (
               <div className="flex items-center justify-center h-32">
                 <div className="animate-spin rounded-full h-6 w-6 border-2 border-primary border-t-transparent"></div>
               </div>
-            ) : (
-              <div className="grid grid-cols-2 gap-2">
-                {gifs.map((gif) => (
-                  <button
-                    key={gif.id}
-                    onClick={() => handleGifClick(gif)}
-                    className="relative overflow-hidden rounded-md hover:opacity-80 transition-opacity"
-                    style={{ aspectRatio: '16/9' }}
-                  >
-                    <img
-                      src={gif.preview}
-                      alt={gif.title}
-                      className="w-full h-full object-cover"
-                      loading="lazy"
-                    />
-                  </button>
-                ))}
-              </div>
             )}
-            
+
+            {!loading && fromProvider && next && (
+              <Button variant="ghost" size="sm" className="w-full mt-2" onClick={() => loadGifs(searchTerm.trim(), next)}>
+                Load more
+              </Button>
+            )}
+
             {!loading && searchTerm && gifs.length === 0 && (
               <div className="text-center text-muted-foreground py-8">
                 No GIFs found for "{searchTerm}"
               </div>
             )}
-            
-            {!searchTerm && (
-              <div className="text-center text-muted-foreground py-8">
-                Search for GIFs above
+
+            {!searchTerm && tab === 'favorites' && favorites.length === 0 && (
+              <div className="text-center text-sm text-muted-foreground py-8">
+                Star a GIF to keep it here
+              </div>
+            )}
+
+            {!searchTerm && tab === 'recent' && recents.length === 0 && (
+              <div className="text-center text-sm text-muted-foreground py-8">
+                GIFs you send will show up here
               </div>
             )}
           </ScrollArea>
@@ -131,4 +225,4 @@ export const GifPicker = ({ onGifSelect }: GifPickerProps) => {
       </PopoverContent>
     </Popover>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,351 @@
+import { useEffect, useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Camera, LogOut, MoreVertical, Save, UserPlus } from 'lucide-react';
+import UserPicker from '@/components/UserPicker';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import type { Database } from '@/integrations/supabase/types';
+import { AVATAR_DIMENSION, processImage } from '@/lib/image';
+
+export type ConversationRole = Database['public']['Enums']['conversation_role'];
+
+export interface GroupDetails {
+  id: string;
+  name: string;
+  avatar_url?: string;
+}
+
+export interface GroupMember {
+  user_id: string;
+  name: string;
+  avatar_url?: string;
+  role: ConversationRole;
+  joined_at: string;
+}
+
+interface GroupSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  group: GroupDetails;
+  members: GroupMember[];
+  myRole?: ConversationRole;
+  onGroupUpdated: (group: GroupDetails) => void;
+  onMembersChanged: () => void;
+  onLeft: () => void;
+}
+
+const roleLabels: Record<ConversationRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  member: 'Member',
+};
+
+const GroupSettingsDialog = ({
+  open,
+  onOpenChange,
+  group,
+  members,
+  myRole,
+  onGroupUpdated,
+  onMembersChanged,
+  onLeft,
+}: GroupSettingsDialogProps) => {
+  const { user: currentUser } = useAuth();
+  const { toast } = useToast();
+  const [name, setName] = useState(group.name);
+  const [newMemberIds, setNewMemberIds] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const canManage = myRole === 'owner' || myRole === 'admin';
+
+  useEffect(() => {
+    setName(group.name);
+  }, [group.name]);
+
+  const runAction = async (action: () => Promise<{ error: unknown }>, successMessage: string) => {
+    const { error } = await action();
+    if (error) {
+      console.error('Group action failed:', error);
+      toast({
+        title: 'Error',
+        description: (error as { message?: string }).message || 'Something went wrong',
+        variant: 'destructive',
+      });
+      return false;
+    }
+    toast({ title: 'Success', description: successMessage });
+    onMembersChanged();
+    return true;
+  };
+
+  const handleRename = async () => {
+    if (!name.trim() || name.trim() === group.name) return;
+    setSaving(true);
+    const { error } = await supabase
+      .from('conversations')
+      .update({ name: name.trim() })
+      .eq('id', group.id);
+    setSaving(false);
+
+    if (error) {
+      console.error('Error renaming group:', error);
+      toast({ title: 'Error', description: 'Failed to rename group', variant: 'destructive' });
+      return;
+    }
+    onGroupUpdated({ ...group, name: name.trim() });
+    toast({ title: 'Success', description: 'Group renamed' });
+  };
+
+  const handleAvatarUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file || !currentUser) return;
+
+    if (!file.type.startsWith('image/')) {
+      toast({ title: 'Error', description: 'Please select an image file', variant: 'destructive' });
+      return;
+    }
+
+    if (file.size > 20 * 1024 * 1024) {
+      toast({ title: 'Error', description: 'Image must be less than 20MB', variant: 'destructive' });
+      return;
+    }
+
+    setUploading(true);
+    try {
+      const avatar = await processImage(file, AVATAR_DIMENSION);
+      // The avatars bucket only accepts uploads under the uploader's own folder
+      const filePath = `${currentUser.id}/groups/${group.id}.${avatar.extension}`;
+
+      const { error: uploadError } = await supabase.storage
+        .from('avatars')
+        .upload(filePath, avatar.blob, { upsert: true, contentType: avatar.blob.type });
+
+      if (uploadError) throw uploadError;
+
+      const { data: { publicUrl } } = supabase.storage
+        .from('avatars')
+        .getPublicUrl(filePath);
+
+      // Bust caches since the path is reused for every upload
+      const avatarUrl = `${publicUrl}?v=${Date.now()}`;
+
+      const { error: updateError } = await supabase
+        .from('conversations')
+        .update({ avatar_url: avatarUrl })
+        .eq('id', group.id);
+
+      if (updateError) throw updateError;
+
+      onGroupUpdated({ ...group, avatar_url: avatarUrl });
+      toast({ title: 'Success', description: 'Group avatar updated' });
+    } catch (error) {
+      console.error('Error uploading group avatar:', error);
+      toast({ title: 'Error', description: 'Failed to upload group avatar', variant: 'destructive' });
+    } finally {
+      setUploading(false);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    }
+  };
+
+  const handleAddMembers = async () => {
+    if (newMemberIds.length === 0) return;
+    const added = await runAction(
+      async () => supabase.rpc('add_conversation_members', { p_conversation_id: group.id, p_user_ids: newMemberIds }),
+      newMemberIds.length === 1 ? 'Member added' : 'Members added'
+    );
+    if (added) setNewMemberIds([]);
+  };
+
+  const handleRemove = (member: GroupMember) =>
+    runAction(
+      async () => supabase.rpc('remove_conversation_member', { p_conversation_id: group.id, p_user_id: member.user_id }),
+      `${member.name} was removed from the group`
+    );
+
+  const handleSetRole = (member: GroupMember, role: ConversationRole) =>
+    runAction(
+      async () => supabase.rpc('set_conversation_member_role', { p_conversation_id: group.id, p_user_id: member.user_id, p_role: role }),
+      role === 'owner' ? `${member.name} now owns the group` : `${member.name} is now ${roleLabels[role].toLowerCase()}`
+    );
+
+  const handleLeave = async () => {
+    if (!currentUser) return;
+    const { error } = await supabase.rpc('remove_conversation_member', {
+      p_conversation_id: group.id,
+      p_user_id: currentUser.id,
+    });
+
+    if (error) {
+      console.error('Error leaving group:', error);
+      toast({ title: 'Error', description: 'Failed to leave group', variant: 'destructive' });
+      return;
+    }
+    toast({ title: 'Left group', description: `You left ${group.name}` });
+    onOpenChange(false);
+    onLeft();
+  };
+
+  const canRemove = (member: GroupMember) =>
+    member.user_id !== currentUser?.id &&
+    (myRole === 'owner' || (myRole === 'admin' && member.role === 'member'));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Group settings</DialogTitle>
+          <DialogDescription>Manage the group's name, avatar and members.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center space-x-4">
+            <div className="relative">
+              <Avatar className="h-16 w-16">
+                <AvatarImage src={group.avatar_url} />
+                <AvatarFallback className="text-xl">{group.name.charAt(0).toUpperCase()}</AvatarFallback>
+              </Avatar>
+              {canManage && (
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  className="absolute -bottom-2 -right-2 rounded-full h-7 w-7 p-0"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={uploading}
+                >
+                  <Camera className="h-3 w-3" />
+                </Button>
+              )}
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="image/*"
+                onChange={handleAvatarUpload}
+                className="hidden"
+              />
+            </div>
+            <div className="flex-1 space-y-1">
+              <Label htmlFor="group-settings-name">Group name</Label>
+              <div className="flex space-x-2">
+                <Input
+                  id="group-settings-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  disabled={!canManage}
+                  maxLength={80}
+                />
+                {canManage && (
+                  <Button size="sm" onClick={handleRename} disabled={saving || !name.trim() || name.trim() === group.name}>
+                    <Save className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          </div>
+
+          <Separator />
+
+          <div>
+            <Label className="text-base">Members ({members.length})</Label>
+            <ScrollArea className="h-48 mt-2">
+              <div className="space-y-1 pr-3">
+                {members.map(member => (
+                  <div key={member.user_id} className="flex items-center justify-between p-2 rounded-md hover:bg-accent">
+                    <div className="flex items-center space-x-3">
+                      <Avatar className="h-8 w-8">
+                        <AvatarImage src={member.avatar_url} />
+                        <AvatarFallback>{member.name?.charAt(0).toUpperCase()}</AvatarFallback>
+                      </Avatar>
+                      <span className="text-sm">
+                        {member.name}
+                        {member.user_id === currentUser?.id && ' (you)'}
+                      </span>
+                      {member.role !== 'member' && (
+                        <Badge variant="secondary">{roleLabels[member.role]}</Badge>
+                      )}
+                    </div>
+                    {(canRemove(member) || (myRole === 'owner' && member.user_id !== currentUser?.id)) && (
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="sm" aria-label={`Manage ${member.name}`}>
+                            <MoreVertical className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          {myRole === 'owner' && member.role === 'member' && (
+                            <DropdownMenuItem onClick={() => handleSetRole(member, 'admin')}>Make admin</DropdownMenuItem>
+                          )}
+                          {myRole === 'owner' && member.role === 'admin' && (
+                            <DropdownMenuItem onClick={() => handleSetRole(member, 'member')}>Remove admin</DropdownMenuItem>
+                          )}
+                          {myRole === 'owner' && (
+                            <DropdownMenuItem onClick={() => handleSetRole(member, 'owner')}>Transfer ownership</DropdownMenuItem>
+                          )}
+                          {canRemove(member) && (
+                            <DropdownMenuItem className="text-destructive" onClick={() => handleRemove(member)}>
+                              Remove from group
+                            </DropdownMenuItem>
+                          )}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          </div>
+
+          {canManage && (
+            <>
+              <Separator />
+              <div className="space-y-2">
+                <Label className="text-base">Add members</Label>
+                <UserPicker
+                  selectedIds={newMemberIds}
+                  onSelectedIdsChange={setNewMemberIds}
+                  excludeIds={members.map(m => m.user_id)}
+                />
+                <Button size="sm" onClick={handleAddMembers} disabled={newMemberIds.length === 0} className="w-full">
+                  <UserPlus className="h-4 w-4 mr-2" />
+                  Add {newMemberIds.length > 0 ? newMemberIds.length : ''} to group
+                </Button>
+              </div>
+            </>
+          )}
+
+          <Separator />
+
+          <Button variant="destructive" className="w-full" onClick={handleLeave}>
+            <LogOut className="h-4 w-4 mr-2" />
+            Leave group
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default GroupSettingsDialog;
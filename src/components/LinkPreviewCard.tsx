@@ -0,0 +1,41 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { LinkPreview } from '@/hooks/use-link-previews';
+
+// Preview images are copied here by unfurl-link, so viewers never load
+// anything from the linked site
+const PREVIEW_IMAGE_BUCKET = 'link-preview-images';
+
+interface LinkPreviewCardProps {
+  preview: LinkPreview;
+}
+
+const LinkPreviewCard = ({ preview }: LinkPreviewCardProps) => {
+  const imageUrl = preview.image_url
+    ? supabase.storage.from(PREVIEW_IMAGE_BUCKET).getPublicUrl(preview.image_url).data.publicUrl
+    : null;
+
+  return (
+    <a
+      href={preview.url}
+      target="_blank"
+      rel="noopener noreferrer nofollow"
+      className="mt-2 block overflow-hidden rounded-md border border-current/20 bg-background/20 hover:bg-background/30 transition-colors max-w-xs"
+    >
+      {imageUrl && (
+        <img
+          src={imageUrl}
+          alt=""
+          loading="lazy"
+          className="w-full max-h-40 object-cover"
+        />
+      )}
+      <div className="p-2 space-y-0.5">
+        {preview.site_name && <p className="text-xs opacity-70 truncate">{preview.site_name}</p>}
+        <p className="text-sm font-semibold line-clamp-2">{preview.title}</p>
+        {preview.description && <p className="text-xs opacity-80 line-clamp-2">{preview.description}</p>}
+      </div>
+    </a>
+  );
+};
+
+export default LinkPreviewCard;
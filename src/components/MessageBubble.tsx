@@ -0,0 +1,406 @@
+import { useState } from 'react';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuTrigger,
+} from '@/components/ui/context-menu';
+import { Loader2, Check, CheckCheck, Clock, Pencil, Trash2, History, Reply, Flag, Star } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import MessageReactions, { ReactionPicker } from '@/components/MessageReactions';
+import VoiceMessagePlayer from '@/components/VoiceMessagePlayer';
+import FileAttachmentCard from '@/components/FileAttachmentCard';
+import LinkPreviewCard from '@/components/LinkPreviewCard';
+import type { MessageReaction } from '@/hooks/use-message-reactions';
+import type { LinkPreview } from '@/hooks/use-link-previews';
+import { splitLinks } from '@/lib/links';
+
+export interface ChatUser {
+  id: string;
+  name: string;
+  avatar_url?: string;
+  last_seen_at?: string | null;
+}
+
+export interface ChatMessage {
+  id: string;
+  sender_id: string;
+  recipient_id?: string;
+  conversation_id?: string;
+  content: string;
+  created_at: string;
+  image_url?: string;
+  image_filename?: string;
+  image_size?: number;
+  image_thumbnail_url?: string | null;
+  image_width?: number | null;
+  image_height?: number | null;
+  media_type?: string | null;
+  media_url?: string | null;
+  media_size?: number | null;
+  media_duration_ms?: number | null;
+  media_waveform?: number[] | null;
+  media_filename?: string | null;
+  media_mime_type?: string | null;
+  link_preview_url?: string | null;
+  delivered_at?: string | null;
+  read_at?: string | null;
+  edited_at?: string | null;
+  deleted_at?: string | null;
+  reply_to_id?: string | null;
+  // The 'sender' is a join from the users table
+  sender: ChatUser;
+}
+
+// What a reply shows of the message it answers
+export interface QuotedMessage {
+  senderName: string;
+  content?: string;
+  hasImage?: boolean;
+  isGif?: boolean;
+  isVoice?: boolean;
+  fileName?: string | null;
+  deleted?: boolean;
+}
+
+interface MessageBubbleProps {
+  message: ChatMessage;
+  // Signed links for message.image_url and its thumbnail; a placeholder shows until they're ready
+  imageSrc?: string;
+  thumbnailSrc?: string;
+  // Signed link for a voice message's recording or an attached file
+  mediaSrc?: string;
+  linkPreview?: LinkPreview;
+  isOwnMessage: boolean;
+  isGroup: boolean;
+  senderName?: string;
+  senderAvatar?: string;
+  canViewHistory?: boolean;
+  highlighted?: boolean;
+  quote?: QuotedMessage;
+  onQuoteClick?: (messageId: string) => void;
+  onReply?: (message: ChatMessage) => void;
+  onReport?: (message: ChatMessage) => void;
+  isFavoriteGif?: boolean;
+  onToggleFavoriteGif?: (message: ChatMessage) => void;
+  currentUserId?: string;
+  reactions?: MessageReaction[];
+  resolveName?: (userId: string) => string;
+  onToggleReaction?: (message: ChatMessage, emoji: string) => void;
+  onEdit?: (message: ChatMessage) => void;
+  onDelete?: (message: ChatMessage) => void;
+  onViewHistory?: (message: ChatMessage) => void;
+}
+
+// Largest box a photo takes up in the message list
+const MAX_PREVIEW_WIDTH = 320;
+const MAX_PREVIEW_HEIGHT = 256;
+
+// Size to reserve for a photo before it loads, when its dimensions are known
+const getPreviewSize = (width?: number | null, height?: number | null) => {
+  if (!width || !height) return undefined;
+  const scale = Math.min(1, MAX_PREVIEW_WIDTH / width, MAX_PREVIEW_HEIGHT / height);
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+// Ticks under outgoing direct messages: sending, sent, delivered, read
+const MessageStatus = ({ message }: { message: ChatMessage }) => {
+  if (message.id.startsWith('optimistic-')) {
+    return <Clock className="h-3 w-3" aria-label="Sending" />;
+  }
+  if (message.read_at) {
+    return <CheckCheck className="h-3 w-3 text-sky-300" aria-label="Read" />;
+  }
+  if (message.delivered_at) {
+    return <CheckCheck className="h-3 w-3" aria-label="Delivered" />;
+  }
+  return <Check className="h-3 w-3" aria-label="Sent" />;
+};
+
+// Message text with its links made clickable
+const LinkifiedText = ({ text }: { text: string }) => (
+  <>
+    {splitLinks(text).map((part, index) => (
+      part.type === 'link' ? (
+        <a
+          key={index}
+          href={part.text}
+          target="_blank"
+          rel="noopener noreferrer nofollow"
+          className="underline underline-offset-2 break-all"
+        >
+          {part.text}
+        </a>
+      ) : (
+        <span key={index}>{part.text}</span>
+      )
+    ))}
+  </>
+);
+
+const MessageBubble = ({
+  message,
+  imageSrc,
+  thumbnailSrc,
+  mediaSrc,
+  linkPreview,
+  isOwnMessage,
+  isGroup,
+  senderName,
+  senderAvatar,
+  canViewHistory,
+  highlighted,
+  quote,
+  onQuoteClick,
+  onReply,
+  onReport,
+  isFavoriteGif,
+  onToggleFavoriteGif,
+  currentUserId,
+  reactions = [],
+  resolveName = () => 'Someone',
+  onToggleReaction,
+  onEdit,
+  onDelete,
+  onViewHistory,
+}: MessageBubbleProps) => {
+  const [pdfPreviewOpen, setPdfPreviewOpen] = useState(false);
+  const isOptimistic = message.id.startsWith('optimistic-');
+  const isDeleted = !!message.deleted_at;
+  // The list shows the thumbnail when there is one; the full image opens on click
+  const previewSrc = message.image_thumbnail_url ? thumbnailSrc : imageSrc;
+  const previewSize = getPreviewSize(message.image_width, message.image_height);
+  const canPreviewPdf = message.media_mime_type === 'application/pdf' && !!mediaSrc && !isOptimistic;
+  const showSenderName = isGroup && !isOwnMessage;
+  const canEdit = isOwnMessage && !isOptimistic && !isDeleted && !!message.content && !!onEdit;
+  const canDelete = isOwnMessage && !isOptimistic && !isDeleted && !!onDelete;
+  const showHistory = canViewHistory && !!onViewHistory && (!!message.edited_at || isDeleted);
+  const canReply = !isOptimistic && !isDeleted && !!onReply;
+  const canReport = !isOwnMessage && !isDeleted && !!onReport;
+  const canFavoriteGif = !isDeleted && message.media_type === 'gif' && !!message.media_url && !!onToggleFavoriteGif;
+  const hasMenu = canReply || canFavoriteGif || canEdit || canDelete || canReport || showHistory;
+  const canReact = !isOptimistic && !isDeleted && !!onToggleReaction;
+
+  const bubble = (
+    <div
+      className={`rounded-lg p-3 transition-shadow ${
+        isOwnMessage
+          ? 'bg-primary text-primary-foreground'
+          : 'bg-muted'
+      } ${highlighted ? 'ring-2 ring-offset-2 ring-primary' : ''}`}
+    >
+      {showSenderName && (
+        <p className="text-xs font-semibold opacity-80 mb-1">{senderName}</p>
+      )}
+      {message.reply_to_id && quote && !isDeleted && (
+        <button
+          type="button"
+          onClick={() => onQuoteClick?.(message.reply_to_id)}
+          className="block w-full text-left border-l-2 border-current/50 bg-background/20 rounded-sm pl-2 pr-1 py-1 mb-1 text-xs opacity-80 hover:opacity-100"
+        >
+          <span className="block font-semibold">{quote.senderName}</span>
+          <span className="block truncate italic">
+            {quote.deleted
+              ? 'This message was deleted'
+              : quote.content || (quote.isGif ? 'GIF' : quote.isVoice ? 'Voice message' : quote.fileName || (quote.hasImage ? 'Photo' : '…'))}
+          </span>
+        </button>
+      )}
+      {isDeleted ? (
+        <p className="italic opacity-70">This message was deleted</p>
+      ) : (
+        <>
+          {message.image_url && (
+            <Dialog>
+              <DialogTrigger asChild>
+                <div className="relative cursor-pointer">
+                  {isOptimistic && (
+                    <div className="absolute inset-0 bg-black/50 flex items-center justify-center rounded-lg">
+                      <Loader2 className="h-6 w-6 animate-spin text-white" />
+                    </div>
+                  )}
+                  {previewSrc ? (
+                    <img
+                      src={previewSrc}
+                      alt={message.image_filename || 'image'}
+                      style={previewSize}
+                      className="rounded-lg max-w-full max-h-64 object-cover"
+                    />
+                  ) : (
+                    <div
+                      style={previewSize}
+                      className={`max-w-full rounded-lg bg-muted animate-pulse ${previewSize ? '' : 'h-40 w-56'}`}
+                    />
+                  )}
+                </div>
+              </DialogTrigger>
+              <DialogContent className="max-w-3xl">
+                <DialogHeader>
+                  <DialogTitle>{message.image_filename || "Image"}</DialogTitle>
+                </DialogHeader>
+                <img src={imageSrc} alt={message.image_filename || 'image'} className="w-full h-auto rounded-lg" />
+              </DialogContent>
+            </Dialog>
+          )}
+          {message.media_type === 'gif' && message.media_url && (
+            <div className="relative">
+              {isOptimistic && (
+                <div className="absolute inset-0 bg-black/50 flex items-center justify-center rounded-lg">
+                  <Loader2 className="h-6 w-6 animate-spin text-white" />
+                </div>
+              )}
+              <img
+                src={message.media_url}
+                alt="GIF"
+                style={previewSize}
+                className="rounded-lg max-w-full max-h-64 object-cover"
+              />
+            </div>
+          )}
+          {message.media_type === 'audio' && message.media_duration_ms && (
+            <VoiceMessagePlayer
+              src={mediaSrc}
+              durationMs={message.media_duration_ms}
+              waveform={message.media_waveform}
+            />
+          )}
+          {message.media_type === 'file' && message.media_filename && (
+            <>
+              <FileAttachmentCard
+                filename={message.media_filename}
+                mimeType={message.media_mime_type}
+                size={message.media_size}
+                src={mediaSrc}
+                onOpen={canPreviewPdf ? () => setPdfPreviewOpen(true) : undefined}
+              />
+              {canPreviewPdf && (
+                <Dialog open={pdfPreviewOpen} onOpenChange={setPdfPreviewOpen}>
+                  <DialogContent className="max-w-3xl">
+                    <DialogHeader>
+                      <DialogTitle className="truncate pr-6">{message.media_filename}</DialogTitle>
+                    </DialogHeader>
+                    <iframe src={mediaSrc} title={message.media_filename} className="w-full h-[70vh] rounded-lg border" />
+                  </DialogContent>
+                </Dialog>
+              )}
+            </>
+          )}
+          {message.content && (
+            <p className="break-words mt-2">
+              <LinkifiedText text={message.content} />
+            </p>
+          )}
+          {linkPreview && <LinkPreviewCard preview={linkPreview} />}
+        </>
+      )}
+      <p className="text-xs opacity-70 mt-1 flex items-center justify-end gap-1">
+        {message.edited_at && !isDeleted && <span>edited ·</span>}
+        {formatDistanceToNow(new Date(message.created_at), { addSuffix: true })}
+        {isOwnMessage && !isGroup && !isDeleted && <MessageStatus message={message} />}
+      </p>
+    </div>
+  );
+
+  // Quick actions revealed when hovering the row
+  const favoriteGifLabel = isFavoriteGif ? 'Remove GIF from favorites' : 'Add GIF to favorites';
+  const hoverActions = (canReply || canReact || canFavoriteGif) && (
+    <div className="flex self-center opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+      {canReply && (
+        <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => onReply(message)} aria-label="Reply">
+          <Reply className="h-4 w-4" />
+        </Button>
+      )}
+      {canReact && <ReactionPicker onSelect={(emoji) => onToggleReaction(message, emoji)} />}
+      {canFavoriteGif && (
+        <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => onToggleFavoriteGif(message)} aria-label={favoriteGifLabel}>
+          <Star className={`h-4 w-4 ${isFavoriteGif ? 'fill-yellow-400 text-yellow-400' : ''}`} />
+        </Button>
+      )}
+    </div>
+  );
+
+  return (
+    <div id={`message-${message.id}`} className={`group flex items-end gap-2 ${isOwnMessage ? 'justify-end' : 'justify-start'}`}>
+      {!isOwnMessage && (
+        <Avatar className="h-8 w-8">
+          <AvatarImage src={senderAvatar} />
+          <AvatarFallback>{senderName?.charAt(0).toUpperCase()}</AvatarFallback>
+        </Avatar>
+      )}
+      {isOwnMessage && hoverActions}
+      <div className={`flex flex-col gap-1 max-w-[70%] ${isOwnMessage ? 'items-end' : 'items-start'}`}>
+        {hasMenu ? (
+          <ContextMenu>
+            <ContextMenuTrigger asChild>{bubble}</ContextMenuTrigger>
+            <ContextMenuContent>
+              {canReply && (
+                <ContextMenuItem onClick={() => onReply(message)}>
+                  <Reply className="h-4 w-4 mr-2" />
+                  Reply
+                </ContextMenuItem>
+              )}
+              {canFavoriteGif && (
+                <ContextMenuItem onClick={() => onToggleFavoriteGif(message)}>
+                  <Star className="h-4 w-4 mr-2" />
+                  {favoriteGifLabel}
+                </ContextMenuItem>
+              )}
+              {canEdit && (
+                <ContextMenuItem onClick={() => onEdit(message)}>
+                  <Pencil className="h-4 w-4 mr-2" />
+                  Edit
+                </ContextMenuItem>
+              )}
+              {canDelete && (
+                <ContextMenuItem className="text-destructive" onClick={() => onDelete(message)}>
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete for everyone
+                </ContextMenuItem>
+              )}
+              {canReport && (
+                <ContextMenuItem className="text-destructive" onClick={() => onReport(message)}>
+                  <Flag className="h-4 w-4 mr-2" />
+                  Report
+                </ContextMenuItem>
+              )}
+              {showHistory && (
+                <ContextMenuItem onClick={() => onViewHistory(message)}>
+                  <History className="h-4 w-4 mr-2" />
+                  View edit history
+                </ContextMenuItem>
+              )}
+            </ContextMenuContent>
+          </ContextMenu>
+        ) : (
+          bubble
+        )}
+        {!isDeleted && (
+          <MessageReactions
+            reactions={reactions}
+            currentUserId={currentUserId}
+            resolveName={resolveName}
+            onToggle={(emoji) => onToggleReaction?.(message, emoji)}
+          />
+        )}
+      </div>
+      {!isOwnMessage && hoverActions}
+      {isOwnMessage && (
+        <Avatar className="h-8 w-8">
+          <AvatarImage src={senderAvatar} />
+          <AvatarFallback>{senderName?.charAt(0).toUpperCase()}</AvatarFallback>
+        </Avatar>
+      )}
+    </div>
+  );
+};
+
+export default MessageBubble;
@@ -0,0 +1,94 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { useSignedUrls } from '@/hooks/use-signed-urls';
+
+interface MessageEdit {
+  id: string;
+  action: string;
+  previous_content: string | null;
+  previous_image_url: string | null;
+  created_at: string;
+}
+
+interface MessageHistoryDialogProps {
+  messageId: string | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Moderator-only view of the versions a message went through before edits and deletion
+const MessageHistoryDialog = ({ messageId, onOpenChange }: MessageHistoryDialogProps) => {
+  const [edits, setEdits] = useState<MessageEdit[]>([]);
+  const [loading, setLoading] = useState(false);
+  const resolveImageUrl = useSignedUrls(edits.map(edit => edit.previous_image_url));
+
+  useEffect(() => {
+    if (!messageId) return;
+
+    const fetchHistory = async () => {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('message_edits')
+        .select('id, action, previous_content, previous_image_url, created_at')
+        .eq('message_id', messageId)
+        .order('created_at', { ascending: true });
+
+      if (error) console.error('Error fetching message history:', error);
+      setEdits(data || []);
+      setLoading(false);
+    };
+
+    fetchHistory();
+  }, [messageId]);
+
+  return (
+    <Dialog open={!!messageId} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Edit history</DialogTitle>
+          <DialogDescription>Earlier versions of this message, oldest first.</DialogDescription>
+        </DialogHeader>
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : edits.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No history recorded for this message.</p>
+        ) : (
+          <ScrollArea className="max-h-96">
+            <div className="space-y-3">
+              {edits.map(edit => (
+                <div key={edit.id} className="rounded-lg border p-3 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Badge variant={edit.action === 'delete' ? 'destructive' : 'secondary'}>
+                      {edit.action === 'delete' ? 'Deleted' : 'Edited'}
+                    </Badge>
+                    <span className="text-xs text-muted-foreground">
+                      {format(new Date(edit.created_at), 'PPp')}
+                    </span>
+                  </div>
+                  {edit.previous_image_url && resolveImageUrl(edit.previous_image_url) && (
+                    <img src={resolveImageUrl(edit.previous_image_url)} alt="" className="rounded-lg max-h-40 object-cover" />
+                  )}
+                  {edit.previous_content && <p className="text-sm break-words">{edit.previous_content}</p>}
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MessageHistoryDialog;
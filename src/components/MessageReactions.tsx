@@ -0,0 +1,87 @@
+import { Button } from '@/components/ui/button';
+import { HoverCard, HoverCardContent, HoverCardTrigger } from '@/components/ui/hover-card';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { SmilePlus } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { MessageReaction } from '@/hooks/use-message-reactions';
+
+const QUICK_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🙏'];
+
+interface ReactionPickerProps {
+  onSelect: (emoji: string) => void;
+  className?: string;
+}
+
+export const ReactionPicker = ({ onSelect, className }: ReactionPickerProps) => (
+  <Popover>
+    <PopoverTrigger asChild>
+      <Button variant="ghost" size="sm" className={cn('h-7 w-7 p-0', className)} aria-label="Add reaction">
+        <SmilePlus className="h-4 w-4" />
+      </Button>
+    </PopoverTrigger>
+    <PopoverContent className="w-auto p-1" side="top">
+      <div className="flex gap-1">
+        {QUICK_REACTIONS.map(emoji => (
+          <Button
+            key={emoji}
+            variant="ghost"
+            size="sm"
+            className="h-8 w-8 p-0 text-lg"
+            onClick={() => onSelect(emoji)}
+          >
+            {emoji}
+          </Button>
+        ))}
+      </div>
+    </PopoverContent>
+  </Popover>
+);
+
+interface MessageReactionsProps {
+  reactions: MessageReaction[];
+  currentUserId?: string;
+  resolveName: (userId: string) => string;
+  onToggle: (emoji: string) => void;
+}
+
+// One chip per emoji with its count; hovering lists who reacted
+const MessageReactions = ({ reactions, currentUserId, resolveName, onToggle }: MessageReactionsProps) => {
+  const byEmoji = new Map<string, MessageReaction[]>();
+  reactions.forEach(reaction => {
+    byEmoji.set(reaction.emoji, [...(byEmoji.get(reaction.emoji) || []), reaction]);
+  });
+
+  if (byEmoji.size === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {Array.from(byEmoji.entries()).map(([emoji, group]) => {
+        const reactedByMe = group.some(r => r.user_id === currentUserId);
+        const names = group.map(r => r.user_id === currentUserId ? 'You' : resolveName(r.user_id));
+
+        return (
+          <HoverCard key={emoji} openDelay={200}>
+            <HoverCardTrigger asChild>
+              <button
+                type="button"
+                onClick={() => onToggle(emoji)}
+                className={cn(
+                  'flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs transition-colors',
+                  reactedByMe ? 'border-primary bg-primary/10' : 'bg-background hover:bg-muted'
+                )}
+              >
+                <span>{emoji}</span>
+                <span>{group.length}</span>
+              </button>
+            </HoverCardTrigger>
+            <HoverCardContent className="w-auto max-w-64 p-2 text-xs">
+              <span className="font-medium">{emoji}</span> {names.join(', ')}
+            </HoverCardContent>
+          </HoverCard>
+        );
+      })}
+    </div>
+  );
+};
+
+export default MessageReactions;
@@ -0,0 +1,138 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Dialog, DialogContent } from '@/components/ui/dialog';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { Loader2 } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+
+// Wait for the user to pause typing before querying
+const SEARCH_DEBOUNCE_MS = 300;
+
+interface SearchResult {
+  message_id: string;
+  partner_id?: string;
+  conversation_id?: string;
+  name: string;
+  avatar_url?: string;
+  sender_id: string;
+  sender_name?: string;
+  snippet: string;
+  created_at: string;
+}
+
+interface MessageSearchProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// The search RPC wraps matches in <mark></mark>; render them as text, never as HTML
+const HighlightedSnippet = ({ snippet }: { snippet: string }) => (
+  <>
+    {snippet.split(/<mark>|<\/mark>/).map((part, index) =>
+      index % 2 === 1
+        ? <mark key={index} className="bg-yellow-200 text-foreground rounded-sm px-0.5">{part}</mark>
+        : <span key={index}>{part}</span>
+    )}
+  </>
+);
+
+const MessageSearch = ({ open, onOpenChange }: MessageSearchProps) => {
+  const navigate = useNavigate();
+  const { user: currentUser } = useAuth();
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      setResults([]);
+      setLoading(false);
+      return;
+    }
+
+    // A search still in flight when the query changes must not overwrite newer results
+    let cancelled = false;
+    setLoading(true);
+    const timeout = setTimeout(async () => {
+      const { data, error } = await supabase.rpc('search_messages', { p_query: trimmed });
+      if (cancelled) return;
+      if (error) console.error('Error searching messages:', error);
+      setResults(data || []);
+      setLoading(false);
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [query]);
+
+  const handleSelect = (result: SearchResult) => {
+    onOpenChange(false);
+    const thread = result.conversation_id ? `group=${result.conversation_id}` : `chatWith=${result.partner_id}`;
+    navigate(`/inbox?${thread}&message=${result.message_id}`);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="overflow-hidden p-0 shadow-lg">
+        <Command shouldFilter={false}>
+          <CommandInput value={query} onValueChange={setQuery} placeholder="Search messages..." />
+          <CommandList>
+            {loading ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              query.trim() && <CommandEmpty>No messages found.</CommandEmpty>
+            )}
+            {!loading && results.length > 0 && (
+              <CommandGroup heading="Messages">
+                {results.map(result => (
+                  <CommandItem
+                    key={result.message_id}
+                    value={result.message_id}
+                    onSelect={() => handleSelect(result)}
+                    className="items-start gap-3"
+                  >
+                    <Avatar className="h-8 w-8">
+                      <AvatarImage src={result.avatar_url} />
+                      <AvatarFallback>{result.name?.charAt(0).toUpperCase()}</AvatarFallback>
+                    </Avatar>
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium truncate">{result.name}</span>
+                        <span className="text-xs text-muted-foreground shrink-0">
+                          {formatDistanceToNow(new Date(result.created_at), { addSuffix: true })}
+                        </span>
+                      </div>
+                      <p className="text-sm text-muted-foreground line-clamp-2">
+                        <span className="font-medium">
+                          {result.sender_id === currentUser?.id ? 'You' : result.sender_name}:{' '}
+                        </span>
+                        <HighlightedSnippet snippet={result.snippet} />
+                      </p>
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MessageSearch;
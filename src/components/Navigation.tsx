@@ -1,3 +1,4 @@
+import { useEffect, useState } from 'react';
 import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
@@ -6,11 +7,18 @@ import {
   Users, 
   Settings, 
   LogOut,
-  Bell
+  Bell,
+  Inbox,
+  Search,
+  ShieldCheck,
+  LayoutDashboard
 } from 'lucide-react';
 import { useAuth } from '@/hooks/use-auth';
 import { useToast } from '@/hooks/use-toast';
 import { useNotifications } from '@/context/NotificationsContext';
+import MessageSearch from '@/components/MessageSearch';
+import { useIsModerator } from '@/hooks/use-moderator';
+import { useUserRole } from '@/hooks/use-user-role';
 
 const Navigation = () => {
   const location = useLocation();
@@ -18,6 +26,22 @@ const Navigation = () => {
   const { user, signOut } = useAuth();
   const { toast } = useToast();
   const { count } = useNotifications();
+  const [searchOpen, setSearchOpen] = useState(false);
+  const isModerator = useIsModerator();
+  const { isAdmin } = useUserRole();
+
+  // Ctrl+K / Cmd+K opens message search from anywhere
+  useEffect(() => {
+    if (!user) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'k' && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setSearchOpen(open => !open);
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [user]);
 
   const handleSignOut = async () => {
     const { error } = await signOut();
@@ -33,6 +57,11 @@ const Navigation = () => {
   };
 
   const navItems = [
+    {
+      path: '/inbox',
+      label: 'Inbox',
+      icon: Inbox,
+    },
     {
       path: '/users',
       label: 'Users',
@@ -48,6 +77,16 @@ const Navigation = () => {
       label: 'Profile',
       icon: Settings,
     },
+    ...(isModerator ? [{
+      path: '/moderation',
+      label: 'Moderation',
+      icon: ShieldCheck,
+    }] : []),
+    ...(isAdmin ? [{
+      path: '/admin',
+      label: 'Admin',
+      icon: LayoutDashboard,
+    }] : []),
   ];
 
   return (
@@ -85,6 +124,17 @@ const Navigation = () => {
           <div className="flex items-center space-x-4">
             {user && (
               <>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setSearchOpen(true)}
+                  className="flex items-center space-x-2"
+                  aria-label="Search messages"
+                >
+                  <Search className="h-4 w-4" />
+                  <span className="hidden sm:inline">Search</span>
+                </Button>
+                <MessageSearch open={searchOpen} onOpenChange={setSearchOpen} />
                 <Avatar className="h-8 w-8">
                   <AvatarImage src={user.user_metadata?.avatar_url} />
                   <AvatarFallback>
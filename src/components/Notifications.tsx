@@ -1,9 +1,10 @@
-import { useNotifications, NotificationItem } from '@/context/NotificationsContext';
+import { useNotifications, NotificationItem, getThreadKey } from '@/context/NotificationsContext';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import { Check, X, Bell, MessageSquare } from 'lucide-react';
+import { Check, X, Bell, MessageSquare, Flag } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
+import { getReasonLabel } from '@/lib/reports';
 
 const DMRequestCard = ({ request }: { request: Extract<NotificationItem, { type: 'dm_request' }> }) => {
   const { respondToRequest } = useNotifications();
@@ -17,14 +18,17 @@ const DMRequestCard = ({ request }: { request: Extract<NotificationItem, { type:
       </CardHeader>
       <CardContent>
         <div className="flex items-center justify-between">
-          <div className="flex items-center space-x-3">
+          <div className="flex items-center space-x-3 min-w-0">
             <Avatar className="h-10 w-10">
               <AvatarImage src={request.sender?.avatar_url} />
               <AvatarFallback>{request.sender?.name?.charAt(0)?.toUpperCase() || 'U'}</AvatarFallback>
             </Avatar>
-            <div>
+            <div className="min-w-0">
               <p className="font-medium">{request.sender?.name}</p>
               <p className="text-sm text-muted-foreground">wants to send you a message</p>
+              {request.note && (
+                <p className="text-sm italic mt-1 break-words">"{request.note}"</p>
+              )}
             </div>
           </div>
           <div className="flex items-center space-x-2">
@@ -46,8 +50,8 @@ const NewMessageCard = ({ message }: { message: Extract<NotificationItem, { type
   const { clearMessageNotifications } = useNotifications();
 
   const handleClick = () => {
-    clearMessageNotifications(message.sender_id);
-    navigate(`/users?chatWith=${message.sender_id}`);
+    clearMessageNotifications(getThreadKey(message));
+    navigate(message.conversation_id ? `/inbox?group=${message.conversation_id}` : `/inbox?chatWith=${message.sender_id}`);
   }
 
   return (
@@ -66,7 +70,10 @@ const NewMessageCard = ({ message }: { message: Extract<NotificationItem, { type
               <AvatarFallback>{message.sender?.name?.charAt(0)?.toUpperCase() || 'U'}</AvatarFallback>
             </Avatar>
             <div>
-              <p className="font-medium">{message.sender?.name}</p>
+              <p className="font-medium">
+                {message.sender?.name}
+                {message.conversation && <span className="text-muted-foreground font-normal"> in {message.conversation.name}</span>}
+              </p>
               <p className="text-sm text-muted-foreground truncate">{message.content}</p>
             </div>
           </div>
@@ -76,6 +83,36 @@ const NewMessageCard = ({ message }: { message: Extract<NotificationItem, { type
   );
 };
 
+const ReportResolvedCard = ({ report }: { report: Extract<NotificationItem, { type: 'report_resolved' }> }) => {
+  const { acknowledgeReport } = useNotifications();
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm flex items-center">
+          <Flag className="h-4 w-4 mr-2" />
+          Report Reviewed
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <p className="font-medium">
+              Your report ({getReasonLabel(report.reason).toLowerCase()}) was {report.status === 'actioned' ? 'actioned' : 'dismissed'}
+            </p>
+            <p className="text-sm text-muted-foreground">
+              {report.resolution_note || (report.status === 'actioned'
+                ? 'A moderator reviewed it and took action. Thanks for letting us know.'
+                : 'A moderator reviewed it and found no rule was broken.')}
+            </p>
+          </div>
+          <Button size="sm" variant="outline" onClick={() => acknowledgeReport(report.id)} aria-label="Dismiss">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
 
 const Notifications = () => {
   const { notifications, loading } = useNotifications();
@@ -110,6 +147,9 @@ const Notifications = () => {
         if (item.type === 'new_message') {
           return <NewMessageCard key={`msg-${item.id}`} message={item} />;
         }
+        if (item.type === 'report_resolved') {
+          return <ReportResolvedCard key={`report-${item.id}`} report={item} />;
+        }
         return null;
       })}
     </div>
@@ -0,0 +1,23 @@
+import { usePresence } from '@/context/PresenceContext';
+import { cn } from '@/lib/utils';
+
+interface OnlineIndicatorProps {
+  userId: string;
+  className?: string;
+}
+
+// Green dot for the corner of an avatar; place inside a `relative` wrapper
+const OnlineIndicator = ({ userId, className }: OnlineIndicatorProps) => {
+  const { isOnline } = usePresence();
+
+  if (!isOnline(userId)) return null;
+
+  return (
+    <span
+      className={cn('absolute bottom-0 right-0 h-3 w-3 rounded-full bg-green-500 ring-2 ring-background', className)}
+      aria-label="Online"
+    />
+  );
+};
+
+export default OnlineIndicator;
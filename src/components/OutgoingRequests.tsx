@@ -0,0 +1,189 @@
+import { useCallback, useEffect, useState } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Send, Undo2, RotateCw } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { getFunctionErrorMessage } from '@/lib/functions';
+import type { Database } from '@/integrations/supabase/types';
+
+type RequestStatus = Database['public']['Enums']['dm_request_status'];
+
+interface OutgoingRequest {
+  id: string;
+  recipient_id: string;
+  recipient_name: string;
+  recipient_avatar_url?: string;
+  status: RequestStatus;
+  created_at: string;
+  updated_at: string;
+  expires_at?: string;
+  can_resend_at?: string;
+}
+
+const statusLabels: Record<RequestStatus, string> = {
+  pending: 'Pending',
+  accepted: 'Accepted',
+  rejected: 'Declined',
+  cancelled: 'Withdrawn',
+  expired: 'Expired',
+};
+
+const statusVariants: Record<RequestStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'default',
+  accepted: 'secondary',
+  rejected: 'destructive',
+  cancelled: 'outline',
+  expired: 'outline',
+};
+
+// DM requests the signed-in user has sent, newest first
+const OutgoingRequests = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [requests, setRequests] = useState<OutgoingRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchRequests = useCallback(async () => {
+    const { data, error } = await supabase.rpc('get_outgoing_dm_requests');
+    if (error) console.error('Error fetching outgoing requests:', error);
+    setRequests(data || []);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    if (!user) return;
+    fetchRequests();
+
+    const channel = supabase
+      .channel('outgoing_dm_requests')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'dm_requests', filter: `sender_id=eq.${user.id}` }, () => {
+        fetchRequests();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, fetchRequests]);
+
+  const sendAction = async (body: Record<string, string>, success: { title: string; description: string }, fallback: string) => {
+    const { error } = await supabase.functions.invoke('dm-request', { body });
+    if (error) {
+      console.error('Error updating DM request:', error);
+      toast({
+        title: 'Error',
+        description: await getFunctionErrorMessage(error, fallback),
+        variant: 'destructive',
+      });
+      return;
+    }
+    toast(success);
+    fetchRequests();
+  };
+
+  const withdraw = (request: OutgoingRequest) =>
+    sendAction(
+      { action: 'cancel', request_id: request.id },
+      { title: 'Request withdrawn', description: `Your DM request to ${request.recipient_name} was withdrawn.` },
+      'Failed to withdraw DM request'
+    );
+
+  const resend = (request: OutgoingRequest) =>
+    sendAction(
+      { action: 'send', recipient_id: request.recipient_id },
+      { title: 'DM Request Sent', description: `DM request sent to ${request.recipient_name}.` },
+      'Failed to send DM request'
+    );
+
+  // A newer request to the same person supersedes older ones
+  const latestIds = new Set<string>();
+  const seenRecipients = new Set<string>();
+  requests.forEach(request => {
+    if (!seenRecipients.has(request.recipient_id)) {
+      seenRecipients.add(request.recipient_id);
+      latestIds.add(request.id);
+    }
+  });
+
+  if (loading) {
+    return (
+      <div className="animate-pulse space-y-4">
+        {[...Array(3)].map((_, i) => <div key={i} className="h-20 bg-muted rounded-lg"></div>)}
+      </div>
+    );
+  }
+
+  if (requests.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-8">
+          <div className="text-center">
+            <Send className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">You haven't sent any DM requests</p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {requests.map(request => {
+        const isLatest = latestIds.has(request.id);
+        const coolingDown = !!request.can_resend_at && new Date(request.can_resend_at) > new Date();
+        const canResend = isLatest && (
+          request.status === 'cancelled'
+          || request.status === 'expired'
+          || (request.status === 'rejected' && !coolingDown)
+        );
+
+        return (
+          <Card key={request.id}>
+            <CardContent className="p-4 flex items-center justify-between gap-3">
+              <div className="flex items-center space-x-3 min-w-0">
+                <Avatar className="h-10 w-10">
+                  <AvatarImage src={request.recipient_avatar_url} />
+                  <AvatarFallback>{request.recipient_name?.charAt(0)?.toUpperCase() || 'U'}</AvatarFallback>
+                </Avatar>
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{request.recipient_name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Sent {formatDistanceToNow(new Date(request.created_at), { addSuffix: true })}
+                    {request.status === 'pending' && request.expires_at && (
+                      <> · expires {formatDistanceToNow(new Date(request.expires_at), { addSuffix: true })}</>
+                    )}
+                    {isLatest && request.status === 'rejected' && coolingDown && (
+                      <> · you can ask again on {format(new Date(request.can_resend_at!), 'MMM d')}</>
+                    )}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <Badge variant={statusVariants[request.status]}>{statusLabels[request.status]}</Badge>
+                {request.status === 'pending' && (
+                  <Button size="sm" variant="outline" onClick={() => withdraw(request)}>
+                    <Undo2 className="h-4 w-4 mr-1" />
+                    Withdraw
+                  </Button>
+                )}
+                {canResend && (
+                  <Button size="sm" variant="outline" onClick={() => resend(request)}>
+                    <RotateCw className="h-4 w-4 mr-1" />
+                    Resend
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+};
+
+export default OutgoingRequests;
@@ -0,0 +1,175 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Filter, Plus, X } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+
+type WordKind = 'block' | 'allow';
+
+interface ProfanityWord {
+  id: string;
+  word: string;
+  kind: string;
+  school_id: string | null;
+}
+
+const WordList = ({
+  title,
+  description,
+  words,
+  onAdd,
+  onRemove,
+}: {
+  title: string;
+  description: string;
+  words: ProfanityWord[];
+  onAdd: (word: string) => Promise<boolean>;
+  onRemove: (word: ProfanityWord) => void;
+}) => {
+  const [newWord, setNewWord] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await onAdd(newWord)) setNewWord('');
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <p className="font-medium">{title}</p>
+        <p className="text-sm text-muted-foreground">{description}</p>
+      </div>
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <Input value={newWord} onChange={(e) => setNewWord(e.target.value)} placeholder="Add a word" />
+        <Button type="submit" size="sm" disabled={!newWord.trim()}>
+          <Plus className="h-4 w-4" />
+        </Button>
+      </form>
+      <div className="flex flex-wrap gap-2">
+        {words.map(word => (
+          <Badge
+            key={word.id}
+            variant={word.school_id ? 'default' : 'secondary'}
+            className="gap-1"
+            title={word.school_id ? undefined : 'Applies to every school'}
+          >
+            {word.word}
+            {word.school_id && (
+              <button type="button" onClick={() => onRemove(word)} aria-label={`Remove ${word.word}`}>
+                <X className="h-3 w-3" />
+              </button>
+            )}
+          </Badge>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// Blocked words and allowlisted false positives for the admin's school
+const ProfanityWordsCard = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [words, setWords] = useState<ProfanityWord[]>([]);
+  const [schoolId, setSchoolId] = useState<string | null>(null);
+
+  const fetchWords = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('profanity_words')
+      .select('id, word, kind, school_id')
+      .order('word');
+
+    if (error) {
+      console.error('Error fetching word lists:', error);
+      return;
+    }
+    setWords(data || []);
+  }, []);
+
+  useEffect(() => {
+    if (!user) return;
+    fetchWords();
+    supabase.rpc('get_user_school', { p_user_id: user.id }).then(({ data }) => setSchoolId(data ?? null));
+  }, [user, fetchWords]);
+
+  const addWord = async (kind: WordKind, value: string) => {
+    const word = value.trim().toLowerCase();
+    if (!user || !schoolId || !word) return false;
+
+    if (/\s/.test(word)) {
+      toast({
+        title: 'Error',
+        description: 'Add one word at a time.',
+        variant: 'destructive',
+      });
+      return false;
+    }
+
+    const { error } = await supabase
+      .from('profanity_words')
+      .insert({ word, kind, school_id: schoolId, created_by: user.id });
+
+    if (error) {
+      console.error('Error adding word:', error);
+      toast({
+        title: 'Error',
+        description: error.code === '23505' ? `"${word}" is already on the list.` : 'Failed to add word.',
+        variant: 'destructive',
+      });
+      return false;
+    }
+
+    fetchWords();
+    return true;
+  };
+
+  const removeWord = async (word: ProfanityWord) => {
+    setWords(prev => prev.filter(w => w.id !== word.id));
+    const { error } = await supabase.from('profanity_words').delete().eq('id', word.id);
+    if (error) {
+      console.error('Error removing word:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to remove word.',
+        variant: 'destructive',
+      });
+      fetchWords();
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Filter className="h-5 w-5" />
+          <span>Profanity Filter</span>
+        </CardTitle>
+        <CardDescription>
+          Applied to messages sent to users who have the filter turned on. Grey words apply to every school.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-6 md:grid-cols-2">
+        <WordList
+          title="Blocked words"
+          description="Also caught when spelled with symbols or spaces, and with endings like -s or -ing."
+          words={words.filter(word => word.kind === 'block')}
+          onAdd={(word) => addWord('block', word)}
+          onRemove={removeWord}
+        />
+        <WordList
+          title="Allowed words"
+          description="Never masked, even if they look like a blocked word."
+          words={words.filter(word => word.kind === 'allow')}
+          onAdd={(word) => addWord('allow', word)}
+          onRemove={removeWord}
+        />
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ProfanityWordsCard;
@@ -0,0 +1,118 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { reportReasons } from '@/lib/reports';
+
+// What is being reported: a single message, or a user as a whole
+export type ReportTarget =
+  | { type: 'message'; messageId: string; userName: string }
+  | { type: 'user'; userId: string; userName: string };
+
+interface ReportDialogProps {
+  target: ReportTarget | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ReportDialog = ({ target, onOpenChange }: ReportDialogProps) => {
+  const { toast } = useToast();
+  const [reason, setReason] = useState('harassment');
+  const [details, setDetails] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (target) {
+      setReason('harassment');
+      setDetails('');
+    }
+  }, [target]);
+
+  const handleSubmit = async () => {
+    if (!target) return;
+
+    setSubmitting(true);
+    const { error } = await supabase.rpc('submit_report', {
+      p_reason: reason,
+      p_details: details,
+      p_message_id: target.type === 'message' ? target.messageId : undefined,
+      p_reported_user_id: target.type === 'user' ? target.userId : undefined,
+    });
+    setSubmitting(false);
+
+    if (error) {
+      console.error('Error submitting report:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to submit report. Please try again.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({
+      title: 'Report submitted',
+      description: "A moderator will review it. We'll let you know the outcome.",
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={!!target} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            {target?.type === 'message' ? 'Report message' : `Report ${target?.userName}`}
+          </DialogTitle>
+          <DialogDescription>
+            {target?.type === 'message'
+              ? `The message from ${target.userName} and the messages around it will be shared with moderators.`
+              : 'Your recent messages with this user will be shared with moderators.'}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <RadioGroup value={reason} onValueChange={setReason}>
+            {reportReasons.map(option => (
+              <div key={option.value} className="flex items-center space-x-2">
+                <RadioGroupItem value={option.value} id={`report-reason-${option.value}`} />
+                <Label htmlFor={`report-reason-${option.value}`}>{option.label}</Label>
+              </div>
+            ))}
+          </RadioGroup>
+          <div className="space-y-2">
+            <Label htmlFor="report-details">Anything else moderators should know? (optional)</Label>
+            <Textarea
+              id="report-details"
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              maxLength={1000}
+              rows={3}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleSubmit} disabled={submitting}>
+            {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Submit report
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReportDialog;
@@ -0,0 +1,209 @@
+import { useCallback, useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Textarea } from '@/components/ui/textarea';
+import { Check, Flag, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useSignedUrls } from '@/hooks/use-signed-urls';
+import { getReasonLabel, ReportStatus, reportStatusLabels } from '@/lib/reports';
+import type { Json } from '@/integrations/supabase/types';
+
+interface ContextMessage {
+  id: string;
+  sender_id: string;
+  sender_name?: string;
+  content?: string;
+  image_url?: string;
+  created_at: string;
+  deleted: boolean;
+  reported: boolean;
+}
+
+interface Report {
+  id: string;
+  reporter_name?: string;
+  reported_user_id: string;
+  reported_user_name?: string;
+  message_id?: string;
+  conversation_name?: string;
+  reason: string;
+  details?: string;
+  context: Json;
+  status: ReportStatus;
+  resolution_note?: string;
+  resolved_by_name?: string;
+  resolved_at?: string;
+  created_at: string;
+}
+
+const ReportCard = ({ report, onResolved }: { report: Report; onResolved: () => void }) => {
+  const { toast } = useToast();
+  const [note, setNote] = useState('');
+  const [resolving, setResolving] = useState(false);
+  const context = (Array.isArray(report.context) ? report.context : []) as unknown as ContextMessage[];
+  const resolveImageUrl = useSignedUrls(context.map(message => message.image_url));
+
+  const resolve = async (status: ReportStatus) => {
+    setResolving(true);
+    const { error } = await supabase.rpc('resolve_report', {
+      p_report_id: report.id,
+      p_status: status,
+      p_note: note,
+    });
+    setResolving(false);
+
+    if (error) {
+      console.error('Error resolving report:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to update the report.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({ title: 'Report updated', description: `Marked as ${reportStatusLabels[status].toLowerCase()}.` });
+    onResolved();
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-base flex items-center gap-2">
+            <Flag className="h-4 w-4" />
+            {report.message_id ? 'Message' : 'User'} reported: {report.reported_user_name ?? 'Unknown user'}
+          </CardTitle>
+          <Badge variant="outline">{getReasonLabel(report.reason)}</Badge>
+        </div>
+        <CardDescription>
+          Reported by {report.reporter_name ?? 'a deleted user'}{' '}
+          {formatDistanceToNow(new Date(report.created_at), { addSuffix: true })}
+          {report.conversation_name && <> in {report.conversation_name}</>}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {report.details && (
+          <p className="text-sm rounded-md bg-muted p-3">{report.details}</p>
+        )}
+
+        {context.length > 0 ? (
+          <div className="space-y-2 rounded-md border p-3">
+            {context.map(message => (
+              <div
+                key={message.id}
+                className={`text-sm rounded px-2 py-1 ${message.reported ? 'bg-destructive/10 border-l-2 border-destructive' : ''}`}
+              >
+                <span className="font-medium">{message.sender_name ?? 'Unknown user'}</span>{' '}
+                <span className="text-xs text-muted-foreground">
+                  {formatDistanceToNow(new Date(message.created_at), { addSuffix: true })}
+                </span>
+                <p className="break-words">
+                  {message.deleted
+                    ? <span className="italic text-muted-foreground">Deleted after it was reported</span>
+                    : message.content || (message.image_url ? <a href={resolveImageUrl(message.image_url)} target="_blank" rel="noreferrer" className="underline">Image</a> : '')}
+                </p>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No message context was captured.</p>
+        )}
+
+        {report.status === 'open' ? (
+          <div className="space-y-2">
+            <Textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Note for the record (optional)"
+              rows={2}
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={() => resolve('dismissed')} disabled={resolving}>
+                <X className="h-4 w-4 mr-2" />
+                Dismiss
+              </Button>
+              <Button size="sm" onClick={() => resolve('actioned')} disabled={resolving}>
+                <Check className="h-4 w-4 mr-2" />
+                Mark actioned
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            {reportStatusLabels[report.status]} by {report.resolved_by_name ?? 'a moderator'}
+            {report.resolved_at && <> {formatDistanceToNow(new Date(report.resolved_at), { addSuffix: true })}</>}
+            {report.resolution_note && <>: {report.resolution_note}</>}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+// Reports grouped by status, with resolve actions on open ones
+const ReportQueue = () => {
+  const [status, setStatus] = useState<ReportStatus>('open');
+  const [reports, setReports] = useState<Report[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchReports = useCallback(async () => {
+    setLoading(true);
+    const { data, error } = await supabase.rpc('get_reports', { p_status: status });
+    if (error) console.error('Error fetching reports:', error);
+    setReports(data || []);
+    setLoading(false);
+  }, [status]);
+
+  useEffect(() => {
+    fetchReports();
+  }, [fetchReports]);
+
+  // New reports show up without a refresh
+  useEffect(() => {
+    const channel = supabase
+      .channel('moderation_reports')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'reports' }, () => {
+        fetchReports();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [fetchReports]);
+
+  return (
+    <div className="space-y-4">
+      <Tabs value={status} onValueChange={(value) => setStatus(value as ReportStatus)}>
+        <TabsList>
+          {(Object.keys(reportStatusLabels) as ReportStatus[]).map(value => (
+            <TabsTrigger key={value} value={value}>{reportStatusLabels[value]}</TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      {loading ? (
+        <div className="animate-pulse space-y-4">
+          {[...Array(3)].map((_, i) => <div key={i} className="h-32 bg-muted rounded-lg"></div>)}
+        </div>
+      ) : reports.length === 0 ? (
+        <Card>
+          <CardContent className="py-8 text-center text-muted-foreground">
+            {status === 'open' ? 'No open reports. All clear!' : `No ${reportStatusLabels[status].toLowerCase()} reports.`}
+          </CardContent>
+        </Card>
+      ) : (
+        reports.map(report => (
+          <ReportCard key={report.id} report={report} onResolved={fetchReports} />
+        ))
+      )}
+    </div>
+  );
+};
+
+export default ReportQueue;
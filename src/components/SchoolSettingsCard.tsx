@@ -0,0 +1,210 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Separator } from '@/components/ui/separator';
+import { School, Save } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+
+interface SchoolSettings {
+  id: string;
+  name: string;
+  email_domain: string | null;
+  allow_cross_school_messaging: boolean;
+  dm_request_expiry_days: number;
+  dm_request_cooldown_days: number;
+  messages_per_minute: number;
+  dm_requests_per_hour: number;
+}
+
+// Settings for the admin's own school
+const SchoolSettingsCard = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [school, setSchool] = useState<SchoolSettings | null>(null);
+  const [name, setName] = useState('');
+  const [allowCrossSchool, setAllowCrossSchool] = useState(false);
+  const [expiryDays, setExpiryDays] = useState(7);
+  const [cooldownDays, setCooldownDays] = useState(3);
+  const [messagesPerMinute, setMessagesPerMinute] = useState(20);
+  const [requestsPerHour, setRequestsPerHour] = useState(10);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+
+    supabase
+      .from('users')
+      .select('school:schools(id, name, email_domain, allow_cross_school_messaging, dm_request_expiry_days, dm_request_cooldown_days, messages_per_minute, dm_requests_per_hour)')
+      .eq('id', user.id)
+      .single()
+      .then(({ data, error }) => {
+        if (error) console.error('Error fetching school:', error);
+        if (data?.school) {
+          setSchool(data.school);
+          setName(data.school.name);
+          setAllowCrossSchool(data.school.allow_cross_school_messaging);
+          setExpiryDays(data.school.dm_request_expiry_days);
+          setCooldownDays(data.school.dm_request_cooldown_days);
+          setMessagesPerMinute(data.school.messages_per_minute);
+          setRequestsPerHour(data.school.dm_requests_per_hour);
+        }
+      });
+  }, [user]);
+
+  const periodsValid = Number.isInteger(expiryDays) && Number.isInteger(cooldownDays)
+    && expiryDays >= 1 && expiryDays <= 90 && cooldownDays >= 0 && cooldownDays <= 90;
+  const limitsValid = Number.isInteger(messagesPerMinute) && Number.isInteger(requestsPerHour)
+    && messagesPerMinute >= 1 && messagesPerMinute <= 600 && requestsPerHour >= 1 && requestsPerHour <= 100;
+
+  const handleSave = async () => {
+    if (!school || !name.trim() || !periodsValid || !limitsValid) return;
+
+    setSaving(true);
+    const { error } = await supabase.rpc('admin_update_school', {
+      p_name: name.trim(),
+      p_allow_cross_school_messaging: allowCrossSchool,
+      p_dm_request_expiry_days: expiryDays,
+      p_dm_request_cooldown_days: cooldownDays,
+      p_messages_per_minute: messagesPerMinute,
+      p_dm_requests_per_hour: requestsPerHour,
+    });
+    setSaving(false);
+
+    if (error) {
+      console.error('Error updating school:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to update school settings',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSchool({
+      ...school,
+      name: name.trim(),
+      allow_cross_school_messaging: allowCrossSchool,
+      dm_request_expiry_days: expiryDays,
+      dm_request_cooldown_days: cooldownDays,
+      messages_per_minute: messagesPerMinute,
+      dm_requests_per_hour: requestsPerHour,
+    });
+    toast({
+      title: 'Success',
+      description: 'School settings updated',
+    });
+  };
+
+  if (!school) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center text-muted-foreground">
+          Your account isn't linked to a school.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <School className="h-5 w-5" />
+          <span>School</span>
+        </CardTitle>
+        <CardDescription>
+          {school.email_domain
+            ? `New accounts with an @${school.email_domain} email join this school.`
+            : 'Accounts without a matching school domain join this school.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Label htmlFor="school-name">Name</Label>
+          <Input id="school-name" value={name} onChange={(e) => setName(e.target.value)} />
+        </div>
+        <Separator />
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label className="text-base">Cross-school messaging</Label>
+            <p className="text-sm text-muted-foreground">
+              Let students find and message users at other schools that also allow it
+            </p>
+          </div>
+          <Switch checked={allowCrossSchool} onCheckedChange={setAllowCrossSchool} />
+        </div>
+        <Separator />
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="dm-request-expiry">DM requests expire after (days)</Label>
+            <Input
+              id="dm-request-expiry"
+              type="number"
+              min={1}
+              max={90}
+              value={expiryDays}
+              onChange={(e) => setExpiryDays(Number(e.target.value))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="dm-request-cooldown">Wait after a rejection (days)</Label>
+            <Input
+              id="dm-request-cooldown"
+              type="number"
+              min={0}
+              max={90}
+              value={cooldownDays}
+              onChange={(e) => setCooldownDays(Number(e.target.value))}
+            />
+          </div>
+        </div>
+        <Separator />
+        <div className="space-y-4">
+          <div className="space-y-0.5">
+            <Label className="text-base">Rate limits</Label>
+            <p className="text-sm text-muted-foreground">
+              Short bursts are fine; users who keep going past these are asked to slow down
+            </p>
+          </div>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="messages-per-minute">Messages per minute, per conversation</Label>
+              <Input
+                id="messages-per-minute"
+                type="number"
+                min={1}
+                max={600}
+                value={messagesPerMinute}
+                onChange={(e) => setMessagesPerMinute(Number(e.target.value))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="dm-requests-per-hour">DM requests per hour</Label>
+              <Input
+                id="dm-requests-per-hour"
+                type="number"
+                min={1}
+                max={100}
+                value={requestsPerHour}
+                onChange={(e) => setRequestsPerHour(Number(e.target.value))}
+              />
+            </div>
+          </div>
+        </div>
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={saving || !name.trim() || !periodsValid || !limitsValid}>
+            <Save className="h-4 w-4 mr-2" />
+            Save
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SchoolSettingsCard;
@@ -0,0 +1,99 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Search } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+
+interface PickableUser {
+  id: string;
+  name: string;
+  avatar_url?: string;
+}
+
+interface UserPickerProps {
+  selectedIds: string[];
+  onSelectedIdsChange: (ids: string[]) => void;
+  excludeIds?: string[];
+}
+
+// Multi-select list of students visible to the current user (respects privacy RLS)
+const UserPicker = ({ selectedIds, onSelectedIdsChange, excludeIds = [] }: UserPickerProps) => {
+  const { user: currentUser } = useAuth();
+  const [users, setUsers] = useState<PickableUser[]>([]);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!currentUser) return;
+
+    const fetchUsers = async () => {
+      const { data, error } = await supabase
+        .from('users')
+        .select('id, name, avatar_url')
+        .neq('id', currentUser.id)
+        .order('name');
+
+      if (error) {
+        console.error('Error fetching users:', error);
+      } else {
+        setUsers(data || []);
+      }
+      setLoading(false);
+    };
+
+    fetchUsers();
+  }, [currentUser]);
+
+  const toggle = (id: string, checked: boolean) => {
+    onSelectedIdsChange(checked ? [...selectedIds, id] : selectedIds.filter(selected => selected !== id));
+  };
+
+  const visibleUsers = users.filter(user =>
+    !excludeIds.includes(user.id) && user.name.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
+        <Input
+          placeholder="Search students..."
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          className="pl-10"
+        />
+      </div>
+      <ScrollArea className="h-56 rounded-md border border-border">
+        <div className="p-2 space-y-1">
+          {loading ? (
+            <p className="text-sm text-muted-foreground text-center py-4">Loading...</p>
+          ) : visibleUsers.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No students found.</p>
+          ) : (
+            visibleUsers.map(user => (
+              <label
+                key={user.id}
+                className="flex items-center space-x-3 p-2 rounded-md hover:bg-accent cursor-pointer"
+              >
+                <Checkbox
+                  checked={selectedIds.includes(user.id)}
+                  onCheckedChange={(checked) => toggle(user.id, checked === true)}
+                />
+                <Avatar className="h-8 w-8">
+                  <AvatarImage src={user.avatar_url} />
+                  <AvatarFallback>{user.name.charAt(0).toUpperCase()}</AvatarFallback>
+                </Avatar>
+                <span className="text-sm">{user.name}</span>
+              </label>
+            ))
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+};
+
+export default UserPicker;
@@ -0,0 +1,96 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Pause, Play } from 'lucide-react';
+import { formatDuration, WAVEFORM_BARS } from '@/lib/audio';
+
+interface VoiceMessagePlayerProps {
+  // Signed link to the recording; the player is disabled until it's ready
+  src?: string;
+  durationMs: number;
+  waveform?: number[] | null;
+}
+
+// Flat bars for recordings the sender's browser couldn't measure
+const FLAT_WAVEFORM = Array.from({ length: WAVEFORM_BARS }, () => 30);
+
+const VoiceMessagePlayer = ({ src, durationMs, waveform }: VoiceMessagePlayerProps) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [playing, setPlaying] = useState(false);
+  const [positionMs, setPositionMs] = useState(0);
+  const bars = waveform && waveform.length > 0 ? waveform : FLAT_WAVEFORM;
+  const progress = durationMs > 0 ? Math.min(1, positionMs / durationMs) : 0;
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    const handleTimeUpdate = () => setPositionMs(audio.currentTime * 1000);
+    const handleEnded = () => {
+      setPlaying(false);
+      setPositionMs(0);
+    };
+    const handlePause = () => setPlaying(false);
+    const handlePlay = () => setPlaying(true);
+
+    audio.addEventListener('timeupdate', handleTimeUpdate);
+    audio.addEventListener('ended', handleEnded);
+    audio.addEventListener('pause', handlePause);
+    audio.addEventListener('play', handlePlay);
+    return () => {
+      audio.removeEventListener('timeupdate', handleTimeUpdate);
+      audio.removeEventListener('ended', handleEnded);
+      audio.removeEventListener('pause', handlePause);
+      audio.removeEventListener('play', handlePlay);
+    };
+  }, []);
+
+  const togglePlayback = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) {
+      audio.play().catch(error => console.error('Error playing voice message:', error));
+    } else {
+      audio.pause();
+    }
+  };
+
+  // Clicking the waveform jumps to that point
+  const seek = (event: React.MouseEvent<HTMLDivElement>) => {
+    const audio = audioRef.current;
+    if (!audio || !src) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    const fraction = Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width));
+    audio.currentTime = (fraction * durationMs) / 1000;
+    setPositionMs(fraction * durationMs);
+  };
+
+  return (
+    <div className="flex items-center gap-2 min-w-[200px]">
+      <audio ref={audioRef} src={src} preload="metadata" />
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-8 w-8 p-0 shrink-0 rounded-full"
+        onClick={togglePlayback}
+        disabled={!src}
+        aria-label={playing ? 'Pause voice message' : 'Play voice message'}
+      >
+        {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+      </Button>
+      <div className="flex items-center gap-px h-8 flex-1 cursor-pointer" onClick={seek}>
+        {bars.map((level, index) => (
+          <div
+            key={index}
+            className={`flex-1 rounded-full bg-current ${index / bars.length < progress ? 'opacity-100' : 'opacity-40'}`}
+            style={{ height: `${Math.max(10, level)}%` }}
+          />
+        ))}
+      </div>
+      <span className="text-xs tabular-nums opacity-80 shrink-0">
+        {formatDuration(playing || positionMs > 0 ? positionMs : durationMs)}
+      </span>
+    </div>
+  );
+};
+
+export default VoiceMessagePlayer;
@@ -14,29 +14,50 @@ interface DmRequest {
   id: string;
   sender_id: string;
   created_at: string;
+  note?: string | null;
   sender?: Sender;
 }
 
 interface Message {
   id: string;
   sender_id: string;
+  recipient_id?: string;
+  conversation_id?: string;
   content: string;
   created_at: string;
   sender?: Sender;
+  conversation?: { name: string };
 }
 
+// A report the user filed that a moderator has since resolved
+interface ResolvedReport {
+  id: string;
+  reason: string;
+  status: 'actioned' | 'dismissed';
+  resolution_note?: string;
+  created_at: string;
+}
+
+// Message notifications are grouped per thread: the group for group messages, the sender otherwise
+export const getThreadKey = (message: Pick<Message, 'sender_id' | 'conversation_id'>) =>
+  message.conversation_id ?? message.sender_id;
+
 // Union type for notifications
 export type NotificationItem = (
   | ({ type: 'dm_request' } & DmRequest)
   | ({ type: 'new_message' } & Message)
+  | ({ type: 'report_resolved' } & ResolvedReport)
 );
 
 interface NotificationsContextType {
   notifications: NotificationItem[];
   count: number;
   loading: boolean;
+  // Most recent message sent or received over realtime, used to refresh the inbox
+  latestMessage: Message | null;
   respondToRequest: (requestId: string, status: 'accepted' | 'rejected') => Promise<void>;
-  clearMessageNotifications: (senderId: string) => void;
+  clearMessageNotifications: (threadKey: string) => void;
+  acknowledgeReport: (reportId: string) => Promise<void>;
   setActiveChatRecipientId: (id: string | null) => void;
 }
 
@@ -48,7 +69,11 @@ export const NotificationsProvider = ({ children }: { children: React.ReactNode
   const [dmRequests, setDmRequests] = useState<DmRequest[]>([]);
   const [messageNotifications, setMessageNotifications] = useState<Message[]>([]);
   const [loading, setLoading] = useState(true);
+  const [latestMessage, setLatestMessage] = useState<Message | null>(null);
+  // Sender id of the open direct chat, or conversation id of the open group chat
   const [activeChatRecipientId, setActiveChatRecipientId] = useState<string | null>(null);
+  const [groupIds, setGroupIds] = useState<string[]>([]);
+  const [resolvedReports, setResolvedReports] = useState<ResolvedReport[]>([]);
 
   const fetchPendingRequests = useCallback(async () => {
     if (!user) return;
@@ -57,7 +82,7 @@ export const NotificationsProvider = ({ children }: { children: React.ReactNode
       // Fetch DM requests first
       const { data: requests, error: requestsError } = await supabase
         .from('dm_requests')
-        .select('id, sender_id, created_at')
+        .select('id, sender_id, created_at, note')
         .eq('recipient_id', user.id)
         .eq('status', 'pending')
         .order('created_at', { ascending: false });
@@ -88,10 +113,85 @@ export const NotificationsProvider = ({ children }: { children: React.ReactNode
     }
   }, [user]);
 
+  const fetchGroupIds = useCallback(async () => {
+    if (!user) return;
+    const { data, error } = await supabase
+      .from('conversation_members')
+      .select('conversation_id')
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('Error fetching group memberships:', error);
+      return;
+    }
+    setGroupIds((data || []).map(row => row.conversation_id).sort());
+  }, [user]);
+
+  const fetchResolvedReports = useCallback(async () => {
+    if (!user) return;
+    const { data, error } = await supabase
+      .from('reports')
+      .select('id, reason, status, resolution_note, resolved_at')
+      .eq('reporter_id', user.id)
+      .neq('status', 'open')
+      .is('reporter_seen_at', null)
+      .order('resolved_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching resolved reports:', error);
+      return;
+    }
+    setResolvedReports((data || []).map(({ resolved_at, ...report }) => ({
+      ...report,
+      status: report.status as ResolvedReport['status'],
+      created_at: resolved_at,
+    })));
+  }, [user]);
+
+  const markMessagesDelivered = useCallback(async () => {
+    const { error } = await supabase.rpc('mark_messages_delivered');
+    if (error) console.error('Error marking messages as delivered:', error);
+  }, []);
+
   useEffect(() => {
     if (user) fetchPendingRequests();
   }, [user, fetchPendingRequests]);
 
+  useEffect(() => {
+    if (!user) return;
+    fetchResolvedReports();
+
+    const reportsChannel = supabase
+      .channel('reports_realtime')
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'reports', filter: `reporter_id=eq.${user.id}` }, () => {
+        fetchResolvedReports();
+      }).subscribe();
+
+    return () => {
+      supabase.removeChannel(reportsChannel);
+    };
+  }, [user, fetchResolvedReports]);
+
+  // Anything sent to us while we were away has now reached this device
+  useEffect(() => {
+    if (user) markMessagesDelivered();
+  }, [user, markMessagesDelivered]);
+
+  useEffect(() => {
+    if (!user) return;
+    fetchGroupIds();
+
+    const membershipChannel = supabase
+      .channel('group_memberships_realtime')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'conversation_members', filter: `user_id=eq.${user.id}` }, () => {
+        fetchGroupIds();
+      }).subscribe();
+
+    return () => {
+      supabase.removeChannel(membershipChannel);
+    };
+  }, [user, fetchGroupIds]);
+
   useEffect(() => {
     if (!user) return;
 
@@ -101,33 +201,89 @@ export const NotificationsProvider = ({ children }: { children: React.ReactNode
         fetchPendingRequests();
         if (payload.eventType === 'INSERT' && Notification.permission === 'granted') {
           supabase.from('users').select('name, avatar_url').eq('id', payload.new.sender_id).single().then(({ data: sender }) => {
-            if (sender) new Notification('New DM Request', { body: `${sender.name} wants to send you a message.`, icon: sender.avatar_url });
+            if (!sender) return;
+            const note = payload.new.note;
+            const body = note ? `${sender.name} wants to send you a message: "${note}"` : `${sender.name} wants to send you a message.`;
+            new Notification('New DM Request', { body, icon: sender.avatar_url });
           });
         }
       }).subscribe();
 
-    const msgChannel = supabase
+    const handleIncomingMessage = async (newMessage: Message) => {
+      setLatestMessage(newMessage);
+      if (newMessage.recipient_id === user.id) markMessagesDelivered();
+      if (newMessage.sender_id === user.id || getThreadKey(newMessage) === activeChatRecipientId) return;
+
+      let conversation: { name: string } | undefined;
+      if (newMessage.conversation_id) {
+        const { data } = await supabase.from('conversations').select('name').eq('id', newMessage.conversation_id).single();
+        conversation = data ?? undefined;
+      }
+
+      // Group members are not necessarily visible through the users table
+      const sender = newMessage.conversation_id
+        ? (await supabase.rpc('get_conversation_members', { p_conversation_id: newMessage.conversation_id }))
+            .data?.find(member => member.user_id === newMessage.sender_id)
+        : (await supabase.from('users').select('name, avatar_url').eq('id', newMessage.sender_id).single()).data;
+
+      if (sender) {
+        const notificationPayload = { ...newMessage, sender: { name: sender.name, avatar_url: sender.avatar_url }, conversation };
+        setMessageNotifications(prev => [notificationPayload, ...prev.filter(n => getThreadKey(n) !== getThreadKey(newMessage))]);
+        if (Notification.permission === 'granted') {
+          const title = conversation ? `${sender.name} in ${conversation.name}` : `New message from ${sender.name}`;
+          new Notification(title, { body: newMessage.content, icon: sender.avatar_url });
+        }
+      }
+    };
+
+    // Reactions only get a toast; they don't stay in the notifications list
+    const handleIncomingReaction = async (reaction: { message_id: string; user_id: string; emoji: string }) => {
+      if (reaction.user_id === user.id) return;
+
+      const { data: message } = await supabase
+        .from('messages')
+        .select('content, recipient_id, conversation_id')
+        .eq('id', reaction.message_id)
+        .single();
+      // Reactions show up live in the open chat
+      if (!message || (message.conversation_id ?? message.recipient_id) === activeChatRecipientId) return;
+
+      const reactor = message.conversation_id
+        ? (await supabase.rpc('get_conversation_members', { p_conversation_id: message.conversation_id }))
+            .data?.find(member => member.user_id === reaction.user_id)
+        : (await supabase.from('users').select('name').eq('id', reaction.user_id).single()).data;
+
+      const preview = message.content ? `: "${message.content.length > 40 ? `${message.content.slice(0, 40)}…` : message.content}"` : '';
+      toast({
+        title: `${reactor?.name || 'Someone'} reacted ${reaction.emoji}`,
+        description: `To your message${preview}`,
+      });
+    };
+
+    let msgChannel = supabase
       .channel('messages_realtime')
       .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'messages', filter: `recipient_id=eq.${user.id}` }, (payload) => {
-        const newMessage = payload.new as Message;
-        if (newMessage.sender_id !== activeChatRecipientId) {
-          supabase.from('users').select('name, avatar_url').eq('id', newMessage.sender_id).single().then(({ data: sender }) => {
-            if (sender) {
-              const notificationPayload = { ...newMessage, sender };
-              setMessageNotifications(prev => [notificationPayload, ...prev.filter(n => n.sender_id !== newMessage.sender_id)]);
-              if (Notification.permission === 'granted') {
-                new Notification(`New message from ${sender.name}`, { body: newMessage.content, icon: sender.avatar_url });
-              }
-            }
-          });
-        }
-      }).subscribe();
+        handleIncomingMessage(payload.new as Message);
+      })
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'messages', filter: `sender_id=eq.${user.id}` }, (payload) => {
+        setLatestMessage(payload.new as Message);
+      })
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'message_reactions', filter: `message_owner_id=eq.${user.id}` }, (payload) => {
+        handleIncomingReaction(payload.new as { message_id: string; user_id: string; emoji: string });
+      });
+
+    if (groupIds.length > 0) {
+      msgChannel = msgChannel.on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'messages', filter: `conversation_id=in.(${groupIds.join(',')})` }, (payload) => {
+        handleIncomingMessage(payload.new as Message);
+      });
+    }
+    msgChannel.subscribe();
 
     return () => {
       supabase.removeChannel(dmChannel);
       supabase.removeChannel(msgChannel);
     };
-  }, [user, activeChatRecipientId, fetchPendingRequests]);
+  }, [user, activeChatRecipientId, groupIds, fetchPendingRequests, markMessagesDelivered, toast]);
 
   const respondToRequest = async (requestId: string, status: 'accepted' | 'rejected') => {
     // Logic remains the same, but we update the local state optimistically
@@ -147,24 +303,36 @@ export const NotificationsProvider = ({ children }: { children: React.ReactNode
     }
   };
 
-  const clearMessageNotifications = (senderId: string) => {
-    setMessageNotifications(prev => prev.filter(n => n.sender_id !== senderId));
+  const clearMessageNotifications = (threadKey: string) => {
+    setMessageNotifications(prev => prev.filter(n => getThreadKey(n) !== threadKey));
+  };
+
+  const acknowledgeReport = async (reportId: string) => {
+    setResolvedReports(prev => prev.filter(report => report.id !== reportId));
+    const { error } = await supabase.rpc('acknowledge_report', { p_report_id: reportId });
+    if (error) {
+      console.error('Error acknowledging report:', error);
+      fetchResolvedReports();
+    }
   };
 
   const notifications = useMemo(() => {
     const combined: NotificationItem[] = [
       ...dmRequests.map(r => ({ ...r, type: 'dm_request' as const })),
-      ...messageNotifications.map(m => ({ ...m, type: 'new_message' as const }))
+      ...messageNotifications.map(m => ({ ...m, type: 'new_message' as const })),
+      ...resolvedReports.map(r => ({ ...r, type: 'report_resolved' as const }))
     ];
     return combined.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
-  }, [dmRequests, messageNotifications]);
+  }, [dmRequests, messageNotifications, resolvedReports]);
 
   const value = {
     notifications,
     count: notifications.length,
     loading,
+    latestMessage,
     respondToRequest,
     clearMessageNotifications,
+    acknowledgeReport,
     setActiveChatRecipientId,
   };
 
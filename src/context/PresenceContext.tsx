@@ -0,0 +1,104 @@
+import { createContext, useContext, useEffect, useState, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/use-auth';
+
+// How often "last seen" is refreshed while the app is open
+const LAST_SEEN_INTERVAL_MS = 60 * 1000;
+
+interface PresenceContextType {
+  onlineUserIds: Set<string>;
+  isOnline: (userId: string) => boolean;
+  sharingEnabled: boolean;
+  setSharingEnabled: (enabled: boolean) => void;
+}
+
+const PresenceContext = createContext<PresenceContextType | undefined>(undefined);
+
+export const PresenceProvider = ({ children }: { children: React.ReactNode }) => {
+  const { user } = useAuth();
+  const [onlineUserIds, setOnlineUserIds] = useState<Set<string>>(new Set());
+  // Mirrors users.show_online_status; null until loaded
+  const [sharingEnabled, setSharingEnabled] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    supabase
+      .from('users')
+      .select('show_online_status')
+      .eq('id', user.id)
+      .single()
+      .then(({ data, error }) => {
+        if (error) console.error('Error fetching presence settings:', error);
+        setSharingEnabled(data?.show_online_status ?? true);
+      });
+  }, [user]);
+
+  // Everyone watches the shared presence channel; only users sharing their status track themselves
+  useEffect(() => {
+    if (!user || sharingEnabled === null) return;
+
+    const channel = supabase.channel('online_users', {
+      config: { presence: { key: user.id } },
+    });
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        setOnlineUserIds(new Set(Object.keys(channel.presenceState())));
+      })
+      .subscribe(async (status) => {
+        if (status === 'SUBSCRIBED' && sharingEnabled) {
+          await channel.track({ online_at: new Date().toISOString() });
+        }
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, sharingEnabled]);
+
+  // Persist "last seen" periodically and whenever the tab is hidden
+  useEffect(() => {
+    if (!user || !sharingEnabled) return;
+
+    const touchLastSeen = async () => {
+      const { error } = await supabase.rpc('touch_last_seen');
+      if (error) console.error('Error updating last seen:', error);
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') touchLastSeen();
+    };
+
+    touchLastSeen();
+    const interval = setInterval(touchLastSeen, LAST_SEEN_INTERVAL_MS);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [user, sharingEnabled]);
+
+  const isOnline = useCallback((userId: string) => onlineUserIds.has(userId), [onlineUserIds]);
+
+  const value = {
+    onlineUserIds,
+    isOnline,
+    sharingEnabled: sharingEnabled ?? true,
+    setSharingEnabled,
+  };
+
+  return (
+    <PresenceContext.Provider value={value}>
+      {children}
+    </PresenceContext.Provider>
+  );
+};
+
+export const usePresence = () => {
+  const context = useContext(PresenceContext);
+  if (context === undefined) {
+    throw new Error('usePresence must be used within a PresenceProvider');
+  }
+  return context;
+};
@@ -0,0 +1,70 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+
+// Ids of the users the signed-in user has blocked, with block/unblock actions
+export const useBlockedUsers = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [blockedIds, setBlockedIds] = useState<Set<string>>(new Set());
+
+  const fetchBlockedIds = useCallback(async () => {
+    if (!user) return;
+    const { data, error } = await supabase
+      .from('blocked_users')
+      .select('blocked_id')
+      .eq('blocker_id', user.id);
+
+    if (error) {
+      console.error('Error fetching blocked users:', error);
+      return;
+    }
+    setBlockedIds(new Set((data || []).map(row => row.blocked_id)));
+  }, [user]);
+
+  useEffect(() => {
+    fetchBlockedIds();
+  }, [fetchBlockedIds]);
+
+  const blockUser = useCallback(async (userId: string) => {
+    if (!user) return false;
+    const { error } = await supabase
+      .from('blocked_users')
+      .insert({ blocker_id: user.id, blocked_id: userId });
+
+    // Already blocked counts as success
+    if (error && error.code !== '23505') {
+      console.error('Error blocking user:', error);
+      toast({ title: 'Error', description: 'Failed to block user.', variant: 'destructive' });
+      return false;
+    }
+    setBlockedIds(prev => new Set([...prev, userId]));
+    return true;
+  }, [user, toast]);
+
+  const unblockUser = useCallback(async (userId: string) => {
+    if (!user) return false;
+    const { error } = await supabase
+      .from('blocked_users')
+      .delete()
+      .eq('blocker_id', user.id)
+      .eq('blocked_id', userId);
+
+    if (error) {
+      console.error('Error unblocking user:', error);
+      toast({ title: 'Error', description: 'Failed to unblock user.', variant: 'destructive' });
+      return false;
+    }
+    setBlockedIds(prev => {
+      const next = new Set(prev);
+      next.delete(userId);
+      return next;
+    });
+    return true;
+  }, [user, toast]);
+
+  const isBlocked = useCallback((userId: string) => blockedIds.has(userId), [blockedIds]);
+
+  return { blockedIds, isBlocked, blockUser, unblockUser, refresh: fetchBlockedIds };
+};
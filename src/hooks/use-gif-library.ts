@@ -0,0 +1,126 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import type { Gif } from '@/components/GifPicker';
+
+// Matches the trim_gif_recents trigger
+const MAX_RECENT_GIFS = 30;
+
+interface SavedGifRow {
+  url: string;
+  preview_url: string;
+  title: string;
+  width: number | null;
+  height: number | null;
+}
+
+// Saved GIFs are keyed by URL, so that doubles as their id
+const toGif = (row: SavedGifRow): Gif => ({
+  id: row.url,
+  title: row.title,
+  url: row.url,
+  preview: row.preview_url,
+  width: row.width ?? 0,
+  height: row.height ?? 0,
+});
+
+const toRow = (gif: Gif) => ({
+  url: gif.url,
+  preview_url: gif.preview || gif.url,
+  title: gif.title,
+  width: gif.width || null,
+  height: gif.height || null,
+});
+
+// The signed-in user's favorite and recently sent GIFs
+export const useGifLibrary = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [favorites, setFavorites] = useState<Gif[]>([]);
+  const [recents, setRecents] = useState<Gif[]>([]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchLibrary = async () => {
+      const [favoritesResult, recentsResult] = await Promise.all([
+        supabase
+          .from('gif_favorites')
+          .select('url, preview_url, title, width, height')
+          .eq('user_id', user.id)
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('gif_recents')
+          .select('url, preview_url, title, width, height')
+          .eq('user_id', user.id)
+          .order('used_at', { ascending: false })
+          .limit(MAX_RECENT_GIFS),
+      ]);
+
+      if (favoritesResult.error || recentsResult.error) {
+        console.error('Error fetching saved GIFs:', favoritesResult.error || recentsResult.error);
+        return;
+      }
+      setFavorites((favoritesResult.data || []).map(toGif));
+      setRecents((recentsResult.data || []).map(toGif));
+    };
+
+    fetchLibrary();
+  }, [user]);
+
+  const favoriteUrls = useMemo(() => new Set(favorites.map(gif => gif.url)), [favorites]);
+  const isFavorite = useCallback((url: string) => favoriteUrls.has(url), [favoriteUrls]);
+
+  const toggleFavorite = useCallback(async (gif: Gif) => {
+    if (!user) return;
+
+    if (favoriteUrls.has(gif.url)) {
+      const { error } = await supabase
+        .from('gif_favorites')
+        .delete()
+        .eq('user_id', user.id)
+        .eq('url', gif.url);
+
+      if (error) {
+        console.error('Error removing favorite GIF:', error);
+        toast({ title: 'Error', description: 'Failed to remove GIF from favorites.', variant: 'destructive' });
+        return;
+      }
+      setFavorites(prev => prev.filter(favorite => favorite.url !== gif.url));
+      return;
+    }
+
+    const { error } = await supabase
+      .from('gif_favorites')
+      .insert({ user_id: user.id, ...toRow(gif) });
+
+    // Already a favorite counts as success
+    if (error && error.code !== '23505') {
+      console.error('Error adding favorite GIF:', error);
+      toast({ title: 'Error', description: 'Failed to add GIF to favorites.', variant: 'destructive' });
+      return;
+    }
+    setFavorites(prev => [{ ...gif, id: gif.url }, ...prev.filter(favorite => favorite.url !== gif.url)]);
+  }, [user, favoriteUrls, toast]);
+
+  // Called after a GIF is sent; failing to record it isn't worth bothering the user about
+  const recordRecent = useCallback(async (gif: Gif) => {
+    if (!user) return;
+
+    setRecents(prev => [
+      { ...gif, id: gif.url },
+      ...prev.filter(recent => recent.url !== gif.url),
+    ].slice(0, MAX_RECENT_GIFS));
+
+    const { error } = await supabase
+      .from('gif_recents')
+      .upsert({ user_id: user.id, ...toRow(gif), used_at: new Date().toISOString() });
+
+    if (error) {
+      console.error('Error recording recent GIF:', error);
+    }
+  }, [user]);
+
+  return { favorites, recents, isFavorite, toggleFavorite, recordRecent };
+};
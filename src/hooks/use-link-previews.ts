@@ -0,0 +1,61 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface LinkPreview {
+  url: string;
+  title: string | null;
+  description: string | null;
+  image_url: string | null;
+  site_name: string | null;
+}
+
+// Previews don't change once fetched, so they're kept for the whole session
+const cache = new Map<string, LinkPreview>();
+
+// Loads the cached previews that messages point at (messages.link_preview_url).
+// Returns a resolver; it gives undefined until a preview has loaded.
+export const useLinkPreviews = (urls: (string | null | undefined)[]) => {
+  const [previews, setPreviews] = useState<Record<string, LinkPreview>>({});
+
+  const key = [...new Set(urls.filter((url): url is string => !!url))].sort().join('\n');
+  const wanted = useMemo(() => (key ? key.split('\n') : []), [key]);
+
+  useEffect(() => {
+    if (wanted.length === 0) return;
+    let cancelled = false;
+
+    const load = async () => {
+      const missing = wanted.filter(url => !cache.has(url));
+      if (missing.length > 0) {
+        const { data, error } = await supabase
+          .from('link_previews')
+          .select('url, title, description, image_url, site_name')
+          .in('url', missing);
+
+        if (error) {
+          console.error('Error fetching link previews:', error);
+        } else {
+          (data || []).forEach(preview => cache.set(preview.url, preview));
+        }
+      }
+      if (cancelled) return;
+
+      const loaded: Record<string, LinkPreview> = {};
+      wanted.forEach(url => {
+        const preview = cache.get(url);
+        if (preview) loaded[url] = preview;
+      });
+      setPreviews(loaded);
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [wanted]);
+
+  return useCallback((url?: string | null) => {
+    if (!url) return undefined;
+    return previews[url] ?? cache.get(url);
+  }, [previews]);
+};
@@ -0,0 +1,97 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import type { Database } from '@/integrations/supabase/types';
+
+export type MessageReaction = Database['public']['Tables']['message_reactions']['Row'];
+
+/**
+ * Reactions for the messages currently on screen, kept in sync over realtime.
+ * Reactions are fetched once per message id as messages appear.
+ */
+export const useMessageReactions = (chatKey: string | undefined, messageIds: string[]) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [reactions, setReactions] = useState<MessageReaction[]>([]);
+  const fetchedIdsRef = useRef<Set<string>>(new Set());
+  const messageIdsRef = useRef<Set<string>>(new Set());
+
+  useEffect(() => {
+    messageIdsRef.current = new Set(messageIds);
+
+    // Optimistic messages have no row yet
+    const missing = messageIds.filter(id => !id.startsWith('optimistic-') && !fetchedIdsRef.current.has(id));
+    if (missing.length === 0) return;
+    missing.forEach(id => fetchedIdsRef.current.add(id));
+
+    supabase
+      .from('message_reactions')
+      .select('*')
+      .in('message_id', missing)
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching reactions:', error);
+          missing.forEach(id => fetchedIdsRef.current.delete(id));
+          return;
+        }
+        setReactions(prev => [...prev.filter(r => !missing.includes(r.message_id)), ...(data || [])]);
+      });
+  }, [messageIds]);
+
+  useEffect(() => {
+    if (!chatKey || !user) return;
+
+    fetchedIdsRef.current = new Set();
+    setReactions([]);
+
+    // Deletes can't be filtered server-side, so everything is matched against the messages on screen
+    const channel = supabase
+      .channel(`reactions:${chatKey}`)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'message_reactions' }, (payload) => {
+        const reaction = payload.new as MessageReaction;
+        if (!messageIdsRef.current.has(reaction.message_id)) return;
+        setReactions(prev => prev.some(r => r.id === reaction.id) ? prev : [...prev, reaction]);
+      })
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'message_reactions' }, (payload) => {
+        const removed = payload.old as Partial<MessageReaction>;
+        setReactions(prev => prev.filter(r => r.id !== removed.id));
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [chatKey, user]);
+
+  const toggleReaction = useCallback(async (messageId: string, emoji: string) => {
+    if (!user) return;
+
+    const existing = reactions.find(r => r.message_id === messageId && r.user_id === user.id && r.emoji === emoji);
+    if (existing) {
+      setReactions(prev => prev.filter(r => r.id !== existing.id));
+      const { error } = await supabase.from('message_reactions').delete().eq('id', existing.id);
+      if (error) {
+        console.error('Error removing reaction:', error);
+        setReactions(prev => [...prev, existing]);
+        toast({ title: 'Error', description: 'Failed to remove reaction.', variant: 'destructive' });
+      }
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('message_reactions')
+      .insert({ message_id: messageId, user_id: user.id, emoji })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error adding reaction:', error);
+      toast({ title: 'Error', description: 'Failed to add reaction.', variant: 'destructive' });
+      return;
+    }
+    setReactions(prev => prev.some(r => r.id === data.id) ? prev : [...prev, data]);
+  }, [user, reactions, toast]);
+
+  return { reactions, toggleReaction };
+};
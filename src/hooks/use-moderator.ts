@@ -0,0 +1,25 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/use-auth';
+
+// Whether the signed-in user can review moderation data such as message history
+export const useIsModerator = () => {
+  const { user } = useAuth();
+  const [isModerator, setIsModerator] = useState(false);
+
+  useEffect(() => {
+    if (!user) {
+      setIsModerator(false);
+      return;
+    }
+
+    supabase
+      .rpc('current_user_is_moderator')
+      .then(({ data, error }) => {
+        if (error) console.error('Error checking moderator status:', error);
+        setIsModerator(!!data);
+      });
+  }, [user]);
+
+  return isModerator;
+};
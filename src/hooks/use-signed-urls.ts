@@ -0,0 +1,84 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+const BUCKET = 'chat-images';
+// Signed links stop working after this long, so they're renewed a minute early
+const URL_TTL_SECONDS = 600;
+const REFRESH_MARGIN_MS = 60_000;
+
+interface SignedUrl {
+  url: string;
+  expiresAt: number;
+}
+
+// Shared across components so reopening a chat doesn't sign everything again
+const cache = new Map<string, SignedUrl>();
+
+// Stored chat images are object paths; blob previews, GIFs and other links are used as they are
+const isStoragePath = (value: string) => !/^(https?:|blob:|data:)/.test(value);
+
+const isFresh = (path: string) => {
+  const entry = cache.get(path);
+  return !!entry && entry.expiresAt - REFRESH_MARGIN_MS > Date.now();
+};
+
+const signPaths = async (paths: string[]) => {
+  const { data, error } = await supabase.storage.from(BUCKET).createSignedUrls(paths, URL_TTL_SECONDS);
+  if (error) {
+    console.error('Error signing media urls:', error);
+    return;
+  }
+
+  const expiresAt = Date.now() + URL_TTL_SECONDS * 1000;
+  data.forEach(item => {
+    if (item.path && item.signedUrl) cache.set(item.path, { url: item.signedUrl, expiresAt });
+  });
+};
+
+// Turns stored chat image paths into signed URLs and keeps them from expiring
+// while the component is mounted. Returns a resolver; it gives undefined until
+// a path has been signed.
+export const useSignedUrls = (values: (string | null | undefined)[]) => {
+  const [urls, setUrls] = useState<Record<string, string>>({});
+
+  const key = [...new Set(values.filter((value): value is string => !!value && isStoragePath(value)))]
+    .sort()
+    .join('\n');
+  const paths = useMemo(() => (key ? key.split('\n') : []), [key]);
+
+  useEffect(() => {
+    if (paths.length === 0) return;
+    let cancelled = false;
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+
+    const refresh = async () => {
+      const stale = paths.filter(path => !isFresh(path));
+      if (stale.length > 0) await signPaths(stale);
+      if (cancelled) return;
+      const signed: Record<string, string> = {};
+      paths.forEach(path => {
+        const entry = cache.get(path);
+        if (entry) signed[path] = entry.url;
+      });
+      setUrls(signed);
+
+      // Paths that couldn't be signed are retried on the same schedule
+      const nextExpiry = Math.min(
+        ...paths.map(path => cache.get(path)?.expiresAt ?? Date.now() + URL_TTL_SECONDS * 1000)
+      );
+      timeout = setTimeout(refresh, Math.max(nextExpiry - REFRESH_MARGIN_MS - Date.now(), 5_000));
+    };
+
+    refresh();
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [paths]);
+
+  return useCallback((value?: string | null) => {
+    if (!value) return undefined;
+    if (!isStoragePath(value)) return value;
+    return urls[value] ?? cache.get(value)?.url;
+  }, [urls]);
+};
@@ -0,0 +1,95 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/use-auth';
+
+// Send at most one "typing" event per interval while the user keeps typing
+const TYPING_THROTTLE_MS = 2000;
+// Forget a typist if we hear nothing from them for this long
+const TYPING_EXPIRY_MS = 5000;
+
+interface Typist {
+  id: string;
+  name: string;
+}
+
+interface TypingPayload {
+  user_id: string;
+  name: string;
+}
+
+/**
+ * Broadcast-only typing indicator for a single conversation. Nothing is
+ * written to the database; events expire on their own if a client goes away.
+ */
+export const useTypingIndicator = (conversationKey?: string) => {
+  const { user } = useAuth();
+  const [typists, setTypists] = useState<Typist[]>([]);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const lastSentRef = useRef(0);
+  const expiryTimersRef = useRef<Map<string, ReturnType<typeof setTimeout>>>(new Map());
+
+  useEffect(() => {
+    if (!conversationKey || !user) return;
+
+    const timers = expiryTimersRef.current;
+
+    const removeTypist = (userId: string) => {
+      clearTimeout(timers.get(userId));
+      timers.delete(userId);
+      setTypists(prev => prev.filter(t => t.id !== userId));
+    };
+
+    const channel = supabase
+      .channel(`typing:${conversationKey}`, { config: { broadcast: { self: false } } })
+      .on('broadcast', { event: 'typing' }, ({ payload }) => {
+        const { user_id, name } = payload as TypingPayload;
+        if (user_id === user.id) return;
+
+        clearTimeout(timers.get(user_id));
+        timers.set(user_id, setTimeout(() => removeTypist(user_id), TYPING_EXPIRY_MS));
+        setTypists(prev => prev.some(t => t.id === user_id) ? prev : [...prev, { id: user_id, name }]);
+      })
+      .on('broadcast', { event: 'stop_typing' }, ({ payload }) => {
+        removeTypist((payload as TypingPayload).user_id);
+      })
+      .subscribe();
+
+    channelRef.current = channel;
+
+    return () => {
+      timers.forEach(timer => clearTimeout(timer));
+      timers.clear();
+      setTypists([]);
+      channelRef.current = null;
+      supabase.removeChannel(channel);
+    };
+  }, [conversationKey, user]);
+
+  const notifyTyping = useCallback(() => {
+    if (!channelRef.current || !user) return;
+
+    const now = Date.now();
+    if (now - lastSentRef.current < TYPING_THROTTLE_MS) return;
+    lastSentRef.current = now;
+
+    channelRef.current.send({
+      type: 'broadcast',
+      event: 'typing',
+      payload: { user_id: user.id, name: user.user_metadata?.name || 'Someone' },
+    });
+  }, [user]);
+
+  const notifyStoppedTyping = useCallback(() => {
+    if (!channelRef.current || !user) return;
+
+    lastSentRef.current = 0;
+    channelRef.current.send({
+      type: 'broadcast',
+      event: 'stop_typing',
+      payload: { user_id: user.id, name: user.user_metadata?.name || 'Someone' },
+    });
+  }, [user]);
+
+  return { typists, notifyTyping, notifyStoppedTyping };
+};
@@ -0,0 +1,43 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/use-auth';
+import type { UserRole } from '@/lib/roles';
+
+interface UserRoleState {
+  role: UserRole;
+  isAdmin: boolean;
+  suspended: boolean;
+  loading: boolean;
+}
+
+// The signed-in user's role and whether their account is suspended
+export const useUserRole = (): UserRoleState => {
+  const { user } = useAuth();
+  const [role, setRole] = useState<UserRole>('student');
+  const [suspended, setSuspended] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) {
+      setRole('student');
+      setSuspended(false);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    supabase
+      .from('account_status')
+      .select('role, suspended_at')
+      .eq('user_id', user.id)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (error) console.error('Error fetching user role:', error);
+        setRole(data?.role ?? 'student');
+        setSuspended(!!data?.suspended_at);
+        setLoading(false);
+      });
+  }, [user]);
+
+  return { role, isAdmin: role === 'admin', suspended, loading };
+};
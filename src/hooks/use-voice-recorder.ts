@@ -0,0 +1,100 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { getRecordingMimeType } from '@/lib/audio';
+
+export interface RecordedAudio {
+  blob: Blob;
+  elapsedMs: number;
+}
+
+interface VoiceRecorderOptions {
+  maxDurationMs: number;
+  // Called once when a recording reaches maxDurationMs; usually stops and sends it
+  onLimitReached: () => void;
+}
+
+// Microphone recording with MediaRecorder. stop() resolves with the recording;
+// cancel() throws it away. The microphone is released either way.
+export const useVoiceRecorder = ({ maxDurationMs, onLimitReached }: VoiceRecorderOptions) => {
+  const [recording, setRecording] = useState(false);
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  const startedAtRef = useRef(0);
+  const onLimitReachedRef = useRef(onLimitReached);
+  onLimitReachedRef.current = onLimitReached;
+
+  const release = useCallback(() => {
+    recorderRef.current?.stream.getTracks().forEach(track => track.stop());
+    recorderRef.current = null;
+    chunksRef.current = [];
+    setRecording(false);
+    setElapsedMs(0);
+  }, []);
+
+  const start = useCallback(async () => {
+    if (recorderRef.current) return;
+
+    const mimeType = typeof MediaRecorder === 'undefined' ? undefined : getRecordingMimeType();
+    if (!mimeType || !navigator.mediaDevices?.getUserMedia) {
+      throw new Error('Voice recording is not supported in this browser');
+    }
+
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    const recorder = new MediaRecorder(stream, { mimeType });
+    chunksRef.current = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunksRef.current.push(event.data);
+    };
+    recorder.start(250);
+
+    recorderRef.current = recorder;
+    startedAtRef.current = Date.now();
+    setElapsedMs(0);
+    setRecording(true);
+  }, []);
+
+  const stop = useCallback(() => new Promise<RecordedAudio | null>((resolve) => {
+    const recorder = recorderRef.current;
+    // Already stopping
+    if (!recorder || recorder.state === 'inactive') {
+      resolve(null);
+      return;
+    }
+
+    // The limit check runs on a timer, so a recording stopped by it is slightly over
+    const elapsed = Math.min(Date.now() - startedAtRef.current, maxDurationMs);
+    recorder.onstop = () => {
+      const blob = new Blob(chunksRef.current, { type: recorder.mimeType });
+      release();
+      resolve(blob.size > 0 ? { blob, elapsedMs: elapsed } : null);
+    };
+    recorder.stop();
+  }), [release, maxDurationMs]);
+
+  const cancel = useCallback(() => {
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+    recorder.onstop = null;
+    if (recorder.state !== 'inactive') recorder.stop();
+    release();
+  }, [release]);
+
+  useEffect(() => {
+    if (!recording) return;
+    let limitReached = false;
+    const interval = setInterval(() => {
+      const elapsed = Date.now() - startedAtRef.current;
+      setElapsedMs(elapsed);
+      if (elapsed >= maxDurationMs && !limitReached) {
+        limitReached = true;
+        onLimitReachedRef.current();
+      }
+    }, 250);
+    return () => clearInterval(interval);
+  }, [recording, maxDurationMs]);
+
+  // Leaving the chat mid-recording shouldn't keep the microphone on
+  useEffect(() => cancel, [cancel]);
+
+  return { recording, elapsedMs, start, stop, cancel };
+};
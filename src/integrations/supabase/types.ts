@@ -14,6 +14,38 @@ export type Database = {
   }
   public: {
     Tables: {
+      account_status: {
+        Row: {
+          privacy_mode_locked: boolean
+          role: Database["public"]["Enums"]["user_role"]
+          suspended_at: string | null
+          suspension_reason: string | null
+          user_id: string
+        }
+        Insert: {
+          privacy_mode_locked?: boolean
+          role?: Database["public"]["Enums"]["user_role"]
+          suspended_at?: string | null
+          suspension_reason?: string | null
+          user_id: string
+        }
+        Update: {
+          privacy_mode_locked?: boolean
+          role?: Database["public"]["Enums"]["user_role"]
+          suspended_at?: string | null
+          suspension_reason?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "account_status_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       allowed_contacts: {
         Row: {
           created_at: string
@@ -50,10 +82,151 @@ export type Database = {
           },
         ]
       }
+      blocked_users: {
+        Row: {
+          blocked_id: string
+          blocker_id: string
+          created_at: string
+        }
+        Insert: {
+          blocked_id: string
+          blocker_id: string
+          created_at?: string
+        }
+        Update: {
+          blocked_id?: string
+          blocker_id?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "blocked_users_blocked_id_fkey"
+            columns: ["blocked_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "blocked_users_blocker_id_fkey"
+            columns: ["blocker_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      conversation_members: {
+        Row: {
+          conversation_id: string
+          joined_at: string
+          last_read_at: string
+          role: Database["public"]["Enums"]["conversation_role"]
+          user_id: string
+        }
+        Insert: {
+          conversation_id: string
+          joined_at?: string
+          last_read_at?: string
+          role?: Database["public"]["Enums"]["conversation_role"]
+          user_id: string
+        }
+        Update: {
+          conversation_id?: string
+          joined_at?: string
+          last_read_at?: string
+          role?: Database["public"]["Enums"]["conversation_role"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_members_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversation_members_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      conversation_reads: {
+        Row: {
+          last_read_at: string
+          partner_id: string
+          user_id: string
+        }
+        Insert: {
+          last_read_at?: string
+          partner_id: string
+          user_id: string
+        }
+        Update: {
+          last_read_at?: string
+          partner_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_reads_partner_id_fkey"
+            columns: ["partner_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversation_reads_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      conversations: {
+        Row: {
+          avatar_url: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          avatar_url?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          avatar_url?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversations_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       dm_requests: {
         Row: {
           created_at: string
           id: string
+          note: string | null
           recipient_id: string
           sender_id: string
           status: Database["public"]["Enums"]["dm_request_status"]
@@ -62,6 +235,7 @@ export type Database = {
         Insert: {
           created_at?: string
           id?: string
+          note?: string | null
           recipient_id: string
           sender_id: string
           status?: Database["public"]["Enums"]["dm_request_status"]
@@ -70,6 +244,7 @@ export type Database = {
         Update: {
           created_at?: string
           id?: string
+          note?: string | null
           recipient_id?: string
           sender_id?: string
           status?: Database["public"]["Enums"]["dm_request_status"]
@@ -92,37 +267,510 @@ export type Database = {
           },
         ]
       }
+      gif_favorites: {
+        Row: {
+          created_at: string
+          height: number | null
+          preview_url: string
+          title: string
+          url: string
+          user_id: string
+          width: number | null
+        }
+        Insert: {
+          created_at?: string
+          height?: number | null
+          preview_url: string
+          title?: string
+          url: string
+          user_id: string
+          width?: number | null
+        }
+        Update: {
+          created_at?: string
+          height?: number | null
+          preview_url?: string
+          title?: string
+          url?: string
+          user_id?: string
+          width?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "gif_favorites_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      gif_recents: {
+        Row: {
+          height: number | null
+          preview_url: string
+          title: string
+          url: string
+          used_at: string
+          user_id: string
+          width: number | null
+        }
+        Insert: {
+          height?: number | null
+          preview_url: string
+          title?: string
+          url: string
+          used_at?: string
+          user_id: string
+          width?: number | null
+        }
+        Update: {
+          height?: number | null
+          preview_url?: string
+          title?: string
+          url?: string
+          used_at?: string
+          user_id?: string
+          width?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "gif_recents_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      link_previews: {
+        Row: {
+          description: string | null
+          fetched_at: string
+          image_url: string | null
+          ok: boolean
+          site_name: string | null
+          title: string | null
+          url: string
+        }
+        Insert: {
+          description?: string | null
+          fetched_at?: string
+          image_url?: string | null
+          ok: boolean
+          site_name?: string | null
+          title?: string | null
+          url: string
+        }
+        Update: {
+          description?: string | null
+          fetched_at?: string
+          image_url?: string | null
+          ok?: boolean
+          site_name?: string | null
+          title?: string | null
+          url?: string
+        }
+        Relationships: []
+      }
+      message_edits: {
+        Row: {
+          action: string
+          created_at: string
+          edited_by: string | null
+          id: string
+          message_id: string
+          previous_content: string | null
+          previous_image_url: string | null
+        }
+        Insert: {
+          action: string
+          created_at?: string
+          edited_by?: string | null
+          id?: string
+          message_id: string
+          previous_content?: string | null
+          previous_image_url?: string | null
+        }
+        Update: {
+          action?: string
+          created_at?: string
+          edited_by?: string | null
+          id?: string
+          message_id?: string
+          previous_content?: string | null
+          previous_image_url?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_edits_edited_by_fkey"
+            columns: ["edited_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_edits_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_reactions: {
+        Row: {
+          created_at: string
+          emoji: string
+          id: string
+          message_id: string
+          message_owner_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          emoji: string
+          id?: string
+          message_id: string
+          message_owner_id?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          emoji?: string
+          id?: string
+          message_id?: string
+          message_owner_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_reactions_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_reactions_message_owner_id_fkey"
+            columns: ["message_owner_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_reactions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       messages: {
         Row: {
           content: string | null
+          conversation_id: string | null
           created_at: string
+          deleted_at: string | null
+          delivered_at: string | null
+          edited_at: string | null
           id: string
-          media_type: string | null
+          image_filename: string | null
+          image_height: number | null
+          image_size: number | null
+          image_thumbnail_url: string | null
+          image_url: string | null
+          image_width: number | null
+          link_preview_url: string | null
+          media_duration_ms: number | null
+          media_filename: string | null
+          media_mime_type: string | null
+          media_size: number | null
+          media_type: string
           media_url: string | null
-          recipient_id: string
+          media_waveform: number[] | null
+          read_at: string | null
+          recipient_id: string | null
+          reply_to_id: string | null
           sender_id: string
           updated_at: string
         }
         Insert: {
           content?: string | null
+          conversation_id?: string | null
           created_at?: string
+          deleted_at?: string | null
+          delivered_at?: string | null
+          edited_at?: string | null
           id?: string
-          media_type?: string | null
+          image_filename?: string | null
+          image_height?: number | null
+          image_size?: number | null
+          image_thumbnail_url?: string | null
+          image_url?: string | null
+          image_width?: number | null
+          link_preview_url?: string | null
+          media_duration_ms?: number | null
+          media_filename?: string | null
+          media_mime_type?: string | null
+          media_size?: number | null
+          media_type?: string
           media_url?: string | null
-          recipient_id: string
+          media_waveform?: number[] | null
+          read_at?: string | null
+          recipient_id?: string | null
+          reply_to_id?: string | null
           sender_id: string
           updated_at?: string
         }
         Update: {
           content?: string | null
+          conversation_id?: string | null
           created_at?: string
+          deleted_at?: string | null
+          delivered_at?: string | null
+          edited_at?: string | null
           id?: string
-          media_type?: string | null
+          image_filename?: string | null
+          image_height?: number | null
+          image_size?: number | null
+          image_thumbnail_url?: string | null
+          image_url?: string | null
+          image_width?: number | null
+          link_preview_url?: string | null
+          media_duration_ms?: number | null
+          media_filename?: string | null
+          media_mime_type?: string | null
+          media_size?: number | null
+          media_type?: string
           media_url?: string | null
-          recipient_id?: string
+          media_waveform?: number[] | null
+          read_at?: string | null
+          recipient_id?: string | null
+          reply_to_id?: string | null
           sender_id?: string
           updated_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "messages_link_preview_url_fkey"
+            columns: ["link_preview_url"]
+            isOneToOne: false
+            referencedRelation: "link_previews"
+            referencedColumns: ["url"]
+          },
+          {
+            foreignKeyName: "messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "messages_reply_to_id_fkey"
+            columns: ["reply_to_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profanity_words: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          kind: string
+          school_id: string | null
+          word: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          kind: string
+          school_id?: string | null
+          word: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          kind?: string
+          school_id?: string | null
+          word?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profanity_words_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "profanity_words_school_id_fkey"
+            columns: ["school_id"]
+            isOneToOne: false
+            referencedRelation: "schools"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rate_limit_buckets: {
+        Row: {
+          bucket: string
+          refilled_at: string
+          tokens: number
+          user_id: string
+        }
+        Insert: {
+          bucket: string
+          refilled_at?: string
+          tokens: number
+          user_id: string
+        }
+        Update: {
+          bucket?: string
+          refilled_at?: string
+          tokens?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rate_limit_buckets_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reports: {
+        Row: {
+          context: Json
+          conversation_id: string | null
+          created_at: string
+          details: string | null
+          id: string
+          message_id: string | null
+          reason: string
+          reported_user_id: string
+          reporter_id: string
+          reporter_seen_at: string | null
+          resolution_note: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          status: Database["public"]["Enums"]["report_status"]
+        }
+        Insert: {
+          context?: Json
+          conversation_id?: string | null
+          created_at?: string
+          details?: string | null
+          id?: string
+          message_id?: string | null
+          reason: string
+          reported_user_id: string
+          reporter_id: string
+          reporter_seen_at?: string | null
+          resolution_note?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: Database["public"]["Enums"]["report_status"]
+        }
+        Update: {
+          context?: Json
+          conversation_id?: string | null
+          created_at?: string
+          details?: string | null
+          id?: string
+          message_id?: string | null
+          reason?: string
+          reported_user_id?: string
+          reporter_id?: string
+          reporter_seen_at?: string | null
+          resolution_note?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: Database["public"]["Enums"]["report_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reports_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reports_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reports_reported_user_id_fkey"
+            columns: ["reported_user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reports_reporter_id_fkey"
+            columns: ["reporter_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reports_resolved_by_fkey"
+            columns: ["resolved_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      schools: {
+        Row: {
+          allow_cross_school_messaging: boolean
+          created_at: string
+          dm_request_cooldown_days: number
+          dm_request_expiry_days: number
+          dm_requests_per_hour: number
+          email_domain: string | null
+          id: string
+          is_default: boolean
+          messages_per_minute: number
+          name: string
+        }
+        Insert: {
+          allow_cross_school_messaging?: boolean
+          created_at?: string
+          dm_request_cooldown_days?: number
+          dm_request_expiry_days?: number
+          dm_requests_per_hour?: number
+          email_domain?: string | null
+          id?: string
+          is_default?: boolean
+          messages_per_minute?: number
+          name: string
+        }
+        Update: {
+          allow_cross_school_messaging?: boolean
+          created_at?: string
+          dm_request_cooldown_days?: number
+          dm_request_expiry_days?: number
+          dm_requests_per_hour?: number
+          email_domain?: string | null
+          id?: string
+          is_default?: boolean
+          messages_per_minute?: number
+          name?: string
+        }
         Relationships: []
       }
       users: {
@@ -131,9 +779,13 @@ export type Database = {
           created_at: string
           email: string
           id: string
+          last_seen_at: string | null
           name: string
           privacy_mode: boolean | null
           profanity_filter_enabled: boolean | null
+          read_receipts_enabled: boolean
+          school_id: string | null
+          show_online_status: boolean
           updated_at: string
         }
         Insert: {
@@ -141,9 +793,13 @@ export type Database = {
           created_at?: string
           email: string
           id: string
+          last_seen_at?: string | null
           name: string
           privacy_mode?: boolean | null
           profanity_filter_enabled?: boolean | null
+          read_receipts_enabled?: boolean
+          school_id?: string | null
+          show_online_status?: boolean
           updated_at?: string
         }
         Update: {
@@ -151,22 +807,370 @@ export type Database = {
           created_at?: string
           email?: string
           id?: string
+          last_seen_at?: string | null
           name?: string
           privacy_mode?: boolean | null
           profanity_filter_enabled?: boolean | null
+          read_receipts_enabled?: boolean
+          school_id?: string | null
+          show_online_status?: boolean
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "users_school_id_fkey"
+            columns: ["school_id"]
+            isOneToOne: false
+            referencedRelation: "schools"
+            referencedColumns: ["id"]
+          },
+        ]
       }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      acknowledge_report: {
+        Args: { p_report_id: string }
+        Returns: undefined
+      }
+      add_conversation_members: {
+        Args: { p_conversation_id: string; p_user_ids: string[] }
+        Returns: undefined
+      }
+      admin_force_privacy_mode: {
+        Args: { p_locked: boolean; p_user_id: string }
+        Returns: undefined
+      }
+      admin_list_users: {
+        Args: { p_search?: string }
+        Returns: {
+          avatar_url: string
+          created_at: string
+          email: string
+          id: string
+          last_seen_at: string
+          name: string
+          privacy_mode: boolean
+          privacy_mode_locked: boolean
+          role: Database["public"]["Enums"]["user_role"]
+          suspended_at: string
+          suspension_reason: string
+        }[]
+      }
+      admin_reset_profile: {
+        Args: { p_user_id: string }
+        Returns: undefined
+      }
+      admin_set_role: {
+        Args: {
+          p_role: Database["public"]["Enums"]["user_role"]
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      admin_set_suspended: {
+        Args: { p_reason?: string; p_suspended: boolean; p_user_id: string }
+        Returns: undefined
+      }
+      admin_update_school: {
+        Args: {
+          p_allow_cross_school_messaging: boolean
+          p_dm_request_cooldown_days: number
+          p_dm_request_expiry_days: number
+          p_dm_requests_per_hour: number
+          p_messages_per_minute: number
+          p_name: string
+        }
+        Returns: undefined
+      }
+      can_view_chat_media: {
+        Args: { p_name: string; p_user_id: string }
+        Returns: boolean
+      }
+      create_group_conversation: {
+        Args: { p_member_ids: string[]; p_name: string }
+        Returns: string
+      }
+      current_user_is_admin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      current_user_is_moderator: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      expire_dm_requests: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      get_admin_stats: {
+        Args: { p_days?: number }
+        Returns: Json
+      }
+      get_blocked_users: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          avatar_url: string
+          blocked_at: string
+          name: string
+          user_id: string
+        }[]
+      }
+      get_conversation_members: {
+        Args: { p_conversation_id: string }
+        Returns: {
+          avatar_url: string
+          joined_at: string
+          name: string
+          role: Database["public"]["Enums"]["conversation_role"]
+          user_id: string
+        }[]
+      }
+      get_conversation_messages: {
+        Args: {
+          p_before_created_at?: string
+          p_before_id?: string
+          p_conversation_id?: string
+          p_limit?: number
+          p_partner_id?: string
+        }
+        Returns: {
+          content: string | null
+          conversation_id: string | null
+          created_at: string
+          deleted_at: string | null
+          delivered_at: string | null
+          edited_at: string | null
+          id: string
+          image_filename: string | null
+          image_height: number | null
+          image_size: number | null
+          image_thumbnail_url: string | null
+          image_url: string | null
+          image_width: number | null
+          link_preview_url: string | null
+          media_duration_ms: number | null
+          media_filename: string | null
+          media_mime_type: string | null
+          media_size: number | null
+          media_type: string
+          media_url: string | null
+          media_waveform: number[] | null
+          read_at: string | null
+          recipient_id: string | null
+          reply_to_id: string | null
+          sender_id: string
+          updated_at: string
+        }[]
+      }
+      get_conversation_role: {
+        Args: { p_conversation_id: string; p_user_id: string }
+        Returns: Database["public"]["Enums"]["conversation_role"]
+      }
+      get_dm_request_cooldown_until: {
+        Args: { p_recipient_id: string; p_sender_id: string }
+        Returns: string
+      }
+      get_inbox: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          avatar_url: string
+          conversation_id: string
+          last_message_at: string
+          last_message_content: string
+          last_message_has_image: boolean
+          last_message_id: string
+          last_message_media_type: string
+          last_message_sender_id: string
+          last_message_sender_name: string
+          name: string
+          partner_id: string
+          unread_count: number
+        }[]
+      }
+      get_outgoing_dm_requests: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          can_resend_at: string
+          created_at: string
+          expires_at: string
+          id: string
+          recipient_avatar_url: string
+          recipient_id: string
+          recipient_name: string
+          status: Database["public"]["Enums"]["dm_request_status"]
+          updated_at: string
+        }[]
+      }
+      get_report_context: {
+        Args: { p_message_id: string; p_radius?: number }
+        Returns: Json
+      }
+      get_reports: {
+        Args: { p_status?: Database["public"]["Enums"]["report_status"] }
+        Returns: {
+          context: Json
+          conversation_id: string
+          conversation_name: string
+          created_at: string
+          details: string
+          id: string
+          message_id: string
+          reason: string
+          reported_user_id: string
+          reported_user_name: string
+          reporter_id: string
+          reporter_name: string
+          resolution_note: string
+          resolved_at: string
+          resolved_by_name: string
+          status: Database["public"]["Enums"]["report_status"]
+        }[]
+      }
+      get_user_role: {
+        Args: { p_user_id: string }
+        Returns: Database["public"]["Enums"]["user_role"]
+      }
+      get_user_school: {
+        Args: { p_user_id: string }
+        Returns: string
+      }
+      has_blocked: {
+        Args: { p_blocked_id: string; p_blocker_id: string }
+        Returns: boolean
+      }
+      has_blocked_user: {
+        Args: { p_user_id: string }
+        Returns: boolean
+      }
+      is_admin: {
+        Args: { p_user_id: string }
+        Returns: boolean
+      }
+      is_admin_of: {
+        Args: { p_admin_id: string; p_user_id: string }
+        Returns: boolean
+      }
+      is_blocked_between: {
+        Args: { p_user_a: string; p_user_b: string }
+        Returns: boolean
+      }
+      is_blocked_by: {
+        Args: { p_user_id: string }
+        Returns: boolean
+      }
+      is_conversation_member: {
+        Args: { p_conversation_id: string; p_user_id: string }
+        Returns: boolean
+      }
+      is_moderator: {
+        Args: { p_user_id: string }
+        Returns: boolean
+      }
+      is_suspended: {
+        Args: { p_user_id: string }
+        Returns: boolean
+      }
+      mark_conversation_read: {
+        Args: { p_partner_id: string }
+        Returns: undefined
+      }
+      mark_group_read: {
+        Args: { p_conversation_id: string }
+        Returns: undefined
+      }
+      mark_messages_delivered: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      remove_conversation_member: {
+        Args: { p_conversation_id: string; p_user_id: string }
+        Returns: undefined
+      }
+      resolve_report: {
+        Args: {
+          p_note?: string
+          p_report_id: string
+          p_status: Database["public"]["Enums"]["report_status"]
+        }
+        Returns: undefined
+      }
+      respond_to_dm_request: {
+        Args: {
+          p_recipient_id: string
+          p_request_id: string
+          p_status: Database["public"]["Enums"]["dm_request_status"]
+        }
+        Returns: {
+          created_at: string
+          id: string
+          note: string | null
+          recipient_id: string
+          sender_id: string
+          status: Database["public"]["Enums"]["dm_request_status"]
+          updated_at: string
+        }[]
+      }
+      same_school: {
+        Args: { p_user_a: string; p_user_b: string }
+        Returns: boolean
+      }
+      schools_can_connect: {
+        Args: { p_user_a: string; p_user_b: string }
+        Returns: boolean
+      }
+      search_messages: {
+        Args: { p_limit?: number; p_query: string }
+        Returns: {
+          avatar_url: string
+          conversation_id: string
+          created_at: string
+          message_id: string
+          name: string
+          partner_id: string
+          sender_id: string
+          sender_name: string
+          snippet: string
+        }[]
+      }
+      set_conversation_member_role: {
+        Args: {
+          p_conversation_id: string
+          p_role: Database["public"]["Enums"]["conversation_role"]
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      submit_report: {
+        Args: {
+          p_details?: string
+          p_message_id?: string
+          p_reason: string
+          p_reported_user_id?: string
+        }
+        Returns: string
+      }
+      take_rate_limit_token: {
+        Args: { p_action: string; p_scope?: string; p_user_id: string }
+        Returns: number
+      }
+      touch_last_seen: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
     }
     Enums: {
-      dm_request_status: "pending" | "accepted" | "rejected"
+      conversation_role: "owner" | "admin" | "member"
+      dm_request_status:
+        | "pending"
+        | "accepted"
+        | "rejected"
+        | "cancelled"
+        | "expired"
+      report_status: "open" | "actioned" | "dismissed"
+      user_role: "student" | "teacher" | "counselor" | "admin"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -294,7 +1298,16 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      dm_request_status: ["pending", "accepted", "rejected"],
+      conversation_role: ["owner", "admin", "member"],
+      dm_request_status: [
+        "pending",
+        "accepted",
+        "rejected",
+        "cancelled",
+        "expired",
+      ],
+      report_status: ["open", "actioned", "dismissed"],
+      user_role: ["student", "teacher", "counselor", "admin"],
     },
   },
 } as const
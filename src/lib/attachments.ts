@@ -0,0 +1,55 @@
+// Documents that can be attached to messages. Must match
+// supabase/functions/_shared/attachments.ts, which has the final say.
+
+export type AttachmentKind = 'pdf' | 'document' | 'spreadsheet' | 'presentation' | 'text';
+
+interface AttachmentType {
+  label: string;
+  kind: AttachmentKind;
+  extensions: string[];
+}
+
+export const ATTACHMENT_TYPES: Record<string, AttachmentType> = {
+  'application/pdf': { label: 'PDF', kind: 'pdf', extensions: ['pdf'] },
+  'application/msword': { label: 'Word', kind: 'document', extensions: ['doc'] },
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': { label: 'Word', kind: 'document', extensions: ['docx'] },
+  'application/vnd.ms-excel': { label: 'Excel', kind: 'spreadsheet', extensions: ['xls'] },
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': { label: 'Excel', kind: 'spreadsheet', extensions: ['xlsx'] },
+  'application/vnd.ms-powerpoint': { label: 'PowerPoint', kind: 'presentation', extensions: ['ppt'] },
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': { label: 'PowerPoint', kind: 'presentation', extensions: ['pptx'] },
+  'application/vnd.oasis.opendocument.text': { label: 'OpenDocument', kind: 'document', extensions: ['odt'] },
+  'application/vnd.oasis.opendocument.spreadsheet': { label: 'OpenDocument', kind: 'spreadsheet', extensions: ['ods'] },
+  'application/vnd.oasis.opendocument.presentation': { label: 'OpenDocument', kind: 'presentation', extensions: ['odp'] },
+  'application/rtf': { label: 'Rich text', kind: 'document', extensions: ['rtf'] },
+  'text/plain': { label: 'Text', kind: 'text', extensions: ['txt'] },
+  'text/csv': { label: 'CSV', kind: 'spreadsheet', extensions: ['csv'] },
+};
+
+export const MAX_ATTACHMENT_BYTES = 25 * 1024 * 1024;
+
+// For the file input's accept attribute
+export const ATTACHMENT_ACCEPT = Object.entries(ATTACHMENT_TYPES)
+  .flatMap(([mimeType, { extensions }]) => [mimeType, ...extensions.map(extension => `.${extension}`)])
+  .join(',');
+
+export const getExtension = (name: string) => {
+  const dot = name.lastIndexOf('.');
+  return dot === -1 ? '' : name.slice(dot + 1).toLowerCase();
+};
+
+// The MIME type to upload a file as, or null if it can't be attached. Browsers
+// don't always know document types (file.type is often empty for .docx on
+// Windows), so the extension decides and a reported type has to agree with it.
+export const getAttachmentMimeType = (file: File) => {
+  const extension = getExtension(file.name);
+  const match = Object.entries(ATTACHMENT_TYPES).find(([, { extensions }]) => extensions.includes(extension));
+  if (!match) return null;
+  const [mimeType] = match;
+  return !file.type || file.type === mimeType ? mimeType : null;
+};
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
@@ -0,0 +1,83 @@
+// Voice messages are recorded with MediaRecorder and measured in the browser:
+// the duration and a coarse waveform travel with the message so the player can
+// be drawn before the audio itself has loaded.
+
+export interface VoiceRecording {
+  blob: Blob;
+  durationMs: number;
+  // Peak levels, 0-100, one per bar
+  waveform: number[] | null;
+  // Extension matching blob.type
+  extension: string;
+}
+
+// Must match the limits sanitize-message enforces
+export const MAX_VOICE_MESSAGE_SECONDS = 300;
+export const MAX_VOICE_MESSAGE_BYTES = 10 * 1024 * 1024;
+
+export const WAVEFORM_BARS = 48;
+
+// First container the browser can record; Safari only does mp4
+const RECORDING_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/ogg;codecs=opus', 'audio/mp4'];
+
+export const getRecordingMimeType = () =>
+  RECORDING_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+
+const EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a',
+};
+
+// Storage wants the bare type, without codec parameters
+export const baseMimeType = (type: string) => type.split(';')[0].trim();
+
+export const formatDuration = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+const computeWaveform = (buffer: AudioBuffer) => {
+  const samples = buffer.getChannelData(0);
+  const samplesPerBar = Math.max(1, Math.floor(samples.length / WAVEFORM_BARS));
+  const peaks: number[] = [];
+  for (let bar = 0; bar < WAVEFORM_BARS; bar++) {
+    let peak = 0;
+    const end = Math.min(samples.length, (bar + 1) * samplesPerBar);
+    for (let i = bar * samplesPerBar; i < end; i++) {
+      peak = Math.max(peak, Math.abs(samples[i]));
+    }
+    peaks.push(peak);
+  }
+  // Scale to the loudest bar so quiet recordings still show a shape
+  const loudest = Math.max(...peaks, 0.01);
+  return peaks.map(peak => Math.round((peak / loudest) * 100));
+};
+
+// Decodes the recording for its real duration and waveform. Some browsers can't
+// decode what they record, so the recorder's elapsed time is the fallback.
+// Recordings stopped at the limit run a little past it; the duration is capped.
+export const prepareVoiceRecording = async (blob: Blob, elapsedMs: number): Promise<VoiceRecording> => {
+  const type = baseMimeType(blob.type);
+  const recording = {
+    blob: type === blob.type ? blob : new Blob([blob], { type }),
+    extension: EXTENSIONS[type] ?? 'webm',
+  };
+
+  const context = new AudioContext();
+  try {
+    const buffer = await context.decodeAudioData(await blob.arrayBuffer());
+    return {
+      ...recording,
+      durationMs: Math.min(Math.round(buffer.duration * 1000) || elapsedMs, MAX_VOICE_MESSAGE_SECONDS * 1000),
+      waveform: computeWaveform(buffer),
+    };
+  } catch (error) {
+    console.error('Could not decode voice message:', error);
+    return { ...recording, durationMs: Math.min(elapsedMs, MAX_VOICE_MESSAGE_SECONDS * 1000), waveform: null };
+  } finally {
+    context.close();
+  }
+};
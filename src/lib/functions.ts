@@ -0,0 +1,20 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+
+// Edge functions answer failures with { error: string }; supabase-js only
+// exposes a generic message, so read the body when there is one
+export const getFunctionErrorMessage = async (error: unknown, fallback: string) => {
+  if (error instanceof FunctionsHttpError) {
+    const body = await error.context.json().catch(() => null);
+    if (typeof body?.error === 'string') return body.error;
+  }
+  return fallback;
+};
+
+// Seconds to wait after a rate-limited (429) call, from its Retry-After header
+export const getRetryAfterSeconds = (error: unknown) => {
+  if (error instanceof FunctionsHttpError && error.context.status === 429) {
+    const seconds = Number(error.context.headers.get('Retry-After'));
+    if (Number.isFinite(seconds) && seconds > 0) return seconds;
+  }
+  return null;
+};
@@ -0,0 +1,144 @@
+// Photos are redrawn onto a canvas before upload. That drops EXIF and other
+// metadata (GPS location, camera details), applies the orientation the photo
+// was taken in and shrinks it to a sensible size.
+
+export interface ProcessedImage {
+  blob: Blob;
+  width: number;
+  height: number;
+  // Extension matching blob.type
+  extension: string;
+}
+
+export interface ChatImage {
+  image: ProcessedImage;
+  // Smaller copy shown in the message list; null when the image is already small
+  thumbnail: ProcessedImage | null;
+}
+
+// Longest side, in pixels
+export const MAX_IMAGE_DIMENSION = 2048;
+export const THUMBNAIL_DIMENSION = 480;
+export const AVATAR_DIMENSION = 512;
+
+const JPEG_QUALITY = 0.85;
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Could not encode image'))),
+      type,
+      JPEG_QUALITY
+    );
+  });
+
+export const processImage = async (file: Blob, maxDimension: number): Promise<ProcessedImage> => {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  try {
+    const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Could not process image');
+
+    // PNGs may be transparent; everything else is stored as JPEG
+    const type = file.type === 'image/png' ? 'image/png' : 'image/jpeg';
+    if (type === 'image/jpeg') {
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, width, height);
+    }
+    context.drawImage(bitmap, 0, 0, width, height);
+
+    return { blob: await canvasToBlob(canvas, type), width, height, extension: type === 'image/png' ? 'png' : 'jpg' };
+  } finally {
+    bitmap.close();
+  }
+};
+
+// Application extensions that only control animation looping; every other
+// application extension (XMP, ICC profiles, editor data) is dropped
+const GIF_LOOP_EXTENSIONS = ['NETSCAPE2.0', 'ANIMEXTS1.0'];
+
+// Copies a GIF without its comment blocks and metadata application extensions.
+// Redrawing would keep only the first frame, so the blocks are filtered instead.
+const stripGifMetadata = (bytes: Uint8Array): Uint8Array => {
+  const invalid = () => new Error('Could not process image');
+  const header = String.fromCharCode(...bytes.subarray(0, 6));
+  if (header !== 'GIF87a' && header !== 'GIF89a') throw invalid();
+
+  const colorTableSize = (packed: number) => (packed & 0x80 ? 3 * 2 ** ((packed & 0x07) + 1) : 0);
+
+  // Returns the offset just past a run of data sub-blocks and its terminator
+  const skipSubBlocks = (offset: number) => {
+    while (offset < bytes.length && bytes[offset] !== 0) {
+      offset += bytes[offset] + 1;
+    }
+    if (offset >= bytes.length) throw invalid();
+    return offset + 1;
+  };
+
+  const kept: Uint8Array[] = [];
+  // Header, logical screen descriptor and global color table
+  let offset = 13 + colorTableSize(bytes[10]);
+  if (offset > bytes.length) throw invalid();
+  kept.push(bytes.subarray(0, offset));
+
+  while (offset < bytes.length) {
+    const start = offset;
+    const introducer = bytes[offset];
+
+    if (introducer === 0x3b) {
+      kept.push(bytes.subarray(offset, offset + 1));
+      break;
+    }
+
+    if (introducer === 0x2c) {
+      // Image descriptor, local color table, LZW code size, image data
+      offset += 10 + colorTableSize(bytes[offset + 9]) + 1;
+      offset = skipSubBlocks(offset);
+      kept.push(bytes.subarray(start, offset));
+      continue;
+    }
+
+    if (introducer !== 0x21) throw invalid();
+
+    const label = bytes[offset + 1];
+    offset = skipSubBlocks(offset + 2);
+    const identifier = String.fromCharCode(...bytes.subarray(start + 3, start + 14));
+    const isMetadata = label === 0xfe || (label === 0xff && !GIF_LOOP_EXTENSIONS.includes(identifier));
+    if (!isMetadata) kept.push(bytes.subarray(start, offset));
+  }
+
+  const output = new Uint8Array(kept.reduce((total, block) => total + block.length, 0));
+  let position = 0;
+  for (const block of kept) {
+    output.set(block, position);
+    position += block.length;
+  }
+  return output;
+};
+
+const prepareGif = async (file: Blob): Promise<ProcessedImage> => {
+  const bitmap = await createImageBitmap(file);
+  const size = { width: bitmap.width, height: bitmap.height };
+  bitmap.close();
+  const stripped = stripGifMetadata(new Uint8Array(await file.arrayBuffer()));
+  return { blob: new Blob([stripped], { type: 'image/gif' }), ...size, extension: 'gif' };
+};
+
+export const prepareChatImage = async (file: File): Promise<ChatImage> => {
+  if (file.type === 'image/gif') {
+    return { image: await prepareGif(file), thumbnail: null };
+  }
+
+  const image = await processImage(file, MAX_IMAGE_DIMENSION);
+  const needsThumbnail = Math.max(image.width, image.height) > THUMBNAIL_DIMENSION;
+  return {
+    image,
+    thumbnail: needsThumbnail ? await processImage(image.blob, THUMBNAIL_DIMENSION) : null,
+  };
+};
@@ -0,0 +1,25 @@
+// Links in message text. Must match the pattern in the unfurl-link edge function.
+const LINK_PATTERN = /\bhttps?:\/\/[^\s<>"]+/gi;
+// Sentence punctuation right after a link isn't part of it
+const TRAILING_PUNCTUATION = /[.,!?;:'")\]]+$/;
+
+export type TextPart = { type: 'text'; text: string } | { type: 'link'; text: string };
+
+// Splits text into plain runs and links, in order
+export const splitLinks = (text: string): TextPart[] => {
+  const parts: TextPart[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(LINK_PATTERN)) {
+    const link = match[0].replace(TRAILING_PUNCTUATION, '');
+    const start = match.index ?? 0;
+    if (start > lastIndex) parts.push({ type: 'text', text: text.slice(lastIndex, start) });
+    parts.push({ type: 'link', text: link });
+    lastIndex = start + link.length;
+  }
+
+  if (lastIndex < text.length) parts.push({ type: 'text', text: text.slice(lastIndex) });
+  return parts;
+};
+
+export const hasLink = (text?: string | null) => !!text && /\bhttps?:\/\//i.test(text);
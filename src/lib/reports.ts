@@ -0,0 +1,20 @@
+import type { Database } from '@/integrations/supabase/types';
+
+export type ReportStatus = Database['public']['Enums']['report_status'];
+
+export const reportReasons = [
+  { value: 'harassment', label: 'Harassment or threats' },
+  { value: 'bullying', label: 'Bullying' },
+  { value: 'inappropriate', label: 'Inappropriate content' },
+  { value: 'spam', label: 'Spam' },
+  { value: 'other', label: 'Something else' },
+];
+
+export const getReasonLabel = (reason: string) =>
+  reportReasons.find(option => option.value === reason)?.label ?? reason;
+
+export const reportStatusLabels: Record<ReportStatus, string> = {
+  open: 'Open',
+  actioned: 'Actioned',
+  dismissed: 'Dismissed',
+};
@@ -0,0 +1,10 @@
+import type { Database } from '@/integrations/supabase/types';
+
+export type UserRole = Database['public']['Enums']['user_role'];
+
+export const roleLabels: Record<UserRole, string> = {
+  student: 'Student',
+  teacher: 'Teacher',
+  counselor: 'Counselor',
+  admin: 'Admin',
+};
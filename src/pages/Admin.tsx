@@ -0,0 +1,66 @@
+import { Card, CardContent } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ShieldAlert } from 'lucide-react';
+import AdminStats from '@/components/AdminStats';
+import AdminUserTable from '@/components/AdminUserTable';
+import ProfanityWordsCard from '@/components/ProfanityWordsCard';
+import ReportQueue from '@/components/ReportQueue';
+import SchoolSettingsCard from '@/components/SchoolSettingsCard';
+import { useUserRole } from '@/hooks/use-user-role';
+
+const Admin = () => {
+  const { isAdmin, loading } = useUserRole();
+
+  if (loading) {
+    return (
+      <div className="container mx-auto p-4">
+        <div className="animate-pulse">
+          <div className="h-8 bg-muted rounded mb-4"></div>
+          <div className="h-32 bg-muted rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="container mx-auto p-4 max-w-3xl">
+        <Card>
+          <CardContent className="py-8 text-center">
+            <ShieldAlert className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">Only admins can open the dashboard.</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-4 max-w-5xl space-y-4">
+      <h1 className="text-2xl font-bold">Admin</h1>
+      <Tabs defaultValue="overview">
+        <TabsList>
+          <TabsTrigger value="overview">Overview</TabsTrigger>
+          <TabsTrigger value="users">Users</TabsTrigger>
+          <TabsTrigger value="reports">Reports</TabsTrigger>
+          <TabsTrigger value="school">School</TabsTrigger>
+        </TabsList>
+        <TabsContent value="overview">
+          <AdminStats />
+        </TabsContent>
+        <TabsContent value="users">
+          <AdminUserTable />
+        </TabsContent>
+        <TabsContent value="reports">
+          <ReportQueue />
+        </TabsContent>
+        <TabsContent value="school" className="space-y-4">
+          <SchoolSettingsCard />
+          <ProfanityWordsCard />
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+};
+
+export default Admin;
@@ -0,0 +1,214 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import ChatWindow from '@/components/ChatWindow';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Inbox as InboxIcon, Users as UsersIcon } from 'lucide-react';
+import CreateGroupDialog from '@/components/CreateGroupDialog';
+import OnlineIndicator from '@/components/OnlineIndicator';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { useNotifications } from '@/context/NotificationsContext';
+
+// Direct conversations have a partner_id, group conversations a conversation_id
+interface Conversation {
+  partner_id?: string;
+  conversation_id?: string;
+  name: string;
+  avatar_url?: string;
+  last_message_id?: string;
+  last_message_content?: string;
+  last_message_media_type?: string;
+  last_message_has_image: boolean;
+  last_message_sender_id?: string;
+  last_message_sender_name?: string;
+  last_message_at: string;
+  unread_count: number;
+}
+
+const getSnippet = (conversation: Conversation, currentUserId?: string) => {
+  if (!conversation.last_message_id) return 'No messages yet';
+
+  let snippet = conversation.last_message_content?.trim();
+  if (!snippet) {
+    if (conversation.last_message_has_image) snippet = 'Sent a photo';
+    else if (conversation.last_message_media_type === 'gif') snippet = 'Sent a GIF';
+    else if (conversation.last_message_media_type === 'audio') snippet = 'Sent a voice message';
+    else if (conversation.last_message_media_type === 'file') snippet = 'Sent a file';
+    else snippet = 'Sent a message';
+  }
+  if (conversation.last_message_sender_id === currentUserId) return `You: ${snippet}`;
+  if (conversation.conversation_id && conversation.last_message_sender_name) {
+    return `${conversation.last_message_sender_name}: ${snippet}`;
+  }
+  return snippet;
+};
+
+const Inbox = () => {
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
+  const [selectedGroupId, setSelectedGroupId] = useState<string | null>(null);
+  const [focusMessageId, setFocusMessageId] = useState<string | null>(null);
+  const [createGroupOpen, setCreateGroupOpen] = useState(false);
+  const { user: currentUser, loading: authLoading } = useAuth();
+  const { toast } = useToast();
+  const { latestMessage, clearMessageNotifications } = useNotifications();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  useEffect(() => {
+    const chatWith = searchParams.get('chatWith');
+    const groupId = searchParams.get('group');
+    if (chatWith || groupId) {
+      setSelectedUserId(chatWith);
+      setSelectedGroupId(groupId);
+      setFocusMessageId(searchParams.get('message'));
+      searchParams.delete('chatWith');
+      searchParams.delete('group');
+      searchParams.delete('message');
+      setSearchParams(searchParams);
+    }
+  }, [searchParams, setSearchParams]);
+
+  const fetchConversations = useCallback(async () => {
+    if (!currentUser) return;
+
+    try {
+      const { data, error } = await supabase.rpc('get_inbox');
+      if (error) throw error;
+      setConversations(data || []);
+    } catch (error) {
+      console.error('Error fetching conversations:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load conversations',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [currentUser, toast]);
+
+  // Refetch when a chat is closed and whenever a message arrives over realtime
+  useEffect(() => {
+    if (!authLoading && currentUser && !selectedUserId && !selectedGroupId) {
+      fetchConversations();
+    }
+  }, [authLoading, currentUser, selectedUserId, selectedGroupId, latestMessage, fetchConversations]);
+
+  const handleOpenConversation = (conversation: Conversation) => {
+    if (conversation.conversation_id) {
+      clearMessageNotifications(conversation.conversation_id);
+      setSelectedGroupId(conversation.conversation_id);
+    } else {
+      clearMessageNotifications(conversation.partner_id);
+      setSelectedUserId(conversation.partner_id);
+    }
+  };
+
+  if (selectedUserId || selectedGroupId) {
+    return (
+      <div className="container mx-auto p-4 max-w-4xl">
+        <ChatWindow
+          recipientId={selectedUserId ?? undefined}
+          conversationId={selectedGroupId ?? undefined}
+          focusMessageId={focusMessageId ?? undefined}
+          onBack={() => {
+            setSelectedUserId(null);
+            setSelectedGroupId(null);
+            setFocusMessageId(null);
+          }}
+        />
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="container mx-auto p-4">
+        <div className="animate-pulse space-y-4">
+          {[...Array(5)].map((_, i) => (
+            <div key={i} className="h-16 bg-muted rounded-lg"></div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-4 max-w-4xl">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center space-x-2">
+              <InboxIcon className="h-6 w-6" />
+              <span>Inbox</span>
+            </CardTitle>
+            <Button size="sm" variant="outline" onClick={() => setCreateGroupOpen(true)}>
+              <UsersIcon className="h-4 w-4 mr-2" />
+              New group
+            </Button>
+          </div>
+          <CreateGroupDialog
+            open={createGroupOpen}
+            onOpenChange={setCreateGroupOpen}
+            onCreated={setSelectedGroupId}
+          />
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-3">
+            {conversations.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">
+                No conversations yet. Find a student to start chatting!
+              </p>
+            ) : (
+              conversations.map((conversation) => (
+                <button
+                  key={conversation.conversation_id ?? conversation.partner_id}
+                  onClick={() => handleOpenConversation(conversation)}
+                  className="w-full flex items-center justify-between p-3 rounded-lg border border-border hover:bg-accent transition-colors text-left"
+                >
+                  <div className="flex items-center space-x-3 min-w-0">
+                    <div className="relative">
+                      <Avatar className="h-10 w-10">
+                        <AvatarImage src={conversation.avatar_url} />
+                        <AvatarFallback>
+                          {conversation.name?.charAt(0).toUpperCase() || 'U'}
+                        </AvatarFallback>
+                      </Avatar>
+                      {conversation.partner_id && <OnlineIndicator userId={conversation.partner_id} />}
+                    </div>
+                    <div className="min-w-0">
+                      <p className={`text-foreground truncate ${conversation.unread_count > 0 ? 'font-semibold' : 'font-medium'}`}>
+                        {conversation.name}
+                      </p>
+                      <p className="text-sm text-muted-foreground truncate">
+                        {getSnippet(conversation, currentUser?.id)}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex flex-col items-end space-y-1 ml-3 shrink-0">
+                    <span className="text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(conversation.last_message_at), { addSuffix: true })}
+                    </span>
+                    {conversation.unread_count > 0 && (
+                      <Badge className="h-5 min-w-5 justify-center px-1.5">
+                        {conversation.unread_count}
+                      </Badge>
+                    )}
+                  </div>
+                </button>
+              ))
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Inbox;
@@ -0,0 +1,30 @@
+import { Card, CardContent } from '@/components/ui/card';
+import { ShieldAlert } from 'lucide-react';
+import ReportQueue from '@/components/ReportQueue';
+import { useIsModerator } from '@/hooks/use-moderator';
+
+const Moderation = () => {
+  const isModerator = useIsModerator();
+
+  if (!isModerator) {
+    return (
+      <div className="container mx-auto p-4 max-w-3xl">
+        <Card>
+          <CardContent className="py-8 text-center">
+            <ShieldAlert className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">Only moderators can view the review queue.</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-4 max-w-3xl space-y-4">
+      <h1 className="text-2xl font-bold">Moderation</h1>
+      <ReportQueue />
+    </div>
+  );
+};
+
+export default Moderation;
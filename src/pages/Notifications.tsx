@@ -1,10 +1,23 @@
 import Notifications from '@/components/Notifications';
+import OutgoingRequests from '@/components/OutgoingRequests';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 
 const NotificationsPage = () => {
   return (
     <div className="container mx-auto p-4 max-w-2xl">
       <h1 className="text-2xl font-bold mb-4">Notifications</h1>
-      <Notifications />
+      <Tabs defaultValue="inbox">
+        <TabsList className="mb-4">
+          <TabsTrigger value="inbox">Inbox</TabsTrigger>
+          <TabsTrigger value="outgoing">Outgoing requests</TabsTrigger>
+        </TabsList>
+        <TabsContent value="inbox">
+          <Notifications />
+        </TabsContent>
+        <TabsContent value="outgoing">
+          <OutgoingRequests />
+        </TabsContent>
+      </Tabs>
     </div>
   );
 };
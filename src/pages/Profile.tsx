@@ -10,6 +10,9 @@ import { Camera, Save, Shield, Filter, Settings } from 'lucide-react';
 import { useAuth } from '@/hooks/use-auth';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { usePresence } from '@/context/PresenceContext';
+import BlockedUsersCard from '@/components/BlockedUsersCard';
+import { AVATAR_DIMENSION, processImage } from '@/lib/image';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -28,11 +31,15 @@ interface UserProfile {
   avatar_url?: string;
   profanity_filter_enabled: boolean;
   privacy_mode: boolean;
+  privacy_mode_locked: boolean;
+  read_receipts_enabled: boolean;
+  show_online_status: boolean;
 }
 
 const Profile = () => {
   const { user } = useAuth();
   const { toast } = useToast();
+  const { setSharingEnabled } = usePresence();
   const [profile, setProfile] = useState<UserProfile | null>(null);
   const [uploading, setUploading] = useState(false);
   const [activeTab, setActiveTab] = useState<'profile' | 'settings'>('profile');
@@ -56,15 +63,16 @@ const Profile = () => {
     if (!user) return;
 
     try {
-      const { data, error } = await supabase
-        .from('users')
-        .select('*')
-        .eq('id', user.id)
-        .single();
+      // Admin restrictions are kept apart from the profile, which others can read
+      const [{ data, error }, { data: status, error: statusError }] = await Promise.all([
+        supabase.from('users').select('*').eq('id', user.id).single(),
+        supabase.from('account_status').select('privacy_mode_locked').eq('user_id', user.id).maybeSingle(),
+      ]);
 
       if (error) throw error;
-      
-      setProfile(data);
+      if (statusError) throw statusError;
+
+      setProfile({ ...data, privacy_mode_locked: !!status?.privacy_mode_locked });
       form.reset({ name: data.name });
     } catch (error) {
       console.error('Error fetching profile:', error);
@@ -151,10 +159,11 @@ const Profile = () => {
       return;
     }
 
-    if (file.size > 2 * 1024 * 1024) {
+    // Resized before upload, so only absurdly large files are turned away
+    if (file.size > 20 * 1024 * 1024) {
       toast({
         title: 'Error',
-        description: 'Image must be less than 2MB',
+        description: 'Image must be less than 20MB',
         variant: 'destructive',
       });
       return;
@@ -162,20 +171,22 @@ const Profile = () => {
 
     setUploading(true);
     try {
-      const fileExt = file.name.split('.').pop();
-      const fileName = `avatar.${fileExt}`;
-      const filePath = `avatars/${user.id}/${fileName}`;
+      // Strips location and camera metadata and shrinks the photo
+      const avatar = await processImage(file, AVATAR_DIMENSION);
+      const fileName = `avatar.${avatar.extension}`;
+      // The avatars bucket only accepts uploads under the uploader's own folder
+      const filePath = `${user.id}/${fileName}`;
 
       // Upload to storage
       const { error: uploadError } = await supabase.storage
-        .from('chat-images')
-        .upload(filePath, file, { upsert: true });
+        .from('avatars')
+        .upload(filePath, avatar.blob, { upsert: true, contentType: avatar.blob.type });
 
       if (uploadError) throw uploadError;
 
       // Get public URL
       const { data: { publicUrl } } = supabase.storage
-        .from('chat-images')
+        .from('avatars')
         .getPublicUrl(filePath);
 
       // Update user profile
@@ -213,7 +224,10 @@ const Profile = () => {
     }
   };
 
-  const updateSetting = async (field: 'profanity_filter_enabled' | 'privacy_mode', value: boolean) => {
+  const updateSetting = async (
+    field: 'profanity_filter_enabled' | 'privacy_mode' | 'read_receipts_enabled' | 'show_online_status',
+    value: boolean
+  ) => {
     if (!user || !profile) return;
 
     try {
@@ -225,6 +239,7 @@ const Profile = () => {
       if (error) throw error;
 
       setProfile({ ...profile, [field]: value });
+      if (field === 'show_online_status') setSharingEnabled(value);
       toast({
         title: 'Success',
         description: 'Settings updated successfully',
@@ -385,12 +400,41 @@ const Profile = () => {
                 <div className="space-y-0.5">
                   <Label className="text-base">Privacy Mode</Label>
                   <p className="text-sm text-muted-foreground">
-                    Hide from user search and require DM requests to message you
+                    {profile.privacy_mode_locked
+                      ? 'Turned on by a school admin for your account'
+                      : 'Hide from user search and require DM requests to message you'}
                   </p>
                 </div>
                 <Switch
                   checked={profile.privacy_mode}
                   onCheckedChange={(checked) => updateSetting('privacy_mode', checked)}
+                  disabled={profile.privacy_mode_locked}
+                />
+              </div>
+              <Separator />
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label className="text-base">Read Receipts</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Let others see when you have read their messages
+                  </p>
+                </div>
+                <Switch
+                  checked={profile.read_receipts_enabled}
+                  onCheckedChange={(checked) => updateSetting('read_receipts_enabled', checked)}
+                />
+              </div>
+              <Separator />
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label className="text-base">Online Status</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Show when you are online and when you were last seen
+                  </p>
+                </div>
+                <Switch
+                  checked={profile.show_online_status}
+                  onCheckedChange={(checked) => updateSetting('show_online_status', checked)}
                 />
               </div>
               <Separator />
@@ -413,6 +457,12 @@ const Profile = () => {
           </CardContent>
         </Card>
       )}
+
+      {activeTab === 'settings' && (
+        <div className="mt-6">
+          <BlockedUsersCard />
+        </div>
+      )}
     </div>
   );
 };
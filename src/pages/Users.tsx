@@ -5,10 +5,21 @@ import ChatWindow from '@/components/ChatWindow';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { MessageCircle, Search, Users as UsersIcon } from 'lucide-react';
+import { Ban, Flag, MessageCircle, MoreVertical, Search, ShieldOff, Undo2, Users as UsersIcon } from 'lucide-react';
 import { Input } from '@/components/ui/input';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { useAuth } from '@/hooks/use-auth';
 import { useToast } from '@/hooks/use-toast';
+import OnlineIndicator from '@/components/OnlineIndicator';
+import { useBlockedUsers } from '@/hooks/use-blocked-users';
+import ReportDialog, { ReportTarget } from '@/components/ReportDialog';
+import DmRequestDialog from '@/components/DmRequestDialog';
+import { getFunctionErrorMessage } from '@/lib/functions';
 
 interface User {
   id: string;
@@ -16,17 +27,24 @@ interface User {
   email?: string; // Made optional since RLS now protects email access
   avatar_url?: string;
   privacy_mode?: boolean;
+  school_id?: string;
+  school?: { name: string } | null;
   request_status?: 'none' | 'pending' | 'sent';
 }
 
 const Users = () => {
   const [users, setUsers] = useState<User[]>([]);
+  const [schoolId, setSchoolId] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [loading, setLoading] = useState(true);
-  const [pendingRequests, setPendingRequests] = useState<Set<string>>(new Set());
+  // Recipient id -> id of the pending request we sent them
+  const [pendingRequests, setPendingRequests] = useState<Map<string, string>>(new Map());
   const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
   const { user: currentUser, loading: authLoading } = useAuth();
   const { toast } = useToast();
+  const { isBlocked, blockUser, unblockUser } = useBlockedUsers();
+  const [reportTarget, setReportTarget] = useState<ReportTarget | null>(null);
+  const [requestRecipient, setRequestRecipient] = useState<User | null>(null);
   const [searchParams, setSearchParams] = useSearchParams();
 
   useEffect(() => {
@@ -54,14 +72,19 @@ const Users = () => {
 
     try {
       // Only fetch basic user info (name, avatar_url) for discovery
-      // Email is now protected by RLS policies
-      const { data, error } = await supabase
-        .from('users')
-        .select('id, name, avatar_url, privacy_mode')
-        .neq('id', currentUser.id); // Exclude current user
+      // Email is now protected by RLS policies, and users from other schools
+      // only show up when both schools allow cross-school messaging
+      const [{ data, error }, { data: me }] = await Promise.all([
+        supabase
+          .from('users')
+          .select('id, name, avatar_url, privacy_mode, school_id, school:schools(name)')
+          .neq('id', currentUser.id), // Exclude current user
+        supabase.from('users').select('school_id').eq('id', currentUser.id).single(),
+      ]);
 
       if (error) throw error;
       setUsers(data || []);
+      setSchoolId(me?.school_id ?? null);
     } catch (error) {
       console.error('Error fetching users:', error);
       toast({
@@ -80,14 +103,13 @@ const Users = () => {
     try {
       const { data, error } = await supabase
         .from('dm_requests')
-        .select('recipient_id')
+        .select('id, recipient_id')
         .eq('sender_id', currentUser.id)
         .eq('status', 'pending');
 
       if (error) throw error;
       
-      const pendingIds = new Set(data.map(req => req.recipient_id));
-      setPendingRequests(pendingIds);
+      setPendingRequests(new Map(data.map(req => [req.recipient_id, req.id])));
     } catch (error) {
       console.error('Error fetching pending requests:', error);
     }
@@ -110,6 +132,45 @@ const Users = () => {
     return searchMatch;
   });
 
+  const handleBlock = async (user: User) => {
+    if (await blockUser(user.id)) {
+      toast({ title: 'User blocked', description: `${user.name} can no longer message you.` });
+    }
+  };
+
+  const handleUnblock = async (user: User) => {
+    if (await unblockUser(user.id)) {
+      toast({ title: 'User unblocked', description: `${user.name} can message you again.` });
+    }
+  };
+
+  const handleWithdrawRequest = async (user: User) => {
+    const requestId = pendingRequests.get(user.id);
+    if (!requestId) return;
+
+    const { error } = await supabase.functions.invoke('dm-request', {
+      body: { action: 'cancel', request_id: requestId },
+    });
+
+    if (error) {
+      console.error('Error withdrawing DM request:', error);
+      toast({
+        title: 'Error',
+        description: await getFunctionErrorMessage(error, 'Failed to withdraw DM request'),
+        variant: 'destructive',
+      });
+      fetchPendingRequests();
+      return;
+    }
+
+    setPendingRequests(prev => {
+      const next = new Map(prev);
+      next.delete(user.id);
+      return next;
+    });
+    toast({ title: 'Request withdrawn', description: `Your DM request to ${user.name} was withdrawn.` });
+  };
+
   const handleStartChat = async (userId: string) => {
     // Check if recipient has privacy mode enabled
     const recipient = users.find(u => u.id === userId);
@@ -126,40 +187,7 @@ const Users = () => {
         .single();
 
       if (!allowedContact) {
-        // Send DM request
-        try {
-          const { error } = await supabase.functions.invoke('dm-request', {
-            body: {
-              action: 'send',
-              sender_id: currentUser!.id,
-              recipient_id: userId
-            }
-          });
-
-          if (error) throw error;
-
-          toast({
-            title: 'DM Request Sent',
-            description: `DM request sent to ${recipient.name}. Wait for their response.`,
-          });
-          
-          // Add to pending requests
-          setPendingRequests(prev => new Set([...prev, userId]));
-        } catch (error: any) {
-          console.error('Error sending DM request:', error);
-          if (error.message?.includes('DM request already sent')) {
-            toast({
-              title: 'Request Already Sent',
-              description: 'You already sent a DM request to this user.',
-            });
-          } else {
-            toast({
-              title: 'Error',
-              description: 'Failed to send DM request',
-              variant: 'destructive',
-            });
-          }
-        }
+        setRequestRecipient(recipient);
         return;
       }
     }
@@ -168,6 +196,48 @@ const Users = () => {
     setSelectedUserId(userId);
   };
 
+  const sendDmRequest = async (note: string) => {
+    if (!requestRecipient) return false;
+
+    try {
+      const { data: result, error } = await supabase.functions.invoke('dm-request', {
+        body: {
+          action: 'send',
+          sender_id: currentUser!.id,
+          recipient_id: requestRecipient.id,
+          note,
+        }
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: 'DM Request Sent',
+        description: `DM request sent to ${requestRecipient.name}. Wait for their response.`,
+      });
+
+      // Add to pending requests
+      setPendingRequests(prev => new Map(prev).set(requestRecipient.id, result.data.id));
+      return true;
+    } catch (error) {
+      console.error('Error sending DM request:', error);
+      const message = await getFunctionErrorMessage(error, 'Failed to send DM request');
+      if (message.includes('DM request already sent')) {
+        toast({
+          title: 'Request Already Sent',
+          description: 'You already sent a DM request to this user.',
+        });
+        return true;
+      }
+      toast({
+        title: 'Error',
+        description: message,
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
   if (loading) {
     return (
       <div className="container mx-auto p-4">
@@ -222,42 +292,91 @@ const Users = () => {
                   className="flex items-center justify-between p-3 rounded-lg border border-border hover:bg-accent transition-colors"
                 >
                   <div className="flex items-center space-x-3">
-                    <Avatar className="h-10 w-10">
-                      <AvatarImage src={user.avatar_url} />
-                      <AvatarFallback>
-                        {user.name.charAt(0).toUpperCase()}
-                      </AvatarFallback>
-                    </Avatar>
+                    <div className="relative">
+                      <Avatar className="h-10 w-10">
+                        <AvatarImage src={user.avatar_url} />
+                        <AvatarFallback>
+                          {user.name.charAt(0).toUpperCase()}
+                        </AvatarFallback>
+                      </Avatar>
+                      <OnlineIndicator userId={user.id} />
+                    </div>
                     <div>
                       <p className="font-medium text-foreground">{user.name}</p>
-                      {user.privacy_mode && (
+                      {user.school_id !== schoolId && user.school && (
+                        <p className="text-xs text-muted-foreground">{user.school.name}</p>
+                      )}
+                      {isBlocked(user.id) ? (
+                        <p className="text-xs text-destructive">Blocked</p>
+                      ) : user.privacy_mode && (
                         <p className="text-xs text-muted-foreground">Private user</p>
                       )}
                     </div>
                   </div>
-                  <Button
-                    size="sm"
-                    onClick={() => handleStartChat(user.id)}
-                    className="flex items-center space-x-2"
-                    disabled={user.privacy_mode && pendingRequests.has(user.id)}
-                    variant={user.privacy_mode && pendingRequests.has(user.id) ? "secondary" : "default"}
-                  >
-                    <MessageCircle className="h-4 w-4" />
-                    <span>
-                      {user.privacy_mode 
-                        ? pendingRequests.has(user.id) 
-                          ? 'Sent' 
-                          : 'Request'
-                        : 'Chat'
-                      }
-                    </span>
-                  </Button>
+                  <div className="flex items-center space-x-1">
+                    <Button
+                      size="sm"
+                      onClick={() => handleStartChat(user.id)}
+                      className="flex items-center space-x-2"
+                      disabled={isBlocked(user.id) || (user.privacy_mode && pendingRequests.has(user.id))}
+                      variant={user.privacy_mode && pendingRequests.has(user.id) ? "secondary" : "default"}
+                    >
+                      <MessageCircle className="h-4 w-4" />
+                      <span>
+                        {user.privacy_mode 
+                          ? pendingRequests.has(user.id) 
+                            ? 'Sent' 
+                            : 'Request'
+                          : 'Chat'
+                        }
+                      </span>
+                    </Button>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="sm" aria-label={`More options for ${user.name}`}>
+                          <MoreVertical className="h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        {pendingRequests.has(user.id) && (
+                          <DropdownMenuItem onClick={() => handleWithdrawRequest(user)}>
+                            <Undo2 className="h-4 w-4 mr-2" />
+                            Withdraw request
+                          </DropdownMenuItem>
+                        )}
+                        {isBlocked(user.id) ? (
+                          <DropdownMenuItem onClick={() => handleUnblock(user)}>
+                            <ShieldOff className="h-4 w-4 mr-2" />
+                            Unblock
+                          </DropdownMenuItem>
+                        ) : (
+                          <DropdownMenuItem className="text-destructive" onClick={() => handleBlock(user)}>
+                            <Ban className="h-4 w-4 mr-2" />
+                            Block
+                          </DropdownMenuItem>
+                        )}
+                        <DropdownMenuItem
+                          className="text-destructive"
+                          onClick={() => setReportTarget({ type: 'user', userId: user.id, userName: user.name })}
+                        >
+                          <Flag className="h-4 w-4 mr-2" />
+                          Report
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </div>
                 </div>
               ))
             )}
           </div>
         </CardContent>
       </Card>
+      <ReportDialog target={reportTarget} onOpenChange={(open) => !open && setReportTarget(null)} />
+      <DmRequestDialog
+        recipient={requestRecipient}
+        onOpenChange={(open) => !open && setRequestRecipient(null)}
+        onSend={sendDmRequest}
+      />
     </div>
   );
 };
@@ -0,0 +1,41 @@
+// Document types that can be sent as file attachments, with the extensions each
+// may use. Must match src/lib/attachments.ts. Nothing a browser would render as
+// a page (HTML, SVG) is on the list.
+export const ATTACHMENT_EXTENSIONS: Record<string, string[]> = {
+  'application/pdf': ['pdf'],
+  'application/msword': ['doc'],
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['docx'],
+  'application/vnd.ms-excel': ['xls'],
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['xlsx'],
+  'application/vnd.ms-powerpoint': ['ppt'],
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': ['pptx'],
+  'application/vnd.oasis.opendocument.text': ['odt'],
+  'application/vnd.oasis.opendocument.spreadsheet': ['ods'],
+  'application/vnd.oasis.opendocument.presentation': ['odp'],
+  'application/rtf': ['rtf'],
+  'text/plain': ['txt'],
+  'text/csv': ['csv'],
+};
+
+export const MAX_ATTACHMENT_BYTES = 25 * 1024 * 1024;
+export const MAX_FILENAME_LENGTH = 255;
+
+const getExtension = (name: string) => {
+  const dot = name.lastIndexOf('.');
+  return dot === -1 ? '' : name.slice(dot + 1).toLowerCase();
+};
+
+// The display name has to carry an extension that fits the stored type, so
+// a download can't turn into something the recipient's computer would run
+export const isAllowedAttachment = (mimeType: unknown, filename: unknown) =>
+  typeof mimeType === 'string'
+  && typeof filename === 'string'
+  && (ATTACHMENT_EXTENSIONS[mimeType] ?? []).includes(getExtension(filename));
+
+// Display names are shown to other users; drop path separators and control characters
+export const cleanFilename = (filename: string) =>
+  Array.from(filename.replace(/[\\/]/g, '_'))
+    .filter((char) => char >= ' ' && char !== '\u007f')
+    .join('')
+    .trim()
+    .slice(-MAX_FILENAME_LENGTH);
@@ -0,0 +1,23 @@
+import { createClient, type User } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+const authClient = createClient(supabaseUrl, supabaseAnonKey, {
+  auth: { persistSession: false, autoRefreshToken: false },
+});
+
+// The signed-in user behind a request, or null. verify_jwt only proves the token
+// is well formed (the anon key passes it too), so functions resolve the caller
+// here and never trust user ids sent in the body.
+export const getCaller = async (req: Request): Promise<User | null> => {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) return null;
+
+  const { data, error } = await authClient.auth.getUser(token);
+  if (error || !data.user) return null;
+  return data.user;
+};
+
+// Bodies may still carry the caller's id; anything else is an impersonation attempt
+export const isMismatchedId = (claimedId: unknown, caller: User) =>
+  claimedId !== undefined && claimedId !== null && claimedId !== caller.id;
@@ -0,0 +1,27 @@
+export interface Gif {
+  id: string;
+  title: string;
+  // Full GIF, sent as the message's media_url
+  url: string;
+  // Smaller version for the picker grid
+  preview: string;
+  width: number;
+  height: number;
+}
+
+// Fixture GIFs ship with the web app, so their links are paths on its own origin
+export const FIXTURE_GIF_PATH = /^\/gif-fixtures\/[a-z0-9-]+\.svg$/;
+
+// GIF messages may only point at the providers' media hosts; anything else
+// could be used to embed arbitrary content or track who opened a chat
+export const isAllowedGifUrl = (value: unknown) => {
+  if (typeof value !== 'string') return false;
+  if (FIXTURE_GIF_PATH.test(value)) return true;
+
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' && (url.hostname === 'media.tenor.com' || url.hostname.endsWith('.tenor.com'));
+  } catch {
+    return false;
+  }
+};
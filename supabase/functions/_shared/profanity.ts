@@ -0,0 +1,195 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export interface WordLists {
+  blocked: string[];
+  allowed: string[];
+}
+
+export interface ProfanityFilter {
+  // Text with every blocked word masked, character for character
+  clean: (text: string) => string;
+  hasProfanity: (text: string) => boolean;
+}
+
+// Look-alike characters people use to dodge the filter. 1 and | stand in for
+// both i and l, so tokens are checked with each reading.
+const LOOKALIKES: Record<string, string> = {
+  '@': 'a', '4': 'a', '3': 'e', '!': 'i', '0': 'o', '$': 's', '5': 's', '7': 't', '+': 't',
+};
+const AMBIGUOUS = /[1|]/g;
+
+// Letters followed by a number are codes ("room D13", "CS101"), not look-alikes
+const CODE = /^\p{L}+\p{N}{2,}$/u;
+
+// Endings that still count as the blocked word ("idiots", "killing")
+const SUFFIXES = ['s', 'es', 'ed', 'er', 'ers', 'ing', 'y'];
+const VOWEL_SUFFIXES = SUFFIXES.filter(suffix => /^[aeiou]/.test(suffix));
+
+// Words run together with the blocked one ("damnit", "butthead")
+const COMPOUNDS = ['it', 'head', 'heads', 'face', 'faces', 'hole', 'holes'];
+
+// Words plus the symbols above, so "d@mn" stays one token
+const TOKEN = /[\p{L}\p{N}@$!|+]+/gu;
+
+// Separators allowed between the letters of a spelled-out word ("d a m n", "d.a.m.n")
+const SPACED_GAP = /^[\s.\-_*,]{1,2}$/;
+const MAX_SPACED_RUN = 30;
+
+interface Token {
+  start: number;
+  end: number;
+  text: string;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Each letter may repeat ("daaamn") but must appear, so "pop" doesn't match "poop"
+const letters = (text: string) => [...text].map(char => `${escapeRegExp(char)}+`).join('');
+
+// A blocked word and its inflections. Words ending in e drop it before a vowel
+// ending ("hated", "hating") and ie turns into y before ing ("dying"). The
+// letter before a dropped e can't repeat, so "hatter" isn't read as "hater",
+// and y doesn't replace it, so "diy" isn't read as "die".
+const wordPattern = (word: string) => {
+  const forms = [`${letters(word)}(?:${[...SUFFIXES, ...COMPOUNDS].join('|')})?`];
+  if (word.length > 2 && word.endsWith('e')) {
+    const stem = word.slice(0, -1);
+    forms.push(`${letters(stem.slice(0, -1))}${escapeRegExp(stem.slice(-1))}(?:${VOWEL_SUFFIXES.join('|')})`);
+  }
+  if (word.length > 2 && word.endsWith('ie')) {
+    forms.push(`${letters(word.slice(0, -2))}y+ing`);
+  }
+  return new RegExp(`^(?:${forms.join('|')})$`, 'u');
+};
+
+// Lowercase, strip accents and swap look-alikes; returns every plausible reading
+const normalize = (text: string): string[] => {
+  const plain = text
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase();
+  if (CODE.test(plain)) return [plain];
+
+  const base = plain.replace(/[@430!$57+]/g, (char) => LOOKALIKES[char]);
+
+  if (!/[1|]/.test(base)) return [base];
+  return [base.replace(AMBIGUOUS, 'i'), base.replace(AMBIGUOUS, 'l')];
+};
+
+// Punctuation-like symbols at the edges of a token are punctuation, not letters
+const trimToken = (token: Token): Token | null => {
+  const leading = token.text.match(/^[!|+]*/)![0].length;
+  const trailing = token.text.match(/[!|+]*$/)![0].length;
+  if (leading + trailing >= token.text.length) return null;
+  return {
+    start: token.start + leading,
+    end: token.end - trailing,
+    text: token.text.slice(leading, token.text.length - trailing),
+  };
+};
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(TOKEN)) {
+    const token = trimToken({ start: match.index!, end: match.index! + match[0].length, text: match[0] });
+    if (token) tokens.push(token);
+  }
+  return tokens;
+};
+
+export const createProfanityFilter = ({ blocked, allowed }: WordLists): ProfanityFilter => {
+  const allowedWords = new Set(allowed.map(word => word.trim().toLowerCase()).filter(Boolean));
+  const patterns = blocked
+    .map(word => word.trim().toLowerCase())
+    .filter(Boolean)
+    .map(wordPattern);
+
+  const isBlocked = (text: string) =>
+    normalize(text).some(reading =>
+      !allowedWords.has(reading) && patterns.some(pattern => pattern.test(reading))
+    );
+
+  // Spans of the original text to mask, as [start, end) pairs
+  const findMatches = (text: string): [number, number][] => {
+    const tokens = tokenize(text);
+    const spans: [number, number][] = [];
+
+    tokens.forEach(token => {
+      if (token.text.length > 1 && isBlocked(token.text)) {
+        spans.push([token.start, token.end]);
+      }
+    });
+
+    // Runs of single characters are joined and checked as one word
+    let runStart = 0;
+    while (runStart < tokens.length) {
+      let runEnd = runStart;
+      while (
+        tokens[runEnd].text.length === 1
+        && runEnd + 1 < tokens.length
+        && runEnd - runStart < MAX_SPACED_RUN
+        && tokens[runEnd + 1].text.length === 1
+        && SPACED_GAP.test(text.slice(tokens[runEnd].end, tokens[runEnd + 1].start))
+      ) {
+        runEnd++;
+      }
+
+      // The whole run has to spell the word, so "h e l l o" is left alone
+      if (runEnd - runStart >= 2) {
+        const joined = tokens.slice(runStart, runEnd + 1).map(token => token.text).join('');
+        if (isBlocked(joined)) {
+          tokens.slice(runStart, runEnd + 1).forEach(token => spans.push([token.start, token.end]));
+        }
+      }
+
+      runStart = runEnd + 1;
+    }
+
+    return spans;
+  };
+
+  return {
+    clean: (text: string) => {
+      const spans = findMatches(text);
+      if (spans.length === 0) return text;
+
+      const chars = [...text];
+      // Spans are UTF-16 offsets; map them onto code points before masking
+      const offsets: number[] = [];
+      let offset = 0;
+      chars.forEach(char => {
+        offsets.push(offset);
+        offset += char.length;
+      });
+      spans.forEach(([start, end]) => {
+        offsets.forEach((position, index) => {
+          if (position >= start && position < end) chars[index] = '*';
+        });
+      });
+      return chars.join('');
+    },
+    hasProfanity: (text: string) => findMatches(text).length > 0,
+  };
+};
+
+// The word lists couldn't be read. Messages are held back rather than sent unfiltered.
+export class WordListsUnavailableError extends Error {}
+
+// Words that apply everywhere plus the ones the school added
+export const loadWordLists = async (supabase: SupabaseClient, schoolId: string | null): Promise<WordLists> => {
+  let query = supabase.from('profanity_words').select('word, kind');
+  query = schoolId
+    ? query.or(`school_id.is.null,school_id.eq.${schoolId}`)
+    : query.is('school_id', null);
+
+  const { data, error } = await query;
+  if (error) {
+    console.error('Error loading profanity word lists:', error);
+    throw new WordListsUnavailableError('Could not load the profanity word lists');
+  }
+
+  return {
+    blocked: (data || []).filter(row => row.kind === 'block').map(row => row.word),
+    allowed: (data || []).filter(row => row.kind === 'allow').map(row => row.word),
+  };
+};
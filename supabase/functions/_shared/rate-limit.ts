@@ -0,0 +1,42 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export type RateLimitedAction = 'message' | 'dm_request';
+
+// Seconds the user has to wait before trying again, or 0 if the action may go ahead.
+// If the check itself fails the action goes ahead rather than locking everyone out.
+export const takeRateLimitToken = async (
+  supabase: SupabaseClient,
+  userId: string,
+  action: RateLimitedAction,
+  scope?: string,
+): Promise<number> => {
+  const { data, error } = await supabase.rpc('take_rate_limit_token', {
+    p_user_id: userId,
+    p_action: action,
+    p_scope: scope ?? null,
+  });
+
+  if (error) {
+    console.error('Error checking rate limit:', error);
+    return 0;
+  }
+  return data ?? 0;
+};
+
+export const describeWait = (seconds: number) => {
+  if (seconds < 60) return seconds === 1 ? '1 second' : `${seconds} seconds`;
+  const minutes = Math.ceil(seconds / 60);
+  return minutes === 1 ? '1 minute' : `${minutes} minutes`;
+};
+
+// 429 with Retry-After, exposed so the browser client can read it
+export const rateLimitedResponse = (error: string, retryAfter: number, corsHeaders: Record<string, string>) =>
+  new Response(JSON.stringify({ error, retry_after: retryAfter }), {
+    status: 429,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/json',
+      'Retry-After': String(retryAfter),
+      'Access-Control-Expose-Headers': 'Retry-After',
+    },
+  });
@@ -1,5 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getCaller, isMismatchedId } from '../_shared/auth.ts';
+import { createProfanityFilter, loadWordLists, WordListsUnavailableError } from '../_shared/profanity.ts';
+import { describeWait, rateLimitedResponse, takeRateLimitToken } from '../_shared/rate-limit.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -10,6 +13,18 @@ const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
 const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+const MAX_NOTE_LENGTH = 200;
+
+// Notes reach people who haven't agreed to talk yet, so they are always filtered
+const cleanNote = async (note: unknown, sender_id: string) => {
+  const text = typeof note === 'string' ? note.trim() : '';
+  if (!text) return null;
+
+  const { data: schoolId } = await supabase.rpc('get_user_school', { p_user_id: sender_id });
+  const filter = createProfanityFilter(await loadWordLists(supabase, schoolId));
+  return filter.clean(text);
+};
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -17,16 +32,110 @@ serve(async (req) => {
   }
 
   try {
-    const { action, sender_id, recipient_id, request_id, status } = await req.json();
+    const caller = await getCaller(req);
+    if (!caller) {
+      return new Response(JSON.stringify({ error: 'Not authenticated' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const body = await req.json();
+    const { action, recipient_id, request_id, status, note } = body;
+
+    if (isMismatchedId(body.sender_id, caller)) {
+      console.log('Rejected DM request on behalf of another user');
+      return new Response(JSON.stringify({ error: 'sender_id does not match the signed-in user' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+    const sender_id = caller.id;
 
     if (action === 'send') {
+      if (!recipient_id || recipient_id === sender_id) {
+        return new Response(JSON.stringify({ error: 'A valid recipient_id is required' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      if (typeof note === 'string' && note.trim().length > MAX_NOTE_LENGTH) {
+        return new Response(JSON.stringify({ error: `Notes can be at most ${MAX_NOTE_LENGTH} characters` }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const { data: suspended, error: suspendedError } = await supabase
+        .rpc('is_suspended', { p_user_id: sender_id });
+
+      if (suspendedError) console.error('Error checking suspension:', suspendedError);
+      if (suspended) {
+        return new Response(JSON.stringify({ error: 'Your account is suspended.' }), {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const retryAfter = await takeRateLimitToken(supabase, sender_id, 'dm_request');
+      if (retryAfter > 0) {
+        console.log('Sender is over the DM request rate limit');
+        return rateLimitedResponse(
+          `You're sending DM requests too quickly. Try again in ${describeWait(retryAfter)}.`,
+          retryAfter,
+          corsHeaders,
+        );
+      }
+
+      // Blocked in either direction: answer the same way as any other failure
+      const { data: blocked, error: blockError } = await supabase
+        .rpc('is_blocked_between', { p_user_a: sender_id, p_user_b: recipient_id });
+
+      if (blockError || blocked) {
+        if (blockError) console.error('Error checking blocks:', blockError);
+        return new Response(JSON.stringify({ error: 'Unable to send DM request' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const { data: canConnect, error: schoolError } = await supabase
+        .rpc('schools_can_connect', { p_user_a: sender_id, p_user_b: recipient_id });
+
+      if (schoolError || !canConnect) {
+        if (schoolError) console.error('Error checking schools:', schoolError);
+        return new Response(JSON.stringify({ error: "You can't send DM requests to users outside your school." }), {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      // Requests past their school's expiry no longer hold the pending slot
+      const { error: expireError } = await supabase.rpc('expire_dm_requests');
+      if (expireError) console.error('Error expiring DM requests:', expireError);
+
+      const { data: cooldownUntil, error: cooldownError } = await supabase
+        .rpc('get_dm_request_cooldown_until', { p_sender_id: sender_id, p_recipient_id: recipient_id });
+
+      if (cooldownError) console.error('Error checking request cooldown:', cooldownError);
+      if (cooldownUntil) {
+        const retryAfter = Math.max(1, Math.ceil((new Date(cooldownUntil).getTime() - Date.now()) / 1000));
+        return rateLimitedResponse(
+          'This user declined your last request. You can ask again later.',
+          retryAfter,
+          corsHeaders,
+        );
+      }
+
       // Send a DM request
       const { data, error } = await supabase
         .from('dm_requests')
         .insert({
           sender_id,
           recipient_id,
-          status: 'pending'
+          status: 'pending',
+          note: await cleanNote(note, sender_id)
         })
         .select()
         .single();
@@ -53,43 +162,81 @@ serve(async (req) => {
       });
     }
 
-    if (action === 'respond') {
-      
-      // Update DM request status (accept/reject)
+    if (action === 'cancel') {
+      // Senders can withdraw their own request while it is still pending
       const { data, error } = await supabase
         .from('dm_requests')
-        .update({ status })
+        .update({ status: 'cancelled' })
         .eq('id', request_id)
+        .eq('sender_id', sender_id)
+        .eq('status', 'pending')
         .select()
-        .single();
+        .maybeSingle();
 
       if (error) {
-        console.error('Error updating DM request:', error);
+        console.error('Error cancelling DM request:', error);
         return new Response(JSON.stringify({ error: error.message }), {
           status: 400,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         });
       }
 
-      // If accepted, add to allowed_contacts
-      if (status === 'accepted') {
-        const user1_id = data.sender_id < data.recipient_id ? data.sender_id : data.recipient_id;
-        const user2_id = data.sender_id < data.recipient_id ? data.recipient_id : data.sender_id;
+      if (!data) {
+        return new Response(JSON.stringify({ error: 'No pending DM request to cancel' }), {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
 
-        const { error: contactError } = await supabase
-          .from('allowed_contacts')
-          .insert({
-            user1_id,
-            user2_id
-          });
+      return new Response(JSON.stringify({ data }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
 
-        if (contactError) {
-          console.error('Error adding to allowed contacts:', contactError);
-          return new Response(JSON.stringify({ error: 'Failed to add contact' }), {
-            status: 400,
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          });
-        }
+    if (action === 'respond') {
+      if (status !== 'accepted' && status !== 'rejected') {
+        return new Response(JSON.stringify({ error: 'status must be accepted or rejected' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      // Only the recipient can answer
+      const { data: request, error: requestError } = await supabase
+        .from('dm_requests')
+        .select('recipient_id')
+        .eq('id', request_id)
+        .maybeSingle();
+
+      if (requestError) {
+        console.error('Error fetching DM request:', requestError);
+      }
+
+      if (!request || request.recipient_id !== caller.id) {
+        return new Response(JSON.stringify({ error: 'DM request not found' }), {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      // Expires the request first if it's past due, and adds the contact on accept
+      const { data: answered, error } = await supabase
+        .rpc('respond_to_dm_request', { p_request_id: request_id, p_recipient_id: caller.id, p_status: status });
+
+      if (error) {
+        console.error('Error updating DM request:', error);
+        return new Response(JSON.stringify({ error: error.message }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const data = answered?.[0];
+      if (!data) {
+        return new Response(JSON.stringify({ error: 'DM request has already been answered or has expired' }), {
+          status: 409,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
       }
 
       return new Response(JSON.stringify({ data }), {
@@ -103,6 +250,12 @@ serve(async (req) => {
     });
 
   } catch (error) {
+    if (error instanceof WordListsUnavailableError) {
+      return new Response(JSON.stringify({ error: "Notes can't be checked right now. Please try again in a moment." }), {
+        status: 503,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
     console.error('Error in dm-request function:', error);
     return new Response(JSON.stringify({ error: error.message }), {
       status: 500,
@@ -1,21 +1,179 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createProfanityFilter, loadWordLists, WordListsUnavailableError } from '../_shared/profanity.ts';
+import { getCaller, isMismatchedId } from '../_shared/auth.ts';
+import { describeWait, rateLimitedResponse, takeRateLimitToken } from '../_shared/rate-limit.ts';
+import { isAllowedGifUrl } from '../_shared/gifs.ts';
+import { cleanFilename, isAllowedAttachment, MAX_ATTACHMENT_BYTES } from '../_shared/attachments.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-const profanityFilter = [
-  'damn', 'hell', 'stupid', 'dumb', 'idiot', 'hate', 'kill', 'die',
-  'crap', 'poop', 'butt', 'heck'
-  // Add more words as needed for school environment
-];
-
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
 const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Word lists are per school; the sender's school decides which ones apply
+const applyProfanityFilter = async (text: string, sender_id: string) => {
+  const { data: schoolId } = await supabase.rpc('get_user_school', { p_user_id: sender_id });
+  const filter = createProfanityFilter(await loadWordLists(supabase, schoolId));
+  return filter.clean(text);
+};
+
+// Whether anyone receiving a message in this conversation has the filter turned on
+const recipientsWantFiltering = async (sender_id: string, recipient_id?: string, conversation_id?: string) => {
+  if (conversation_id) {
+    const { data } = await supabase
+      .from('conversation_members')
+      .select('user_id, users!inner(profanity_filter_enabled)')
+      .eq('conversation_id', conversation_id)
+      .neq('user_id', sender_id)
+      .eq('users.profanity_filter_enabled', true)
+      .limit(1);
+    return !!data && data.length > 0;
+  }
+
+  const { data } = await supabase
+    .from('users')
+    .select('profanity_filter_enabled')
+    .eq('id', recipient_id)
+    .single();
+  return !!data?.profanity_filter_enabled;
+};
+
+// Images and voice messages are stored privately under {conversation folder}/{sender}/
+// and messages keep the path
+const isValidMediaPath = (path: string, sender_id: string, recipient_id?: string, conversation_id?: string) => {
+  const folder = conversation_id ?? [sender_id, recipient_id].sort().join('_');
+  const [pathFolder, pathSender, fileName, ...rest] = path.split('/');
+  return pathFolder === folder && pathSender === sender_id && !!fileName && rest.length === 0 && !fileName.startsWith('.');
+};
+
+// Dimensions come from the client and only size placeholders; drop anything odd
+const toDimension = (value: unknown) =>
+  Number.isInteger(value) && (value as number) > 0 && (value as number) <= 10000 ? value as number : null;
+
+// Must match the limits in src/lib/audio.ts
+const MAX_VOICE_MESSAGE_MS = 300 * 1000;
+// Recordings stopped at the limit can run slightly past it; they're stored as
+// exactly the limit rather than rejected
+const VOICE_DURATION_TOLERANCE_MS = 2000;
+const MAX_VOICE_MESSAGE_BYTES = 10 * 1024 * 1024;
+const MAX_WAVEFORM_BARS = 100;
+
+// The uploaded object, so a voice message's real size and type are checked rather
+// than whatever the client claims
+const getStoredObject = async (path: string) => {
+  const slash = path.lastIndexOf('/');
+  const name = path.slice(slash + 1);
+  const { data, error } = await supabase.storage
+    .from('chat-images')
+    .list(path.slice(0, slash), { search: name, limit: 1 });
+  if (error) console.error('Error looking up uploaded media:', error);
+  return data?.find((object) => object.name === name) ?? null;
+};
+
+// Waveforms only draw the player; anything malformed is dropped rather than rejected
+const toWaveform = (value: unknown) =>
+  Array.isArray(value)
+    && value.length <= MAX_WAVEFORM_BARS
+    && value.every((level) => Number.isInteger(level) && level >= 0 && level <= 100)
+    ? value as number[]
+    : null;
+
+// Suspended accounts keep read access but can't post
+const senderIsSuspended = async (sender_id: string) => {
+  const { data, error } = await supabase.rpc('is_suspended', { p_user_id: sender_id });
+  if (error) console.error('Error checking suspension:', error);
+  return !!data;
+};
+
+// Edit an existing message; the new text goes through the same filter as new messages
+const handleEdit = async ({ sender_id, message_id, content }: { sender_id: string; message_id: string; content: string }) => {
+  const newContent = (content || '').trim();
+  if (!message_id || !newContent) {
+    return jsonResponse({ error: 'message_id and content are required' }, 400);
+  }
+
+  const { data: existing, error: fetchError } = await supabase
+    .from('messages')
+    .select('id, sender_id, recipient_id, conversation_id, deleted_at')
+    .eq('id', message_id)
+    .single();
+
+  if (fetchError || !existing) {
+    console.error('Error fetching message to edit:', fetchError);
+    return jsonResponse({ error: 'Message not found' }, 404);
+  }
+
+  if (existing.sender_id !== sender_id) {
+    return jsonResponse({ error: 'You can only edit your own messages' }, 403);
+  }
+
+  if (existing.deleted_at) {
+    return jsonResponse({ error: 'Deleted messages cannot be edited' }, 400);
+  }
+
+  if (await senderIsSuspended(sender_id)) {
+    return jsonResponse({ error: 'Your account is suspended.' }, 403);
+  }
+
+  // Leaving a group or a block since sending ends the right to edit, as it does to send
+  if (existing.conversation_id) {
+    const { data: isMember, error: membershipError } = await supabase
+      .rpc('is_conversation_member', { p_conversation_id: existing.conversation_id, p_user_id: sender_id });
+
+    if (membershipError) {
+      console.error('Error checking group membership:', membershipError);
+      return jsonResponse({ error: 'Failed to edit message' }, 400);
+    }
+
+    if (!isMember) {
+      return jsonResponse({ error: 'You are not a member of this group.' }, 403);
+    }
+  } else {
+    const { data: blocked, error: blockError } = await supabase
+      .rpc('is_blocked_between', { p_user_a: sender_id, p_user_b: existing.recipient_id });
+
+    if (blockError) {
+      console.error('Error checking blocks:', blockError);
+      return jsonResponse({ error: 'Failed to edit message' }, 400);
+    }
+
+    if (blocked) {
+      return jsonResponse({ error: 'This message could not be edited.' }, 403);
+    }
+  }
+
+  let filteredContent = newContent;
+  if (await recipientsWantFiltering(sender_id, existing.recipient_id, existing.conversation_id)) {
+    console.log('Applying profanity filter to edit');
+    filteredContent = await applyProfanityFilter(filteredContent, sender_id);
+  }
+
+  const { data, error } = await supabase
+    .from('messages')
+    .update({ content: filteredContent })
+    .eq('id', message_id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error editing message:', error);
+    return jsonResponse({ error: error.message }, 400);
+  }
+
+  return jsonResponse({ data });
+};
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -23,98 +181,282 @@ serve(async (req) => {
   }
 
   try {
-    const { message } = await req.json();
+    const caller = await getCaller(req);
+    if (!caller) {
+      return jsonResponse({ error: 'Not authenticated' }, 401);
+    }
+
+    const body = await req.json();
+    if (body.action === 'edit') {
+      if (isMismatchedId(body.sender_id, caller)) {
+        console.log('Rejected edit on behalf of another user');
+        return jsonResponse({ error: 'sender_id does not match the signed-in user' }, 403);
+      }
+      return await handleEdit({ ...body, sender_id: caller.id });
+    }
+
+    const { message } = body;
+    if (isMismatchedId(message?.sender_id, caller)) {
+      console.log('Rejected message sent on behalf of another user');
+      return jsonResponse({ error: 'sender_id does not match the signed-in user' }, 403);
+    }
+
+    // The sender is always the signed-in user, whatever the body says
+    const sender_id = caller.id;
     const {
-      sender_id,
       recipient_id,
+      conversation_id,
       content,
       media_url,
       media_type,
       image_url,
       image_filename,
-      image_size
+      image_size,
+      image_thumbnail_url,
+      image_width,
+      image_height,
+      media_duration_ms,
+      media_waveform,
+      media_filename,
+      reply_to_id
     } = message;
 
     console.log('Processing message:', {
       sender_id,
       recipient_id,
+      conversation_id,
       content: content ? 'has content' : 'no content',
       media_type,
       image_url: image_url ? 'has image' : 'no image'
     });
 
-    // Check if recipient has profanity filter enabled
-    const { data: userData, error: userError } = await supabase
-      .from('users')
-      .select('profanity_filter_enabled')
-      .eq('id', recipient_id)
-      .single();
+    if (await senderIsSuspended(sender_id)) {
+      console.log('Sender is suspended');
+      return jsonResponse({ error: 'Your account is suspended.' }, 403);
+    }
 
-    if (userError) {
-      console.error('Error fetching user settings:', userError);
-      return new Response(JSON.stringify({ error: 'Failed to fetch user settings' }), {
-        status: 400,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
+    // Each conversation has its own bucket, so a busy group doesn't block direct chats
+    const retryAfter = await takeRateLimitToken(supabase, sender_id, 'message', conversation_id || recipient_id);
+    if (retryAfter > 0) {
+      console.log('Sender is over the message rate limit');
+      return rateLimitedResponse(
+        `You're sending messages too quickly. Try again in ${describeWait(retryAfter)}.`,
+        retryAfter,
+        corsHeaders,
+      );
     }
 
-    // Apply profanity filter only if user has it enabled
-    let filteredContent = content || '';
-    if (userData.profanity_filter_enabled) {
-      console.log('Applying profanity filter');
-      profanityFilter.forEach(word => {
-        const regex = new RegExp(word, 'gi');
-        filteredContent = filteredContent.replace(regex, '*'.repeat(word.length));
-      });
+    const imagePaths = [image_url, image_thumbnail_url].filter(Boolean);
+    if (imagePaths.some((path) => !isValidMediaPath(path, sender_id, recipient_id, conversation_id))) {
+      console.log('Rejected image outside the conversation folder');
+      return jsonResponse({ error: 'Invalid image' }, 400);
     }
 
-    // Check if users are allowed to message each other (privacy mode handling)
-    const { data: recipientData, error: recipientError } = await supabase
-      .from('users')
-      .select('privacy_mode')
-      .eq('id', recipient_id)
-      .single();
+    // GIFs must come from a provider the picker uses
+    const isGif = media_type === 'gif';
+    if (isGif && (image_url || !isAllowedGifUrl(media_url))) {
+      console.log('Rejected GIF from an unknown host');
+      return jsonResponse({ error: 'Invalid GIF' }, 400);
+    }
 
-    if (recipientError) {
-      console.error('Error fetching recipient settings:', recipientError);
-      return new Response(JSON.stringify({ error: 'Failed to fetch recipient settings' }), {
-        status: 400,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
+    // Voice messages must be uploaded to the conversation folder and within the limits
+    const isAudio = media_type === 'audio';
+    let mediaSize: number | null = null;
+    let mediaMimeType: string | null = null;
+    if (isAudio) {
+      if (image_url || typeof media_url !== 'string' || !isValidMediaPath(media_url, sender_id, recipient_id, conversation_id)) {
+        console.log('Rejected voice message outside the conversation folder');
+        return jsonResponse({ error: 'Invalid voice message' }, 400);
+      }
+
+      if (!Number.isInteger(media_duration_ms) || media_duration_ms <= 0 || media_duration_ms > MAX_VOICE_MESSAGE_MS + VOICE_DURATION_TOLERANCE_MS) {
+        console.log('Rejected voice message with a bad duration:', media_duration_ms);
+        return jsonResponse({ error: 'Voice messages can be at most 5 minutes long.' }, 400);
+      }
+
+      const stored = await getStoredObject(media_url);
+      const mimetype: unknown = stored?.metadata?.mimetype;
+      if (!stored || typeof mimetype !== 'string' || !mimetype.startsWith('audio/')) {
+        console.log('Rejected voice message that is missing or not audio');
+        return jsonResponse({ error: 'Invalid voice message' }, 400);
+      }
+
+      mediaSize = Number(stored.metadata?.size) || null;
+      mediaMimeType = mimetype;
+      if (!mediaSize || mediaSize > MAX_VOICE_MESSAGE_BYTES) {
+        console.log('Rejected oversized voice message:', mediaSize);
+        await supabase.storage.from('chat-images').remove([media_url]);
+        return jsonResponse({ error: 'Voice messages must be under 10MB.' }, 400);
+      }
     }
 
-    // If recipient has privacy mode enabled, check if contact is allowed
-    if (recipientData.privacy_mode) {
-      console.log('Checking privacy mode for recipient');
-      const user1_id = sender_id < recipient_id ? sender_id : recipient_id;
-      const user2_id = sender_id < recipient_id ? recipient_id : sender_id;
-      
-      const { data: allowedContact } = await supabase
-        .from('allowed_contacts')
-        .select('id')
-        .eq('user1_id', user1_id)
-        .eq('user2_id', user2_id)
-        .single();
+    // Attachments are checked against what was actually uploaded: an allowed
+    // type, a name with a matching extension and a size within the limit
+    const isFile = media_type === 'file';
+    const filename = isFile && typeof media_filename === 'string' ? cleanFilename(media_filename) : '';
+    if (isFile) {
+      if (image_url || typeof media_url !== 'string' || !isValidMediaPath(media_url, sender_id, recipient_id, conversation_id)) {
+        console.log('Rejected attachment outside the conversation folder');
+        return jsonResponse({ error: 'Invalid attachment' }, 400);
+      }
+
+      const stored = await getStoredObject(media_url);
+      const mimetype: unknown = stored?.metadata?.mimetype;
+      if (!stored || !isAllowedAttachment(mimetype, filename)) {
+        console.log('Rejected attachment that is missing or not an allowed type:', mimetype);
+        if (stored) await supabase.storage.from('chat-images').remove([media_url]);
+        return jsonResponse({ error: "This type of file can't be sent." }, 400);
+      }
+
+      mediaSize = Number(stored.metadata?.size) || null;
+      mediaMimeType = mimetype as string;
+      if (!mediaSize || mediaSize > MAX_ATTACHMENT_BYTES) {
+        console.log('Rejected oversized attachment:', mediaSize);
+        await supabase.storage.from('chat-images').remove([media_url]);
+        return jsonResponse({ error: 'Files must be under 25MB.' }, 400);
+      }
+    }
+
+    let filteredContent = content || '';
 
-      if (!allowedContact) {
-        console.log('Contact not allowed - privacy mode active');
-        return new Response(JSON.stringify({ error: 'Contact not allowed. Send a DM request first.' }), {
+    if (conversation_id) {
+      // Group message: the sender must be a member of the conversation
+      const { data: membership, error: membershipError } = await supabase
+        .from('conversation_members')
+        .select('user_id')
+        .eq('conversation_id', conversation_id)
+        .eq('user_id', sender_id)
+        .maybeSingle();
+
+      if (membershipError) {
+        console.error('Error checking group membership:', membershipError);
+        return new Response(JSON.stringify({ error: 'Failed to verify group membership' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      if (!membership) {
+        console.log('Sender is not a member of the group');
+        return new Response(JSON.stringify({ error: 'You are not a member of this group.' }), {
           status: 403,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         });
       }
+
+      // Filter if any other member has the profanity filter enabled
+      if (await recipientsWantFiltering(sender_id, undefined, conversation_id)) {
+        console.log('Applying profanity filter');
+        filteredContent = await applyProfanityFilter(filteredContent, sender_id);
+      }
+    } else {
+      // Blocks apply in both directions; the error doesn't reveal who blocked whom
+      const { data: blocked, error: blockError } = await supabase
+        .rpc('is_blocked_between', { p_user_a: sender_id, p_user_b: recipient_id });
+
+      if (blockError) {
+        console.error('Error checking blocks:', blockError);
+        return jsonResponse({ error: 'Failed to send message' }, 400);
+      }
+
+      if (blocked) {
+        console.log('Message blocked between sender and recipient');
+        return jsonResponse({ error: 'This message could not be delivered.' }, 403);
+      }
+
+      const { data: canConnect, error: schoolError } = await supabase
+        .rpc('schools_can_connect', { p_user_a: sender_id, p_user_b: recipient_id });
+
+      if (schoolError) {
+        console.error('Error checking schools:', schoolError);
+        return jsonResponse({ error: 'Failed to send message' }, 400);
+      }
+
+      if (!canConnect) {
+        console.log('Sender and recipient are in different schools');
+        return jsonResponse({ error: "You can't message users outside your school." }, 403);
+      }
+
+      // Check if recipient has profanity filter enabled
+      const { data: userData, error: userError } = await supabase
+        .from('users')
+        .select('profanity_filter_enabled')
+        .eq('id', recipient_id)
+        .single();
+
+      if (userError) {
+        console.error('Error fetching user settings:', userError);
+        return new Response(JSON.stringify({ error: 'Failed to fetch user settings' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      // Apply profanity filter only if user has it enabled
+      if (userData.profanity_filter_enabled) {
+        console.log('Applying profanity filter');
+        filteredContent = await applyProfanityFilter(filteredContent, sender_id);
+      }
+
+      // Check if users are allowed to message each other (privacy mode handling)
+      const { data: recipientData, error: recipientError } = await supabase
+        .from('users')
+        .select('privacy_mode')
+        .eq('id', recipient_id)
+        .single();
+
+      if (recipientError) {
+        console.error('Error fetching recipient settings:', recipientError);
+        return new Response(JSON.stringify({ error: 'Failed to fetch recipient settings' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      // If recipient has privacy mode enabled, check if contact is allowed
+      if (recipientData.privacy_mode) {
+        console.log('Checking privacy mode for recipient');
+        const user1_id = sender_id < recipient_id ? sender_id : recipient_id;
+        const user2_id = sender_id < recipient_id ? recipient_id : sender_id;
+      
+        const { data: allowedContact } = await supabase
+          .from('allowed_contacts')
+          .select('id')
+          .eq('user1_id', user1_id)
+          .eq('user2_id', user2_id)
+          .single();
+
+        if (!allowedContact) {
+          console.log('Contact not allowed - privacy mode active');
+          return new Response(JSON.stringify({ error: 'Contact not allowed. Send a DM request first.' }), {
+            status: 403,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+      }
     }
 
     // Insert sanitized message into database
     const messageData = {
       sender_id,
-      recipient_id,
+      recipient_id: conversation_id ? null : recipient_id,
+      conversation_id: conversation_id || null,
       content: filteredContent,
-      media_url: media_url || null,
-      media_type: media_type || 'text',
+      media_url: isGif || isAudio || isFile ? media_url : null,
+      media_type: isGif ? 'gif' : isAudio ? 'audio' : isFile ? 'file' : image_url ? 'image' : 'text',
+      media_size: mediaSize,
+      media_mime_type: mediaMimeType,
+      media_filename: isFile ? filename : null,
+      media_duration_ms: isAudio ? Math.min(media_duration_ms, MAX_VOICE_MESSAGE_MS) : null,
+      media_waveform: isAudio ? toWaveform(media_waveform) : null,
       image_url: image_url || null,
       image_filename: image_filename || null,
       image_size: image_size || null,
+      image_thumbnail_url: image_url ? image_thumbnail_url || null : null,
+      image_width: image_url || isGif ? toDimension(image_width) : null,
+      image_height: image_url || isGif ? toDimension(image_height) : null,
+      // Checked against the conversation by the validate_message_reply trigger
+      reply_to_id: reply_to_id || null,
     };
     
     console.log('Inserting message:', messageData);
@@ -138,6 +480,10 @@ serve(async (req) => {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
   } catch (error) {
+    // Sending unfiltered text would be worse than not sending
+    if (error instanceof WordListsUnavailableError) {
+      return jsonResponse({ error: "Messages can't be checked right now. Please try again in a moment." }, 503);
+    }
     console.error('Error in sanitize-message function:', error);
     return new Response(JSON.stringify({ error: error.message }), {
       status: 500,
@@ -0,0 +1,20 @@
+// Bundled GIFs for the fixture provider, used for local development and tests
+// without a Tenor key. The images live in the web app's public/gif-fixtures/.
+export interface FixtureGif {
+  id: string;
+  title: string;
+  tags: string[];
+}
+
+export const FIXTURE_GIFS: FixtureGif[] = [
+  { id: 'wave', title: 'Waving hand', tags: ['hi', 'hello', 'wave', 'bye', 'greetings'] },
+  { id: 'thumbs-up', title: 'Thumbs up', tags: ['yes', 'ok', 'good', 'like', 'reactions'] },
+  { id: 'clap', title: 'Clapping', tags: ['clap', 'applause', 'well done', 'reactions'] },
+  { id: 'party', title: 'Party popper', tags: ['party', 'celebrate', 'yay', 'birthday'] },
+  { id: 'laugh', title: 'Laughing face', tags: ['lol', 'laugh', 'funny', 'happy'] },
+  { id: 'heart', title: 'Beating heart', tags: ['love', 'heart', 'thanks', 'happy'] },
+  { id: 'thanks', title: 'Thank you', tags: ['thanks', 'thank you', 'ty'] },
+  { id: 'thinking', title: 'Thinking face', tags: ['hmm', 'think', 'thinking', 'reactions'] },
+];
+
+export const FIXTURE_CATEGORIES = ['greetings', 'reactions', 'celebrate', 'happy', 'thanks'];
@@ -1,4 +1,43 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
 import { corsHeaders } from '../_shared/cors.ts';
+import { getCaller } from '../_shared/auth.ts';
+import { createProfanityFilter, loadWordLists, WordListsUnavailableError } from '../_shared/profanity.ts';
+import { getGifProvider, GifProviderError, type GifCategory, type GifPage } from './providers.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+const MAX_LIMIT = 50;
+const MAX_SEARCH_LENGTH = 100;
+
+// Results are the same for everyone, so they're cached per function instance
+const CACHE_TTL_MS = {
+  search: 10 * 60 * 1000,
+  trending: 30 * 60 * 1000,
+  categories: 24 * 60 * 60 * 1000,
+};
+const MAX_CACHE_ENTRIES = 200;
+const cache = new Map<string, { expiresAt: number; value: GifPage | GifCategory[] }>();
+
+const cached = async <T extends GifPage | GifCategory[]>(key: string, ttl: number, load: () => Promise<T>): Promise<T> => {
+  const hit = cache.get(key);
+  if (hit && hit.expiresAt > Date.now()) return hit.value as T;
+
+  const value = await load();
+  if (cache.size >= MAX_CACHE_ENTRIES) {
+    // Maps iterate in insertion order, so this drops the oldest entry
+    cache.delete(cache.keys().next().value!);
+  }
+  cache.set(key, { expiresAt: Date.now() + ttl, value });
+  return value;
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
 
 Deno.serve(async (req) => {
   // Handle CORS preflight requests
@@ -7,71 +46,66 @@ Deno.serve(async (req) => {
   }
 
   try {
-    const { searchTerm, limit = 20 } = await req.json();
+    const caller = await getCaller(req);
+    if (!caller) {
+      return jsonResponse({ error: 'Not authenticated' }, 401);
+    }
 
-    if (!searchTerm) {
-      return new Response(
-        JSON.stringify({ error: 'Search term is required' }),
-        { 
-          status: 400,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        }
-      );
+    const { action = 'search', searchTerm, limit = 20, pos } = await req.json();
+    const pageOptions = {
+      limit: Math.min(Math.max(Number(limit) || 20, 1), MAX_LIMIT),
+      pos: typeof pos === 'string' && pos ? pos : undefined,
+    };
+    const provider = getGifProvider();
+
+    if (action === 'categories') {
+      const categories = await cached(`${provider.name}:categories`, CACHE_TTL_MS.categories, () => provider.categories());
+      return jsonResponse({ categories });
     }
 
-    const tenorApiKey = Deno.env.get('TENOR_API_KEY');
-    if (!tenorApiKey) {
-      return new Response(
-        JSON.stringify({ error: 'Tenor API key not configured' }),
-        { 
-          status: 500,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        }
+    if (action === 'trending') {
+      const page = await cached(
+        `${provider.name}:trending:${pageOptions.limit}:${pageOptions.pos ?? ''}`,
+        CACHE_TTL_MS.trending,
+        () => provider.trending(pageOptions),
       );
+      return jsonResponse(page);
     }
 
-    const response = await fetch(
-      `https://tenor.googleapis.com/v2/search?q=${encodeURIComponent(searchTerm)}&key=${tenorApiKey}&limit=${limit}&media_filter=gif`
-    );
+    if (action !== 'search') {
+      return jsonResponse({ error: 'Invalid action' }, 400);
+    }
 
-    if (!response.ok) {
-      console.error('Tenor API error:', response.status, response.statusText);
-      return new Response(
-        JSON.stringify({ error: 'Failed to fetch GIFs from Tenor' }),
-        { 
-          status: response.status,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        }
-      );
+    const query = typeof searchTerm === 'string' ? searchTerm.trim().toLowerCase() : '';
+    if (!query) {
+      return jsonResponse({ error: 'Search term is required' }, 400);
+    }
+    if (query.length > MAX_SEARCH_LENGTH) {
+      return jsonResponse({ error: 'Search term is too long' }, 400);
     }
 
-    const data = await response.json();
-    
-    // Transform the Tenor response to a simpler format
-    const gifs = data.results?.map((gif: any) => ({
-      id: gif.id,
-      title: gif.content_description || gif.h1_title || 'GIF',
-      url: gif.media_formats?.gif?.url || gif.media_formats?.mp4?.url,
-      preview: gif.media_formats?.tinygif?.url || gif.media_formats?.gif?.url,
-      width: gif.media_formats?.gif?.dims?.[0] || 300,
-      height: gif.media_formats?.gif?.dims?.[1] || 200,
-    })) || [];
+    // The provider's rating filter is the main guard; searches for blocked words
+    // and results titled with them are dropped on top of it
+    const { data: schoolId } = await supabase.rpc('get_user_school', { p_user_id: caller.id });
+    const filter = createProfanityFilter(await loadWordLists(supabase, schoolId));
+    if (filter.hasProfanity(query)) {
+      return jsonResponse({ gifs: [] });
+    }
 
-    return new Response(
-      JSON.stringify({ gifs }),
-      { 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      }
+    const page = await cached(
+      `${provider.name}:search:${query}:${pageOptions.limit}:${pageOptions.pos ?? ''}`,
+      CACHE_TTL_MS.search,
+      () => provider.search(query, pageOptions),
     );
-
+    return jsonResponse({ ...page, gifs: page.gifs.filter(gif => !filter.hasProfanity(gif.title)) });
   } catch (error) {
+    if (error instanceof GifProviderError) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
+    if (error instanceof WordListsUnavailableError) {
+      return jsonResponse({ error: 'GIF search is unavailable right now' }, 503);
+    }
     console.error('Error in search-gifs function:', error);
-    return new Response(
-      JSON.stringify({ error: 'Internal server error' }),
-      { 
-        status: 500,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      }
-    );
+    return jsonResponse({ error: 'Internal server error' }, 500);
   }
-});
\ No newline at end of file
+});
@@ -0,0 +1,148 @@
+import type { Gif } from '../_shared/gifs.ts';
+import { FIXTURE_CATEGORIES, FIXTURE_GIFS } from './fixtures.ts';
+
+export interface GifPage {
+  gifs: Gif[];
+  // Pass back as `pos` for the next page; absent on the last one
+  next?: string;
+}
+
+export interface GifCategory {
+  name: string;
+  searchTerm: string;
+  preview: string;
+}
+
+export interface PageOptions {
+  limit: number;
+  pos?: string;
+}
+
+export interface GifProvider {
+  name: string;
+  search: (query: string, options: PageOptions) => Promise<GifPage>;
+  trending: (options: PageOptions) => Promise<GifPage>;
+  categories: () => Promise<GifCategory[]>;
+}
+
+export class GifProviderError extends Error {
+  constructor(message: string, public status = 502) {
+    super(message);
+  }
+}
+
+// Tenor's strictest filter (G-rated only); never taken from the request
+const TENOR_CONTENT_FILTER = 'high';
+const TENOR_CLIENT_KEY = 'peer-link-messenger';
+
+interface TenorMediaFormat {
+  url: string;
+  dims?: number[];
+}
+
+interface TenorResult {
+  id: string;
+  content_description?: string;
+  title?: string;
+  media_formats?: Record<string, TenorMediaFormat | undefined>;
+}
+
+interface TenorCategory {
+  searchterm: string;
+  name?: string;
+  image: string;
+}
+
+const toGif = (result: TenorResult): Gif => ({
+  id: result.id,
+  title: result.content_description || result.title || 'GIF',
+  url: result.media_formats?.gif?.url ?? '',
+  preview: result.media_formats?.tinygif?.url || result.media_formats?.gif?.url || '',
+  width: result.media_formats?.gif?.dims?.[0] || 300,
+  height: result.media_formats?.gif?.dims?.[1] || 200,
+});
+
+export const createTenorProvider = (apiKey: string): GifProvider => {
+  const request = async (endpoint: string, params: Record<string, string | undefined>) => {
+    const url = new URL(`https://tenor.googleapis.com/v2/${endpoint}`);
+    url.searchParams.set('key', apiKey);
+    url.searchParams.set('client_key', TENOR_CLIENT_KEY);
+    url.searchParams.set('contentfilter', TENOR_CONTENT_FILTER);
+    Object.entries(params).forEach(([name, value]) => {
+      if (value !== undefined) url.searchParams.set(name, value);
+    });
+
+    const response = await fetch(url);
+    if (!response.ok) {
+      console.error('Tenor API error:', response.status, response.statusText);
+      throw new GifProviderError('Failed to fetch GIFs from Tenor');
+    }
+    return response.json();
+  };
+
+  const page = async (endpoint: string, params: Record<string, string | undefined>, { limit, pos }: PageOptions) => {
+    const data = await request(endpoint, { ...params, limit: String(limit), pos, media_filter: 'gif,tinygif' });
+    return {
+      gifs: ((data.results || []) as TenorResult[]).map(toGif).filter(gif => !!gif.url),
+      next: data.next || undefined,
+    };
+  };
+
+  return {
+    name: 'tenor',
+    search: (query, options) => page('search', { q: query }, options),
+    trending: (options) => page('featured', {}, options),
+    categories: async () => {
+      const data = await request('categories', { type: 'featured' });
+      return ((data.tags || []) as TenorCategory[]).map(tag => ({
+        name: String(tag.name || tag.searchterm).replace(/^#/, ''),
+        searchTerm: tag.searchterm,
+        preview: tag.image,
+      }));
+    },
+  };
+};
+
+// Offline provider backed by the bundled fixtures; pages are offsets into the list
+export const createFixtureProvider = (): GifProvider => {
+  const toFixtureGif = (fixture: { id: string; title: string }): Gif => ({
+    id: fixture.id,
+    title: fixture.title,
+    url: `/gif-fixtures/${fixture.id}.svg`,
+    preview: `/gif-fixtures/${fixture.id}.svg`,
+    width: 200,
+    height: 200,
+  });
+
+  const paginate = (gifs: Gif[], { limit, pos }: PageOptions): GifPage => {
+    const start = Number(pos) || 0;
+    const end = start + limit;
+    return { gifs: gifs.slice(start, end), next: end < gifs.length ? String(end) : undefined };
+  };
+
+  return {
+    name: 'fixtures',
+    search: async (query, options) => {
+      const term = query.trim().toLowerCase();
+      const matches = FIXTURE_GIFS.filter(gif =>
+        gif.title.toLowerCase().includes(term) || gif.tags.some(tag => tag.includes(term))
+      );
+      return paginate(matches.map(toFixtureGif), options);
+    },
+    trending: async (options) => paginate(FIXTURE_GIFS.map(toFixtureGif), options),
+    categories: async () => FIXTURE_CATEGORIES.map(name => ({
+      name,
+      searchTerm: name,
+      preview: toFixtureGif(FIXTURE_GIFS.find(gif => gif.tags.includes(name)) ?? FIXTURE_GIFS[0]).preview,
+    })),
+  };
+};
+
+// GIF_PROVIDER=fixtures switches to the bundled GIFs; otherwise Tenor is used
+export const getGifProvider = (): GifProvider => {
+  if (Deno.env.get('GIF_PROVIDER') === 'fixtures') return createFixtureProvider();
+
+  const tenorApiKey = Deno.env.get('TENOR_API_KEY');
+  if (!tenorApiKey) throw new GifProviderError('Tenor API key not configured', 500);
+  return createTenorProvider(tenorApiKey);
+};
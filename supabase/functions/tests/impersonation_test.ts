@@ -0,0 +1,132 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// These call the deployed functions, so they need a local stack
+// (`supabase start` and `supabase functions serve`) with SUPABASE_URL,
+// SUPABASE_ANON_KEY and SUPABASE_SERVICE_ROLE_KEY set. Without one they are skipped.
+const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY') ?? '';
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+const ignore = !supabaseUrl || !supabaseAnonKey || !supabaseServiceKey;
+
+const MISMATCH_ERROR = 'sender_id does not match the signed-in user';
+
+interface TestUser {
+  id: string;
+  token: string;
+}
+
+const clientOptions = { auth: { persistSession: false, autoRefreshToken: false } };
+
+const createUser = async (admin: SupabaseClient, name: string): Promise<TestUser> => {
+  const email = `${name}-${crypto.randomUUID()}@example.edu`;
+  const password = crypto.randomUUID();
+  const { data, error } = await admin.auth.admin.createUser({
+    email,
+    password,
+    email_confirm: true,
+    user_metadata: { name },
+  });
+  if (error) throw error;
+
+  const client = createClient(supabaseUrl, supabaseAnonKey, clientOptions);
+  const { data: signIn, error: signInError } = await client.auth.signInWithPassword({ email, password });
+  if (signInError) throw signInError;
+  return { id: data.user.id, token: signIn.session.access_token };
+};
+
+// The caller is signed in; the victim is who they try to act as
+const withUsers = async (
+  test: (admin: SupabaseClient, caller: TestUser, victim: TestUser, other: TestUser) => Promise<void>,
+) => {
+  const admin = createClient(supabaseUrl, supabaseServiceKey, clientOptions);
+  const users: TestUser[] = [];
+  try {
+    for (const name of ['caller', 'victim', 'other']) {
+      users.push(await createUser(admin, name));
+    }
+    await test(admin, users[0], users[1], users[2]);
+  } finally {
+    for (const user of users) {
+      await admin.auth.admin.deleteUser(user.id);
+    }
+  }
+};
+
+const invoke = (name: string, caller: TestUser, body: unknown) =>
+  fetch(`${supabaseUrl}/functions/v1/${name}`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${caller.token}`,
+      apikey: supabaseAnonKey,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+const assertRejected = async (response: Response) => {
+  assertEquals(response.status, 403);
+  assertEquals((await response.json()).error, MISMATCH_ERROR);
+};
+
+Deno.test({
+  name: 'sanitize-message rejects messages sent as someone else',
+  ignore,
+  fn: () =>
+    withUsers(async (admin, caller, victim, other) => {
+      const content = `impersonated ${crypto.randomUUID()}`;
+      await assertRejected(
+        await invoke('sanitize-message', caller, {
+          message: { sender_id: victim.id, recipient_id: other.id, content },
+        }),
+      );
+
+      const { data, error } = await admin.from('messages').select('id').eq('content', content);
+      assertEquals(error, null);
+      assertEquals(data, []);
+    }),
+});
+
+Deno.test({
+  name: 'sanitize-message rejects edits made as someone else',
+  ignore,
+  fn: () =>
+    withUsers(async (admin, caller, victim) => {
+      const { data: message, error } = await admin
+        .from('messages')
+        .insert({ sender_id: victim.id, recipient_id: caller.id, content: 'the original' })
+        .select('id')
+        .single();
+      if (error) throw error;
+
+      await assertRejected(
+        await invoke('sanitize-message', caller, {
+          action: 'edit',
+          sender_id: victim.id,
+          message_id: message.id,
+          content: 'words put in their mouth',
+        }),
+      );
+
+      const { data: after } = await admin.from('messages').select('content, edited_at').eq('id', message.id).single();
+      assertEquals(after, { content: 'the original', edited_at: null });
+
+      const { data: edits } = await admin.from('message_edits').select('id').eq('message_id', message.id);
+      assertEquals(edits, []);
+    }),
+});
+
+Deno.test({
+  name: 'dm-request rejects requests sent as someone else',
+  ignore,
+  fn: () =>
+    withUsers(async (admin, caller, victim, other) => {
+      await assertRejected(
+        await invoke('dm-request', caller, { action: 'send', sender_id: victim.id, recipient_id: other.id }),
+      );
+
+      const { data, error } = await admin.from('dm_requests').select('id').eq('sender_id', victim.id);
+      assertEquals(error, null);
+      assertEquals(data, []);
+    }),
+});
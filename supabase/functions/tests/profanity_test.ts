@@ -0,0 +1,96 @@
+import { assert, assertEquals, assertRejects } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createProfanityFilter, loadWordLists, WordListsUnavailableError } from '../_shared/profanity.ts';
+
+// The default lists from the profanity_words migration
+const filter = createProfanityFilter({
+  blocked: ['damn', 'hell', 'stupid', 'dumb', 'idiot', 'hate', 'kill', 'die', 'crap', 'poop', 'butt', 'heck'],
+  allowed: ['butter', 'butters', 'buttered', 'buttering', 'dies'],
+});
+
+const blocks = (text: string) => assert(filter.hasProfanity(text), `expected "${text}" to be blocked`);
+const allows = (text: string) => assert(!filter.hasProfanity(text), `expected "${text}" to be allowed`);
+
+Deno.test('masks blocked words character for character', () => {
+  assertEquals(filter.clean('well damn it'), 'well **** it');
+  assertEquals(filter.clean('Damn!'), '****!');
+  assertEquals(filter.clean('nothing to see'), 'nothing to see');
+});
+
+Deno.test('catches look-alike characters', () => {
+  ['d@mn', 'h3ll', 'stup1d', 'id1ot', '1d!ot', 'cr@p', 'k1ll', 'k!ll', '$tupid', 'h4t3', 'd1e'].forEach(blocks);
+  // Numbers after letters are codes, not look-alikes
+  ['room D13', 'CS101', 'B12'].forEach(allows);
+  assertEquals(filter.clean('meet in room D13'), 'meet in room D13');
+});
+
+Deno.test('catches stretched letters and accents', () => {
+  ['daaamn', 'heeellll', 'stuuupid', 'dámn', 'ĥell'].forEach(blocks);
+  // Letters can repeat but not go missing
+  allows('pop');
+});
+
+Deno.test('catches spelled-out words', () => {
+  ['d a m n', 'd.a.m.n', 'd-a-m-n', 'D_A_M_N', 's t u p i d'].forEach(blocks);
+  assertEquals(filter.clean('you d a m n thing'), 'you * * * * thing');
+  // The run has to spell the whole word
+  ['h e l l o', 'a b c d', 'i d o n t'].forEach(allows);
+});
+
+Deno.test('catches inflections', () => {
+  ['damns', 'damned', 'idiots', 'killing', 'killer', 'killers', 'crappy', 'butts', 'hells'].forEach(blocks);
+});
+
+Deno.test('catches words run together with another', () => {
+  ['damnit', 'butthead', 'buttheads', 'poopface', 'DAMNIT'].forEach(blocks);
+  assertEquals(filter.clean('oh damnit'), 'oh ******');
+});
+
+Deno.test('catches inflections of words ending in e', () => {
+  ['hate', 'hates', 'hated', 'hater', 'haters', 'hating', 'haaated', 'h4ted', 'died', 'dying', 'dyyying'].forEach(blocks);
+  // A doubled letter before the dropped e is a different word, and y doesn't replace it
+  ['hatter', 'hats', 'hat', 'diy', 'DIY'].forEach(allows);
+  assertEquals(filter.clean('my DIY project'), 'my DIY project');
+});
+
+Deno.test('leaves words that merely contain a blocked word alone', () => {
+  ['hello', 'shell', 'Scunthorpe', 'skill', 'diet', 'hatch', 'crappie', 'buttress', 'assassin', 'class'].forEach(allows);
+});
+
+Deno.test('honours the allowlist', () => {
+  ['butter', 'Buttered', 'BUTTERING', 'dies'].forEach(allows);
+  assertEquals(filter.clean('pass the butter, butthead'), 'pass the butter, ********');
+  blocks('butts');
+});
+
+Deno.test('school lists add blocked words and allowlist false positives', () => {
+  const school = createProfanityFilter({ blocked: ['frick', 'ass'], allowed: ['asses'] });
+  ['fricking', 'fr1ck', 'f r i c k', 'ass'].forEach(text => assert(school.hasProfanity(text), text));
+  ['asses', 'assess', 'class'].forEach(text => assert(!school.hasProfanity(text), text));
+});
+
+// Just enough of the query builder for loadWordLists
+const fakeClient = (result: { data: unknown; error: unknown }) => {
+  const query = {
+    select: () => query,
+    or: () => query,
+    is: () => query,
+    then: (resolve: (value: unknown) => unknown) => Promise.resolve(result).then(resolve),
+  };
+  return { from: () => query } as unknown as SupabaseClient;
+};
+
+Deno.test('loads blocked and allowed words', async () => {
+  const lists = await loadWordLists(
+    fakeClient({ data: [{ word: 'damn', kind: 'block' }, { word: 'butter', kind: 'allow' }], error: null }),
+    'school-id',
+  );
+  assertEquals(lists, { blocked: ['damn'], allowed: ['butter'] });
+});
+
+Deno.test('fails closed when the word lists cannot be loaded', async () => {
+  await assertRejects(
+    () => loadWordLists(fakeClient({ data: null, error: { message: 'connection refused' } }), null),
+    WordListsUnavailableError,
+  );
+});
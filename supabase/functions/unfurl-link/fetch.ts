@@ -0,0 +1,376 @@
+// Fetching pages on behalf of users is a server-side request forgery risk: a
+// message could link to the database host or cloud metadata service. Only
+// public http(s) hosts are fetched, the checked address is the one connected
+// to, every redirect is checked the same way, and time and size are capped.
+
+const MAX_REDIRECTS = 3;
+const TIMEOUT_MS = 5000;
+const MAX_HTML_BYTES = 512 * 1024;
+const MAX_IMAGE_BYTES = 2 * 1024 * 1024;
+const MAX_HEADER_BYTES = 16 * 1024;
+const READ_CHUNK_BYTES = 16 * 1024;
+const USER_AGENT = 'PeerLinkBot/1.0 (link previews)';
+
+// For local development against a fixture server on localhost. Read on every
+// request so tests can turn it on only where they need it.
+const allowPrivateHosts = () => Deno.env.get('UNFURL_ALLOW_PRIVATE_HOSTS') === 'true';
+
+export class UnfurlError extends Error {}
+
+const isPrivateIPv4 = (address: string) => {
+  const [a, b] = address.split('.').map(Number);
+  return a === 0
+    || a === 10
+    || a === 127
+    || (a === 100 && b >= 64 && b <= 127)
+    || (a === 169 && b === 254)
+    || (a === 172 && b >= 16 && b <= 31)
+    || (a === 192 && b === 168)
+    || (a === 198 && (b === 18 || b === 19))
+    || a >= 224;
+};
+
+// The eight 16-bit groups of an IPv6 address, or null when it isn't one
+const parseIPv6 = (address: string) => {
+  let text = address.toLowerCase().replace(/^\[|\]$/g, '').replace(/%.*$/, '');
+
+  // A trailing dotted IPv4 part stands for the last two groups
+  const dotted = text.match(/^(.*:)(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(2).map(Number);
+    if ([a, b, c, d].some((octet) => octet > 255)) return null;
+    text = `${dotted[1]}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  if (groups.some((group) => !/^[0-9a-f]{1,4}$/.test(group))) return null;
+  return groups.map((group) => parseInt(group, 16));
+};
+
+const embeddedIPv4 = (high: number, low: number) => `${high >> 8}.${high & 0xff}.${low >> 8}.${low & 0xff}`;
+
+const isPrivateIPv6 = (address: string) => {
+  const groups = parseIPv6(address);
+  if (!groups) return true;
+
+  const [first, second] = groups;
+  const zeroUpTo = (end: number) => groups.slice(0, end).every((group) => group === 0);
+  const isMapped = zeroUpTo(5) && groups[5] === 0xffff;
+  const isNat64 = first === 0x64 && second === 0xff9b && groups.slice(2, 6).every((group) => group === 0);
+
+  // IPv4-mapped (::ffff:a.b.c.d), IPv4-compatible (::a.b.c.d, which covers ::
+  // and ::1) and NAT64 (64:ff9b::a.b.c.d) addresses reach an IPv4 host. URL
+  // parsing writes them in hex, e.g. ::ffff:a9fe:a9fe for 169.254.169.254.
+  if (isMapped || zeroUpTo(6) || isNat64) {
+    return isPrivateIPv4(embeddedIPv4(groups[6], groups[7]));
+  }
+  // 6to4 carries the IPv4 address in the second and third groups
+  if (first === 0x2002) {
+    return isPrivateIPv4(embeddedIPv4(second, groups[2]));
+  }
+
+  return (first === 0x64 && second === 0xff9b) // Local-use NAT64
+    || (first === 0x2001 && (second === 0 || second === 0xdb8)) // Teredo, documentation
+    || (first & 0xfe00) === 0xfc00 // Unique local
+    || (first & 0xffc0) === 0xfe80 // Link-local
+    || (first & 0xffc0) === 0xfec0 // Site-local
+    || (first & 0xff00) === 0xff00; // Multicast
+};
+
+const isIPv4 = (host: string) => /^\d+\.\d+\.\d+\.\d+$/.test(host);
+const isIPv6 = (host: string) => host.includes(':');
+
+// The address to connect to for a link. It is resolved once here and then
+// connected to directly: letting fetch look the name up again would let a
+// rebinding DNS server answer with a private address the second time.
+const resolvePublicAddress = async (url: URL) => {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new UnfurlError('Only http and https links can be previewed');
+  }
+  if (url.username || url.password) {
+    throw new UnfurlError('Links with credentials are not previewed');
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  // Fixture servers are often named in /etc/hosts, which resolveDns doesn't read;
+  // Deno.connect looks the name up itself
+  if (allowPrivateHosts()) return host;
+
+  if (url.port && url.port !== '80' && url.port !== '443') {
+    throw new UnfurlError('Links on unusual ports are not previewed');
+  }
+
+  let addresses: string[];
+  if (isIPv4(host) || isIPv6(host)) {
+    addresses = [host];
+  } else {
+    const [v4, v6] = await Promise.all([
+      Deno.resolveDns(host, 'A').catch(() => [] as string[]),
+      Deno.resolveDns(host, 'AAAA').catch(() => [] as string[]),
+    ]);
+    addresses = [...v4, ...v6];
+  }
+
+  if (addresses.length === 0) {
+    throw new UnfurlError('Host could not be resolved');
+  }
+  if (addresses.some((address) => (isIPv6(address) ? isPrivateIPv6(address) : isPrivateIPv4(address)))) {
+    throw new UnfurlError('Private addresses are not previewed');
+  }
+  return addresses[0];
+};
+
+const encoder = new TextEncoder();
+
+const writeAll = async (conn: Deno.Conn, bytes: Uint8Array) => {
+  let written = 0;
+  while (written < bytes.length) {
+    written += await conn.write(bytes.subarray(written));
+  }
+};
+
+const concat = (chunks: Uint8Array[]) => {
+  const bytes = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+};
+
+const findHeadEnd = (bytes: Uint8Array) => {
+  for (let i = 0; i + 3 < bytes.length; i++) {
+    if (bytes[i] === 13 && bytes[i + 1] === 10 && bytes[i + 2] === 13 && bytes[i + 3] === 10) return i;
+  }
+  return -1;
+};
+
+// An HTTP/1.0 GET over a connection to the given address. HTTP/1.0 keeps the
+// body plain: no chunked encoding, and it ends when the server closes the
+// connection. The body streams from the connection, which closes once the body
+// is read or cancelled, or when the request runs out of time.
+const request = async (url: URL, address: string, accept: string) => {
+  const port = Number(url.port) || (url.protocol === 'https:' ? 443 : 80);
+  let conn: Deno.Conn | null = null;
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const close = () => {
+    clearTimeout(timer);
+    try {
+      conn?.close();
+    } catch {
+      // Already closed
+    }
+  };
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      timedOut = true;
+      close();
+      reject(new UnfurlError('Page took too long to answer'));
+    }, TIMEOUT_MS);
+  });
+
+  const exchange = async () => {
+    let socket: Deno.Conn = await Deno.connect({ hostname: address, port });
+    conn = socket;
+    if (timedOut) close();
+    // The certificate is still checked against the link's hostname
+    if (url.protocol === 'https:') {
+      socket = await Deno.startTls(socket as Deno.TcpConn, { hostname: url.hostname.replace(/^\[|\]$/g, '') });
+      conn = socket;
+    }
+
+    await writeAll(socket, encoder.encode([
+      `GET ${url.pathname}${url.search} HTTP/1.0`,
+      `Host: ${url.host}`,
+      `User-Agent: ${USER_AGENT}`,
+      `Accept: ${accept}`,
+      'Accept-Encoding: identity',
+      'Connection: close',
+      '',
+      '',
+    ].join('\r\n')));
+
+    const chunks: Uint8Array[] = [];
+    let received = new Uint8Array(0);
+    let headEnd = -1;
+    while (headEnd < 0) {
+      const buffer = new Uint8Array(READ_CHUNK_BYTES);
+      const read = await socket.read(buffer);
+      if (read === null) throw new UnfurlError('Page closed the connection');
+      chunks.push(buffer.subarray(0, read));
+      received = concat(chunks);
+      headEnd = findHeadEnd(received);
+      if (headEnd < 0 && received.length > MAX_HEADER_BYTES) throw new UnfurlError('Response headers are too large');
+    }
+
+    const [statusLine, ...headerLines] = new TextDecoder().decode(received.subarray(0, headEnd)).split('\r\n');
+    const status = Number(statusLine.match(/^HTTP\/1\.[01] (\d{3})\b/)?.[1]);
+    if (!(status >= 200 && status <= 599)) throw new UnfurlError('Malformed response');
+
+    const headers = new Headers();
+    for (const line of headerLines) {
+      const separator = line.indexOf(':');
+      if (separator <= 0) continue;
+      try {
+        headers.append(line.slice(0, separator).trim(), line.slice(separator + 1).trim());
+      } catch {
+        throw new UnfurlError('Malformed response');
+      }
+    }
+
+    const encoding = headers.get('Content-Encoding')?.toLowerCase();
+    if ((encoding && encoding !== 'identity') || headers.has('Transfer-Encoding')) {
+      throw new UnfurlError('Encoded responses are not previewed');
+    }
+
+    if ([204, 205, 304].includes(status)) {
+      close();
+      return new Response(null, { status, headers });
+    }
+
+    const source = socket;
+    const length = Number(headers.get('Content-Length') ?? NaN);
+    let remaining = Number.isInteger(length) && length >= 0 ? length : Infinity;
+    // Body bytes that arrived along with the headers
+    const initial = received.subarray(headEnd + 4);
+
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        if (initial.length > 0 && remaining > 0) {
+          const chunk = initial.subarray(0, Math.min(initial.length, remaining));
+          controller.enqueue(chunk);
+          remaining -= chunk.length;
+        }
+      },
+      async pull(controller) {
+        const buffer = new Uint8Array(Math.min(READ_CHUNK_BYTES, remaining));
+        let read: number | null = null;
+        try {
+          if (remaining > 0) read = await source.read(buffer);
+        } catch (error) {
+          close();
+          throw timedOut ? new UnfurlError('Page took too long to answer') : error;
+        }
+        if (read === null) {
+          close();
+          controller.close();
+          return;
+        }
+        controller.enqueue(buffer.subarray(0, read));
+        remaining -= read;
+      },
+      cancel: close,
+    });
+
+    return new Response(body, { status, headers });
+  };
+
+  try {
+    return await Promise.race([exchange(), timeout]);
+  } catch (error) {
+    close();
+    throw error;
+  }
+};
+
+// Reads at most limit bytes of the body
+const readLimited = async (response: Response, limit: number) => {
+  const reader = response.body?.getReader();
+  if (!reader) return new Uint8Array(0);
+
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  while (received < limit) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    received += value.length;
+  }
+  await reader.cancel().catch(() => {});
+
+  return concat(chunks).subarray(0, limit);
+};
+
+// The final response for a link and the URL it came from, after redirects
+const fetchPublic = async (link: string, accept: string) => {
+  let url = new URL(link);
+
+  for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+    const address = await resolvePublicAddress(url);
+    const response = await request(url, address, accept);
+
+    const location = response.headers.get('Location');
+    if (response.status >= 300 && response.status < 400 && location) {
+      await response.body?.cancel();
+      url = new URL(location, url);
+      continue;
+    }
+
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new UnfurlError(`Page answered ${response.status}`);
+    }
+
+    return { response, url };
+  }
+
+  throw new UnfurlError('Too many redirects');
+};
+
+// The page's HTML and the URL it was finally served from, after redirects.
+// The metadata lives in <head>, so MAX_HTML_BYTES is plenty.
+export const fetchHtml = async (link: string) => {
+  const { response, url } = await fetchPublic(link, 'text/html,application/xhtml+xml');
+
+  const contentType = response.headers.get('Content-Type') || '';
+  if (!/text\/html|application\/xhtml\+xml/i.test(contentType)) {
+    await response.body?.cancel();
+    throw new UnfurlError('Not an HTML page');
+  }
+
+  const bytes = await readLimited(response, MAX_HTML_BYTES);
+  return { html: new TextDecoder().decode(bytes), url };
+};
+
+// The type comes from the file's own signature rather than the Content-Type
+// header, so nothing but these four formats gets stored
+const detectImageType = (bytes: Uint8Array) => {
+  const text = (start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end));
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg';
+  if (text(0, 8) === '\x89PNG\r\n\x1a\n') return 'image/png';
+  if (text(0, 6) === 'GIF87a' || text(0, 6) === 'GIF89a') return 'image/gif';
+  if (text(0, 4) === 'RIFF' && text(8, 12) === 'WEBP') return 'image/webp';
+  return null;
+};
+
+// A preview image, fetched with the same checks as the page
+export const fetchImage = async (link: string) => {
+  const { response } = await fetchPublic(link, 'image/jpeg,image/png,image/gif,image/webp');
+
+  if (Number(response.headers.get('Content-Length')) > MAX_IMAGE_BYTES) {
+    await response.body?.cancel();
+    throw new UnfurlError('Image is too large');
+  }
+
+  const bytes = await readLimited(response, MAX_IMAGE_BYTES + 1);
+  if (bytes.length > MAX_IMAGE_BYTES) {
+    throw new UnfurlError('Image is too large');
+  }
+
+  const type = detectImageType(bytes);
+  if (!type) {
+    throw new UnfurlError('Not a supported image');
+  }
+  return { bytes, type };
+};
@@ -0,0 +1,173 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+import { getCaller } from '../_shared/auth.ts';
+import { fetchHtml, fetchImage, UnfurlError } from './fetch.ts';
+import { parseMetadata, type LinkMetadata } from './metadata.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+// Previews are refreshed after a week; failed lookups are retried after a day
+const PREVIEW_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const FAILED_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_URL_LENGTH = 2048;
+
+// Must match src/components/LinkPreviewCard.tsx
+const PREVIEW_IMAGE_BUCKET = 'link-preview-images';
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+};
+
+// Must match src/lib/links.ts
+const LINK_PATTERN = /\bhttps?:\/\/[^\s<>"]+/i;
+const TRAILING_PUNCTUATION = /[.,!?;:'")\]]+$/;
+
+const findFirstLink = (content: string | null) => {
+  const match = content?.match(LINK_PATTERN)?.[0].replace(TRAILING_PUNCTUATION, '');
+  if (!match) return null;
+  try {
+    const url = new URL(match);
+    // Fragments don't change the page, so they'd only split the cache
+    url.hash = '';
+    return url.href.length <= MAX_URL_LENGTH ? url.href : null;
+  } catch {
+    return null;
+  }
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Copies a page's preview image into storage, so people who see the message load
+// it from us instead of handing their IP address to whoever posted the link.
+// Returns the storage path, or null when there's no usable image.
+const storePreviewImage = async (pageUrl: string, imageUrl: string) => {
+  try {
+    const image = await fetchImage(imageUrl);
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(pageUrl));
+    const name = [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+    const path = `${name}.${IMAGE_EXTENSIONS[image.type]}`;
+
+    const { error } = await supabase.storage
+      .from(PREVIEW_IMAGE_BUCKET)
+      .upload(path, image.bytes, { contentType: image.type, upsert: true });
+    if (error) throw error;
+    return path;
+  } catch (error) {
+    console.log('Could not store preview image:', imageUrl, error instanceof UnfurlError ? error.message : error);
+    return null;
+  }
+};
+
+// The cached preview for a link, fetching the page when there's none or it's stale
+const getPreview = async (url: string) => {
+  const { data: cached } = await supabase
+    .from('link_previews')
+    .select('*')
+    .eq('url', url)
+    .maybeSingle();
+
+  const ttl = cached?.ok ? PREVIEW_TTL_MS : FAILED_TTL_MS;
+  if (cached && Date.now() - new Date(cached.fetched_at).getTime() < ttl) {
+    return cached;
+  }
+
+  let preview: LinkMetadata & { url: string; ok: boolean };
+  try {
+    const page = await fetchHtml(url);
+    const metadata = parseMetadata(page.html, page.url);
+    // A page without a title makes for an empty card
+    const ok = !!metadata.title;
+    const imagePath = ok && metadata.image_url ? await storePreviewImage(url, metadata.image_url) : null;
+    preview = { url, ok, ...metadata, image_url: imagePath };
+  } catch (error) {
+    console.log('Could not unfurl link:', url, error instanceof UnfurlError ? error.message : error);
+    preview = { url, ok: false, title: null, description: null, image_url: null, site_name: null };
+  }
+
+  const { data, error } = await supabase
+    .from('link_previews')
+    .upsert({ ...preview, fetched_at: new Date().toISOString() })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error caching link preview:', error);
+    throw error;
+  }
+  return data;
+};
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const caller = await getCaller(req);
+    if (!caller) {
+      return jsonResponse({ error: 'Not authenticated' }, 401);
+    }
+
+    const { message_id } = await req.json();
+    if (!message_id) {
+      return jsonResponse({ error: 'message_id is required' }, 400);
+    }
+
+    const { data: message, error: fetchError } = await supabase
+      .from('messages')
+      .select('id, sender_id, content, deleted_at, link_preview_url')
+      .eq('id', message_id)
+      .maybeSingle();
+
+    if (fetchError || !message) {
+      console.error('Error fetching message to unfurl:', fetchError);
+      return jsonResponse({ error: 'Message not found' }, 404);
+    }
+
+    // Only the sender unfurls, so nobody can make the function fetch links for others' messages
+    if (message.sender_id !== caller.id) {
+      return jsonResponse({ error: 'You can only add previews to your own messages' }, 403);
+    }
+
+    if (message.deleted_at) {
+      return jsonResponse({ error: 'Deleted messages have no preview' }, 400);
+    }
+
+    const url = findFirstLink(message.content);
+    const preview = url ? await getPreview(url) : null;
+    const previewUrl = preview?.ok ? preview.url : null;
+
+    if (previewUrl === message.link_preview_url) {
+      return jsonResponse({ preview: preview?.ok ? preview : null });
+    }
+
+    // Guard against an edit that landed while the page was being fetched
+    const { data, error } = await supabase
+      .from('messages')
+      .update({ link_preview_url: previewUrl })
+      .eq('id', message.id)
+      .eq('content', message.content)
+      .is('deleted_at', null)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error attaching link preview:', error);
+      return jsonResponse({ error: error.message }, 400);
+    }
+
+    return jsonResponse({ data, preview: preview?.ok ? preview : null });
+  } catch (error) {
+    console.error('Error in unfurl-link function:', error);
+    return jsonResponse({ error: 'Internal server error' }, 500);
+  }
+});
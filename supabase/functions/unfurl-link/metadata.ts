@@ -0,0 +1,79 @@
+export interface LinkMetadata {
+  title: string | null;
+  description: string | null;
+  image_url: string | null;
+  site_name: string | null;
+}
+
+const MAX_TITLE_LENGTH = 300;
+const MAX_DESCRIPTION_LENGTH = 500;
+const MAX_SITE_NAME_LENGTH = 100;
+const MAX_URL_LENGTH = 2048;
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+const decodeEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+
+const clean = (value: string | undefined, maxLength: number) => {
+  if (!value) return null;
+  const text = decodeEntities(value).replace(/\s+/g, ' ').trim();
+  if (!text) return null;
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+};
+
+// Attributes of every <meta> tag, keyed by property or name
+const readMetaTags = (html: string) => {
+  const tags = new Map<string, string>();
+  for (const [tag] of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const attributes: Record<string, string> = {};
+    for (const match of tag.matchAll(/([a-z:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/gi)) {
+      attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4] ?? '';
+    }
+    const key = (attributes.property || attributes.name || '').toLowerCase();
+    if (key && attributes.content !== undefined && !tags.has(key)) {
+      tags.set(key, attributes.content);
+    }
+  }
+  return tags;
+};
+
+// unfurl-link copies the image into storage; only https images are fetched
+const resolveImage = (value: string | undefined, pageUrl: URL) => {
+  if (!value) return null;
+  try {
+    const url = new URL(decodeEntities(value.trim()), pageUrl);
+    return url.protocol === 'https:' && url.href.length <= MAX_URL_LENGTH ? url.href : null;
+  } catch {
+    return null;
+  }
+};
+
+// OpenGraph first, then Twitter cards, then plain HTML
+export const parseMetadata = (html: string, pageUrl: URL): LinkMetadata => {
+  const meta = readMetaTags(html);
+  const titleTag = html.match(/<title[^>]*>([^<]*)<\/title>/i)?.[1];
+
+  return {
+    title: clean(meta.get('og:title') ?? meta.get('twitter:title') ?? titleTag, MAX_TITLE_LENGTH),
+    description: clean(
+      meta.get('og:description') ?? meta.get('twitter:description') ?? meta.get('description'),
+      MAX_DESCRIPTION_LENGTH,
+    ),
+    image_url: resolveImage(meta.get('og:image') ?? meta.get('og:image:url') ?? meta.get('twitter:image'), pageUrl),
+    site_name: clean(meta.get('og:site_name') ?? pageUrl.hostname.replace(/^www\./, ''), MAX_SITE_NAME_LENGTH),
+  };
+};
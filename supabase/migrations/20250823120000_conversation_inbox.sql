@@ -0,0 +1,98 @@
+-- Conversation inbox: last-message previews and unread counts
+-- Each user keeps a private read cursor per conversation partner.
+CREATE TABLE public.conversation_reads (
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  partner_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  last_read_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, partner_id)
+);
+
+ALTER TABLE public.conversation_reads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own read cursors"
+ON public.conversation_reads
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Speeds up the per-conversation "latest message" lookups used by the inbox
+CREATE INDEX IF NOT EXISTS idx_messages_conversation_created_at
+ON public.messages(sender_id, recipient_id, created_at DESC);
+
+-- Mark every message from a partner as read up to now
+CREATE OR REPLACE FUNCTION public.mark_conversation_read(p_partner_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.conversation_reads (user_id, partner_id, last_read_at)
+  VALUES (auth.uid(), p_partner_id, now())
+  ON CONFLICT (user_id, partner_id)
+  DO UPDATE SET last_read_at = EXCLUDED.last_read_at;
+END;
+$$;
+
+-- One row per conversation partner of the caller, newest activity first
+CREATE OR REPLACE FUNCTION public.get_inbox()
+RETURNS TABLE (
+  partner_id UUID,
+  partner_name TEXT,
+  partner_avatar_url TEXT,
+  last_message_id UUID,
+  last_message_content TEXT,
+  last_message_media_type TEXT,
+  last_message_has_image BOOLEAN,
+  last_message_sender_id UUID,
+  last_message_at TIMESTAMP WITH TIME ZONE,
+  unread_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH my_messages AS (
+    SELECT
+      m.*,
+      CASE WHEN m.sender_id = auth.uid() THEN m.recipient_id ELSE m.sender_id END AS other_id
+    FROM public.messages m
+    WHERE m.sender_id = auth.uid() OR m.recipient_id = auth.uid()
+  ),
+  latest AS (
+    SELECT DISTINCT ON (other_id) *
+    FROM my_messages
+    ORDER BY other_id, created_at DESC, id DESC
+  ),
+  unread AS (
+    SELECT mm.other_id, count(*) AS unread_count
+    FROM my_messages mm
+    LEFT JOIN public.conversation_reads cr
+      ON cr.user_id = auth.uid() AND cr.partner_id = mm.other_id
+    WHERE mm.recipient_id = auth.uid()
+      AND (cr.last_read_at IS NULL OR mm.created_at > cr.last_read_at)
+    GROUP BY mm.other_id
+  )
+  SELECT
+    l.other_id,
+    u.name,
+    u.avatar_url,
+    l.id,
+    l.content,
+    l.media_type,
+    l.image_url IS NOT NULL,
+    l.sender_id,
+    l.created_at,
+    COALESCE(un.unread_count, 0)
+  FROM latest l
+  JOIN public.users u ON u.id = l.other_id
+  LEFT JOIN unread un ON un.other_id = l.other_id
+  ORDER BY l.created_at DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.mark_conversation_read(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_inbox() TO authenticated;
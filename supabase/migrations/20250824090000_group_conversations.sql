@@ -0,0 +1,386 @@
+-- Group conversations with membership and roles
+-- Direct messages keep using sender_id/recipient_id; group messages carry a
+-- conversation_id instead of a recipient.
+CREATE TYPE public.conversation_role AS ENUM ('owner', 'admin', 'member');
+
+CREATE TABLE public.conversations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 80),
+  avatar_url TEXT,
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.conversation_members (
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  role conversation_role NOT NULL DEFAULT 'member',
+  last_read_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  joined_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (conversation_id, user_id)
+);
+
+CREATE INDEX idx_conversation_members_user ON public.conversation_members(user_id);
+
+CREATE TRIGGER update_conversations_updated_at
+BEFORE UPDATE ON public.conversations
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Group messages: recipient_id is null and conversation_id is set
+ALTER TABLE public.messages
+  ADD COLUMN conversation_id UUID REFERENCES public.conversations(id) ON DELETE CASCADE;
+ALTER TABLE public.messages ALTER COLUMN recipient_id DROP NOT NULL;
+ALTER TABLE public.messages
+  ADD CONSTRAINT messages_target_check CHECK ((recipient_id IS NULL) <> (conversation_id IS NULL));
+
+CREATE INDEX idx_messages_group_created_at ON public.messages(conversation_id, created_at DESC);
+
+-- Membership helpers (SECURITY DEFINER so policies on conversation_members
+-- can use them without recursing into themselves)
+CREATE OR REPLACE FUNCTION public.is_conversation_member(p_conversation_id UUID, p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.conversation_members
+    WHERE conversation_id = p_conversation_id AND user_id = p_user_id
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_conversation_role(p_conversation_id UUID, p_user_id UUID)
+RETURNS conversation_role
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM public.conversation_members
+  WHERE conversation_id = p_conversation_id AND user_id = p_user_id;
+$$;
+
+-- RLS
+ALTER TABLE public.conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.conversation_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their conversations"
+ON public.conversations
+FOR SELECT
+USING (public.is_conversation_member(id, auth.uid()));
+
+CREATE POLICY "Owners and admins can update conversations"
+ON public.conversations
+FOR UPDATE
+USING (public.get_conversation_role(id, auth.uid()) IN ('owner', 'admin'));
+
+CREATE POLICY "Owners can delete conversations"
+ON public.conversations
+FOR DELETE
+USING (public.get_conversation_role(id, auth.uid()) = 'owner');
+
+CREATE POLICY "Members can view fellow members"
+ON public.conversation_members
+FOR SELECT
+USING (public.is_conversation_member(conversation_id, auth.uid()));
+
+-- Membership changes go through the functions below
+DROP POLICY IF EXISTS "Users can read their own messages" ON public.messages;
+CREATE POLICY "Users can read their own messages" ON public.messages
+  FOR SELECT USING (
+    auth.uid() = sender_id
+    OR auth.uid() = recipient_id
+    OR (conversation_id IS NOT NULL AND public.is_conversation_member(conversation_id, auth.uid()))
+  );
+
+DROP POLICY IF EXISTS "Users can send messages" ON public.messages;
+CREATE POLICY "Users can send messages" ON public.messages
+  FOR INSERT WITH CHECK (
+    auth.uid() = sender_id
+    AND (conversation_id IS NULL OR public.is_conversation_member(conversation_id, auth.uid()))
+  );
+
+-- Create a group with the caller as owner
+CREATE OR REPLACE FUNCTION public.create_group_conversation(p_name TEXT, p_member_ids UUID[])
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_conversation_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.conversations (name, created_by)
+  VALUES (btrim(p_name), auth.uid())
+  RETURNING id INTO new_conversation_id;
+
+  INSERT INTO public.conversation_members (conversation_id, user_id, role)
+  VALUES (new_conversation_id, auth.uid(), 'owner');
+
+  INSERT INTO public.conversation_members (conversation_id, user_id, role)
+  SELECT new_conversation_id, member_id, 'member'
+  FROM unnest(COALESCE(p_member_ids, '{}')) AS member_id
+  WHERE member_id <> auth.uid()
+  ON CONFLICT DO NOTHING;
+
+  RETURN new_conversation_id;
+END;
+$$;
+
+-- Owners and admins can add members
+CREATE OR REPLACE FUNCTION public.add_conversation_members(p_conversation_id UUID, p_user_ids UUID[])
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(public.get_conversation_role(p_conversation_id, auth.uid()), 'member') = 'member' THEN
+    RAISE EXCEPTION 'Only group owners and admins can add members';
+  END IF;
+
+  INSERT INTO public.conversation_members (conversation_id, user_id, role)
+  SELECT p_conversation_id, member_id, 'member'
+  FROM unnest(p_user_ids) AS member_id
+  ON CONFLICT DO NOTHING;
+END;
+$$;
+
+-- Remove a member, or leave when removing yourself. Owners can remove anyone,
+-- admins can only remove plain members. An owner who leaves hands the group to
+-- the longest-standing admin (or member); the last one out deletes the group.
+CREATE OR REPLACE FUNCTION public.remove_conversation_member(p_conversation_id UUID, p_user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_role conversation_role;
+  target_role conversation_role;
+  successor_id UUID;
+BEGIN
+  caller_role := public.get_conversation_role(p_conversation_id, auth.uid());
+  target_role := public.get_conversation_role(p_conversation_id, p_user_id);
+
+  IF caller_role IS NULL OR target_role IS NULL THEN
+    RAISE EXCEPTION 'Not a member of this group';
+  END IF;
+
+  IF p_user_id <> auth.uid() AND NOT (
+    caller_role = 'owner' OR (caller_role = 'admin' AND target_role = 'member')
+  ) THEN
+    RAISE EXCEPTION 'You do not have permission to remove this member';
+  END IF;
+
+  DELETE FROM public.conversation_members
+  WHERE conversation_id = p_conversation_id AND user_id = p_user_id;
+
+  IF target_role = 'owner' THEN
+    SELECT user_id INTO successor_id
+    FROM public.conversation_members
+    WHERE conversation_id = p_conversation_id
+    ORDER BY (role = 'admin') DESC, joined_at ASC
+    LIMIT 1;
+
+    IF successor_id IS NULL THEN
+      DELETE FROM public.conversations WHERE id = p_conversation_id;
+    ELSE
+      UPDATE public.conversation_members SET role = 'owner'
+      WHERE conversation_id = p_conversation_id AND user_id = successor_id;
+    END IF;
+  END IF;
+END;
+$$;
+
+-- Only the owner can promote/demote. Making someone else owner demotes the caller to admin.
+CREATE OR REPLACE FUNCTION public.set_conversation_member_role(p_conversation_id UUID, p_user_id UUID, p_role conversation_role)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.get_conversation_role(p_conversation_id, auth.uid()) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only the group owner can change roles';
+  END IF;
+
+  IF p_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'Owners cannot change their own role';
+  END IF;
+
+  UPDATE public.conversation_members SET role = p_role
+  WHERE conversation_id = p_conversation_id AND user_id = p_user_id;
+
+  IF p_role = 'owner' THEN
+    UPDATE public.conversation_members SET role = 'admin'
+    WHERE conversation_id = p_conversation_id AND user_id = auth.uid();
+  END IF;
+END;
+$$;
+
+-- Member list with profiles; membership implies members can see each other
+CREATE OR REPLACE FUNCTION public.get_conversation_members(p_conversation_id UUID)
+RETURNS TABLE (
+  user_id UUID,
+  name TEXT,
+  avatar_url TEXT,
+  role conversation_role,
+  joined_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT cm.user_id, u.name, u.avatar_url, cm.role, cm.joined_at
+  FROM public.conversation_members cm
+  JOIN public.users u ON u.id = cm.user_id
+  WHERE cm.conversation_id = p_conversation_id
+    AND public.is_conversation_member(p_conversation_id, auth.uid())
+  ORDER BY cm.role, u.name;
+$$;
+
+CREATE OR REPLACE FUNCTION public.mark_group_read(p_conversation_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.conversation_members SET last_read_at = now()
+  WHERE conversation_id = p_conversation_id AND user_id = auth.uid();
+$$;
+
+-- Inbox now lists group conversations alongside direct ones
+DROP FUNCTION IF EXISTS public.get_inbox();
+CREATE OR REPLACE FUNCTION public.get_inbox()
+RETURNS TABLE (
+  partner_id UUID,
+  conversation_id UUID,
+  name TEXT,
+  avatar_url TEXT,
+  last_message_id UUID,
+  last_message_content TEXT,
+  last_message_media_type TEXT,
+  last_message_has_image BOOLEAN,
+  last_message_sender_id UUID,
+  last_message_sender_name TEXT,
+  last_message_at TIMESTAMP WITH TIME ZONE,
+  unread_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH my_messages AS (
+    SELECT
+      m.*,
+      CASE WHEN m.sender_id = auth.uid() THEN m.recipient_id ELSE m.sender_id END AS other_id
+    FROM public.messages m
+    WHERE m.conversation_id IS NULL
+      AND (m.sender_id = auth.uid() OR m.recipient_id = auth.uid())
+  ),
+  latest AS (
+    SELECT DISTINCT ON (other_id) *
+    FROM my_messages
+    ORDER BY other_id, created_at DESC, id DESC
+  ),
+  unread AS (
+    SELECT mm.other_id, count(*) AS unread_count
+    FROM my_messages mm
+    LEFT JOIN public.conversation_reads cr
+      ON cr.user_id = auth.uid() AND cr.partner_id = mm.other_id
+    WHERE mm.recipient_id = auth.uid()
+      AND (cr.last_read_at IS NULL OR mm.created_at > cr.last_read_at)
+    GROUP BY mm.other_id
+  ),
+  direct AS (
+    SELECT
+      l.other_id AS partner_id,
+      NULL::UUID AS conversation_id,
+      u.name,
+      u.avatar_url,
+      l.id AS last_message_id,
+      l.content AS last_message_content,
+      l.media_type AS last_message_media_type,
+      l.image_url IS NOT NULL AS last_message_has_image,
+      l.sender_id AS last_message_sender_id,
+      NULL::TEXT AS last_message_sender_name,
+      l.created_at AS last_message_at,
+      COALESCE(un.unread_count, 0) AS unread_count
+    FROM latest l
+    JOIN public.users u ON u.id = l.other_id
+    LEFT JOIN unread un ON un.other_id = l.other_id
+  ),
+  groups AS (
+    SELECT
+      NULL::UUID AS partner_id,
+      c.id AS conversation_id,
+      c.name,
+      c.avatar_url,
+      gm.id AS last_message_id,
+      gm.content AS last_message_content,
+      gm.media_type AS last_message_media_type,
+      gm.image_url IS NOT NULL AS last_message_has_image,
+      gm.sender_id AS last_message_sender_id,
+      su.name AS last_message_sender_name,
+      COALESCE(gm.created_at, c.created_at) AS last_message_at,
+      (
+        SELECT count(*) FROM public.messages um
+        WHERE um.conversation_id = c.id
+          AND um.sender_id <> auth.uid()
+          AND um.created_at > cm.last_read_at
+      ) AS unread_count
+    FROM public.conversation_members cm
+    JOIN public.conversations c ON c.id = cm.conversation_id
+    LEFT JOIN LATERAL (
+      SELECT * FROM public.messages m
+      WHERE m.conversation_id = c.id
+      ORDER BY m.created_at DESC, m.id DESC
+      LIMIT 1
+    ) gm ON true
+    LEFT JOIN public.users su ON su.id = gm.sender_id
+    WHERE cm.user_id = auth.uid()
+  )
+  SELECT * FROM direct
+  UNION ALL
+  SELECT * FROM groups
+  ORDER BY last_message_at DESC;
+$$;
+
+-- Storage: group uploads live under chat-images/{conversation_id}/{user_id}/
+CREATE OR REPLACE FUNCTION is_in_conversation(conversation_id TEXT, user_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  id1_text TEXT;
+  id2_text TEXT;
+BEGIN
+  IF char_length(conversation_id) = 36 THEN
+    RETURN public.is_conversation_member(conversation_id::UUID, user_id);
+  END IF;
+
+  id1_text := SUBSTRING(conversation_id FROM 1 FOR 36);
+  id2_text := SUBSTRING(conversation_id FROM 38);
+  RETURN user_id::text = id1_text OR user_id::text = id2_text;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION public.create_group_conversation(TEXT, UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.add_conversation_members(UUID, UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.remove_conversation_member(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_conversation_member_role(UUID, UUID, conversation_role) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_conversation_members(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.mark_group_read(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_inbox() TO authenticated;
+
+-- Realtime for membership changes
+ALTER PUBLICATION supabase_realtime ADD TABLE public.conversations;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.conversation_members;
@@ -0,0 +1,60 @@
+-- Read receipts and delivery states for direct messages
+ALTER TABLE public.messages
+  ADD COLUMN delivered_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN read_at TIMESTAMP WITH TIME ZONE;
+
+-- Privacy: users can stop sending read receipts
+ALTER TABLE public.users
+  ADD COLUMN read_receipts_enabled BOOLEAN NOT NULL DEFAULT true;
+
+CREATE INDEX idx_messages_recipient_undelivered
+ON public.messages(recipient_id)
+WHERE delivered_at IS NULL;
+
+-- Recipients have no UPDATE rights on messages, so delivery and read states
+-- are only ever stamped through these functions.
+CREATE OR REPLACE FUNCTION public.mark_messages_delivered()
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.messages SET delivered_at = now()
+  WHERE recipient_id = auth.uid() AND delivered_at IS NULL;
+$$;
+
+-- The private read cursor always moves (it drives unread counts); the
+-- per-message read_at the sender sees is only stamped when receipts are on.
+CREATE OR REPLACE FUNCTION public.mark_conversation_read(p_partner_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  receipts_enabled BOOLEAN;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.conversation_reads (user_id, partner_id, last_read_at)
+  VALUES (auth.uid(), p_partner_id, now())
+  ON CONFLICT (user_id, partner_id)
+  DO UPDATE SET last_read_at = EXCLUDED.last_read_at;
+
+  SELECT read_receipts_enabled INTO receipts_enabled
+  FROM public.users WHERE id = auth.uid();
+
+  UPDATE public.messages
+  SET
+    delivered_at = COALESCE(delivered_at, now()),
+    read_at = CASE WHEN receipts_enabled THEN now() ELSE read_at END
+  WHERE sender_id = p_partner_id
+    AND recipient_id = auth.uid()
+    AND (delivered_at IS NULL OR (receipts_enabled AND read_at IS NULL));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.mark_messages_delivered() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.mark_conversation_read(UUID) TO authenticated;
@@ -0,0 +1,33 @@
+-- "Last seen" timestamps for online presence. Live presence and typing
+-- indicators run over Realtime channels; only the last-seen time is stored.
+ALTER TABLE public.users
+  ADD COLUMN show_online_status BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN last_seen_at TIMESTAMP WITH TIME ZONE;
+
+-- Hiding your status also forgets the last time you were seen
+CREATE OR REPLACE FUNCTION public.clear_hidden_last_seen()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT NEW.show_online_status THEN
+    NEW.last_seen_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER clear_hidden_last_seen
+BEFORE UPDATE ON public.users
+FOR EACH ROW
+EXECUTE FUNCTION public.clear_hidden_last_seen();
+
+CREATE OR REPLACE FUNCTION public.touch_last_seen()
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.users SET last_seen_at = now()
+  WHERE id = auth.uid() AND show_online_status;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.touch_last_seen() TO authenticated;
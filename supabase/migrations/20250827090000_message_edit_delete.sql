@@ -0,0 +1,100 @@
+-- Edit and delete-for-everyone with a moderator-visible history
+ALTER TABLE public.messages
+  ADD COLUMN edited_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+
+-- Moderators can review message history
+CREATE TABLE public.moderators (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.moderators ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can see whether they are a moderator"
+ON public.moderators
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.is_moderator(p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.moderators WHERE user_id = p_user_id);
+$$;
+
+-- Every edit and deletion keeps the content as it was before the change
+CREATE TABLE public.message_edits (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  action TEXT NOT NULL CHECK (action IN ('edit', 'delete')),
+  previous_content TEXT,
+  previous_image_url TEXT,
+  edited_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_message_edits_message ON public.message_edits(message_id, created_at);
+
+ALTER TABLE public.message_edits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Moderators can view message history"
+ON public.message_edits
+FOR SELECT
+USING (public.is_moderator(auth.uid()));
+
+-- Edits must be re-filtered, so content changes only come from the
+-- sanitize-message function (service role). Deleting turns the row into a
+-- tombstone instead of removing it.
+CREATE OR REPLACE FUNCTION public.track_message_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.deleted_at IS NOT NULL THEN
+    IF NEW.deleted_at IS NULL OR NEW.content IS DISTINCT FROM OLD.content THEN
+      RAISE EXCEPTION 'Deleted messages cannot be changed';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.deleted_at IS NOT NULL THEN
+    INSERT INTO public.message_edits (message_id, action, previous_content, previous_image_url, edited_by)
+    VALUES (OLD.id, 'delete', OLD.content, OLD.image_url, auth.uid());
+
+    NEW.deleted_at := now();
+    NEW.content := NULL;
+    NEW.image_url := NULL;
+    NEW.image_filename := NULL;
+    NEW.image_size := NULL;
+    NEW.media_url := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.content IS DISTINCT FROM OLD.content THEN
+    IF auth.role() IS DISTINCT FROM 'service_role' THEN
+      RAISE EXCEPTION 'Messages must be edited through the sanitize-message function';
+    END IF;
+
+    INSERT INTO public.message_edits (message_id, action, previous_content, edited_by)
+    VALUES (OLD.id, 'edit', OLD.content, NEW.sender_id);
+
+    NEW.edited_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER track_message_changes
+BEFORE UPDATE ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION public.track_message_changes();
+
+-- Tombstones replace hard deletes
+DROP POLICY IF EXISTS "Users can delete their own messages" ON public.messages;
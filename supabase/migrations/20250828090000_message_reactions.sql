@@ -0,0 +1,75 @@
+-- Emoji reactions on messages
+CREATE TABLE public.message_reactions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  -- Sender of the reacted-to message, copied so realtime can filter on it
+  message_owner_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  emoji TEXT NOT NULL CHECK (char_length(emoji) BETWEEN 1 AND 16),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (message_id, user_id, emoji)
+);
+
+CREATE INDEX idx_message_reactions_message ON public.message_reactions(message_id);
+
+ALTER TABLE public.message_reactions ENABLE ROW LEVEL SECURITY;
+
+-- The messages policies decide who can see a message, and therefore its reactions
+CREATE POLICY "Users can view reactions on messages they can see"
+ON public.message_reactions
+FOR SELECT
+USING (EXISTS (SELECT 1 FROM public.messages m WHERE m.id = message_id));
+
+CREATE POLICY "Users can react to messages they can see"
+ON public.message_reactions
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.messages m WHERE m.id = message_id AND m.deleted_at IS NULL)
+);
+
+CREATE POLICY "Users can remove their own reactions"
+ON public.message_reactions
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.set_reaction_message_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT sender_id INTO NEW.message_owner_id FROM public.messages WHERE id = NEW.message_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_reaction_message_owner
+BEFORE INSERT ON public.message_reactions
+FOR EACH ROW
+EXECUTE FUNCTION public.set_reaction_message_owner();
+
+-- Deleting a message for everyone also clears its reactions
+CREATE OR REPLACE FUNCTION public.clear_deleted_message_reactions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.deleted_at IS NOT NULL AND OLD.deleted_at IS NULL THEN
+    DELETE FROM public.message_reactions WHERE message_id = NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER clear_deleted_message_reactions
+AFTER UPDATE ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION public.clear_deleted_message_reactions();
+
+-- Full old rows let clients see which message a removed reaction belonged to
+ALTER TABLE public.message_reactions REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.message_reactions;
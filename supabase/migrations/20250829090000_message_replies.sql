@@ -0,0 +1,45 @@
+-- Replies quote an earlier message from the same conversation
+ALTER TABLE public.messages
+  ADD COLUMN reply_to_id UUID REFERENCES public.messages(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_messages_reply_to ON public.messages(reply_to_id) WHERE reply_to_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.validate_message_reply()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_original public.messages%ROWTYPE;
+BEGIN
+  IF NEW.reply_to_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_original FROM public.messages WHERE id = NEW.reply_to_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'The message being replied to does not exist';
+  END IF;
+
+  IF NEW.conversation_id IS NOT NULL THEN
+    IF v_original.conversation_id IS DISTINCT FROM NEW.conversation_id THEN
+      RAISE EXCEPTION 'Replies must stay in the same conversation';
+    END IF;
+  ELSIF v_original.conversation_id IS NOT NULL
+    OR NOT (
+      (v_original.sender_id = NEW.sender_id AND v_original.recipient_id = NEW.recipient_id)
+      OR (v_original.sender_id = NEW.recipient_id AND v_original.recipient_id = NEW.sender_id)
+    ) THEN
+    RAISE EXCEPTION 'Replies must stay in the same conversation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_message_reply
+BEFORE INSERT ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_message_reply();
@@ -0,0 +1,36 @@
+-- One page of a conversation, newest first, for infinite scroll.
+-- Pass the created_at and id of the oldest message already loaded to get the page before it.
+-- Runs as the caller so the messages RLS policies still apply.
+CREATE OR REPLACE FUNCTION public.get_conversation_messages(
+  p_partner_id UUID DEFAULT NULL,
+  p_conversation_id UUID DEFAULT NULL,
+  p_before_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_before_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50
+)
+RETURNS SETOF public.messages
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT m.*
+  FROM public.messages m
+  WHERE (
+      (p_conversation_id IS NOT NULL AND m.conversation_id = p_conversation_id)
+      OR (
+        p_conversation_id IS NULL
+        AND (
+          (m.sender_id = auth.uid() AND m.recipient_id = p_partner_id)
+          OR (m.sender_id = p_partner_id AND m.recipient_id = auth.uid())
+        )
+      )
+    )
+    AND (
+      p_before_created_at IS NULL
+      OR (m.created_at, m.id) < (p_before_created_at, COALESCE(p_before_id, 'ffffffff-ffff-ffff-ffff-ffffffffffff'::uuid))
+    )
+  ORDER BY m.created_at DESC, m.id DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 200);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_conversation_messages(UUID, UUID, TIMESTAMP WITH TIME ZONE, UUID, INTEGER) TO authenticated;
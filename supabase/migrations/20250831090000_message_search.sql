@@ -0,0 +1,65 @@
+-- Full-text search over message content
+CREATE INDEX idx_messages_content_search
+ON public.messages USING GIN (to_tsvector('english', COALESCE(content, '')));
+
+-- Search every conversation the caller takes part in, best matches first.
+-- The snippet wraps matched words in <mark></mark>.
+CREATE OR REPLACE FUNCTION public.search_messages(p_query TEXT, p_limit INTEGER DEFAULT 30)
+RETURNS TABLE (
+  message_id UUID,
+  partner_id UUID,
+  conversation_id UUID,
+  name TEXT,
+  avatar_url TEXT,
+  sender_id UUID,
+  sender_name TEXT,
+  snippet TEXT,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', p_query) AS q
+  )
+  SELECT
+    m.id AS message_id,
+    CASE
+      WHEN m.conversation_id IS NOT NULL THEN NULL
+      WHEN m.sender_id = auth.uid() THEN m.recipient_id
+      ELSE m.sender_id
+    END AS partner_id,
+    m.conversation_id,
+    COALESCE(c.name, partner.name) AS name,
+    COALESCE(c.avatar_url, partner.avatar_url) AS avatar_url,
+    m.sender_id,
+    sender.name AS sender_name,
+    ts_headline(
+      'english',
+      m.content,
+      query.q,
+      'StartSel=<mark>, StopSel=</mark>, MaxWords=20, MinWords=8, MaxFragments=1'
+    ) AS snippet,
+    m.created_at
+  FROM public.messages m
+  CROSS JOIN query
+  LEFT JOIN public.conversations c ON c.id = m.conversation_id
+  LEFT JOIN public.users partner ON partner.id = CASE
+    WHEN m.conversation_id IS NOT NULL THEN NULL
+    WHEN m.sender_id = auth.uid() THEN m.recipient_id
+    ELSE m.sender_id
+  END
+  LEFT JOIN public.users sender ON sender.id = m.sender_id
+  WHERE to_tsvector('english', COALESCE(m.content, '')) @@ query.q
+    AND m.deleted_at IS NULL
+    AND (
+      (m.conversation_id IS NULL AND (m.sender_id = auth.uid() OR m.recipient_id = auth.uid()))
+      OR (m.conversation_id IS NOT NULL AND public.is_conversation_member(m.conversation_id, auth.uid()))
+    )
+  ORDER BY ts_rank(to_tsvector('english', COALESCE(m.content, '')), query.q) DESC, m.created_at DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_messages(TEXT, INTEGER) TO authenticated;
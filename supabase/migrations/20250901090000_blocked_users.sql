@@ -0,0 +1,110 @@
+-- Blocking: stops messages and DM requests in both directions, even between allowed contacts
+CREATE TABLE public.blocked_users (
+  blocker_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  blocked_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (blocker_id, blocked_id),
+  CHECK (blocker_id <> blocked_id)
+);
+
+CREATE INDEX idx_blocked_users_blocked ON public.blocked_users(blocked_id);
+
+ALTER TABLE public.blocked_users ENABLE ROW LEVEL SECURITY;
+
+-- Only the blocker ever sees a block
+CREATE POLICY "Users can view who they blocked"
+ON public.blocked_users
+FOR SELECT
+USING (auth.uid() = blocker_id);
+
+CREATE POLICY "Users can block others"
+ON public.blocked_users
+FOR INSERT
+WITH CHECK (auth.uid() = blocker_id);
+
+CREATE POLICY "Users can unblock others"
+ON public.blocked_users
+FOR DELETE
+USING (auth.uid() = blocker_id);
+
+CREATE OR REPLACE FUNCTION public.has_blocked(p_blocker_id UUID, p_blocked_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.blocked_users
+    WHERE blocker_id = p_blocker_id AND blocked_id = p_blocked_id
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_blocked_between(p_user_a UUID, p_user_b UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_blocked(p_user_a, p_user_b) OR public.has_blocked(p_user_b, p_user_a);
+$$;
+
+-- Blocked users can no longer find the person who blocked them
+CREATE POLICY "Blocked users cannot see who blocked them"
+ON public.users
+AS RESTRICTIVE
+FOR SELECT
+USING (NOT public.has_blocked(id, auth.uid()));
+
+-- Direct messages can't be sent across a block
+DROP POLICY IF EXISTS "Users can send messages" ON public.messages;
+CREATE POLICY "Users can send messages" ON public.messages
+  FOR INSERT WITH CHECK (
+    auth.uid() = sender_id
+    AND (conversation_id IS NULL OR public.is_conversation_member(conversation_id, auth.uid()))
+    AND (recipient_id IS NULL OR NOT public.is_blocked_between(sender_id, recipient_id))
+  );
+
+-- Pending requests from someone you block are dropped
+CREATE OR REPLACE FUNCTION public.clear_requests_on_block()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.dm_requests
+  WHERE status = 'pending'
+    AND sender_id = NEW.blocked_id
+    AND recipient_id = NEW.blocker_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER clear_requests_on_block
+AFTER INSERT ON public.blocked_users
+FOR EACH ROW
+EXECUTE FUNCTION public.clear_requests_on_block();
+
+-- Names for the block list, regardless of the blocked user's privacy settings
+CREATE OR REPLACE FUNCTION public.get_blocked_users()
+RETURNS TABLE (
+  user_id UUID,
+  name TEXT,
+  avatar_url TEXT,
+  blocked_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT b.blocked_id, u.name, u.avatar_url, b.created_at
+  FROM public.blocked_users b
+  JOIN public.users u ON u.id = b.blocked_id
+  WHERE b.blocker_id = auth.uid()
+  ORDER BY b.created_at DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_blocked_users() TO authenticated;
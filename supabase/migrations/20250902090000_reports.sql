@@ -0,0 +1,244 @@
+-- Reporting messages and users, with a moderator review queue
+CREATE TYPE public.report_status AS ENUM ('open', 'actioned', 'dismissed');
+
+CREATE TABLE public.reports (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  reporter_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  reported_user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  -- Set when a specific message was reported
+  message_id UUID REFERENCES public.messages(id) ON DELETE SET NULL,
+  conversation_id UUID REFERENCES public.conversations(id) ON DELETE SET NULL,
+  reason TEXT NOT NULL CHECK (reason IN ('harassment', 'bullying', 'inappropriate', 'spam', 'other')),
+  details TEXT CHECK (char_length(details) <= 1000),
+  -- Snapshot of the reported message and its neighbours, kept even if they are later edited or deleted
+  context JSONB NOT NULL DEFAULT '[]'::jsonb,
+  status public.report_status NOT NULL DEFAULT 'open',
+  resolution_note TEXT,
+  resolved_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  -- When the reporter saw the outcome; NULL while an outcome is unseen
+  reporter_seen_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (reporter_id <> reported_user_id)
+);
+
+CREATE INDEX idx_reports_status_created_at ON public.reports(status, created_at DESC);
+CREATE INDEX idx_reports_reporter ON public.reports(reporter_id);
+
+ALTER TABLE public.reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Reporters can view their own reports"
+ON public.reports
+FOR SELECT
+USING (auth.uid() = reporter_id);
+
+CREATE POLICY "Moderators can view all reports"
+ON public.reports
+FOR SELECT
+USING (public.is_moderator(auth.uid()));
+
+-- Messages around a message in the same conversation, oldest first, with sender names
+CREATE OR REPLACE FUNCTION public.get_report_context(p_message_id UUID, p_radius INTEGER DEFAULT 5)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH target AS (
+    SELECT * FROM public.messages WHERE id = p_message_id
+  ),
+  thread AS (
+    SELECT m.*
+    FROM public.messages m, target t
+    WHERE (t.conversation_id IS NOT NULL AND m.conversation_id = t.conversation_id)
+       OR (
+         t.conversation_id IS NULL
+         AND (
+           (m.sender_id = t.sender_id AND m.recipient_id = t.recipient_id)
+           OR (m.sender_id = t.recipient_id AND m.recipient_id = t.sender_id)
+         )
+       )
+  ),
+  surrounding AS (
+    (SELECT th.* FROM thread th, target t
+      WHERE (th.created_at, th.id) < (t.created_at, t.id)
+      ORDER BY th.created_at DESC, th.id DESC LIMIT p_radius)
+    UNION ALL
+    (SELECT th.* FROM thread th, target t WHERE th.id = t.id)
+    UNION ALL
+    (SELECT th.* FROM thread th, target t
+      WHERE (th.created_at, th.id) > (t.created_at, t.id)
+      ORDER BY th.created_at, th.id LIMIT p_radius)
+  )
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'id', s.id,
+    'sender_id', s.sender_id,
+    'sender_name', u.name,
+    'content', s.content,
+    'image_url', s.image_url,
+    'created_at', s.created_at,
+    'deleted', s.deleted_at IS NOT NULL,
+    'reported', s.id = p_message_id
+  ) ORDER BY s.created_at, s.id), '[]'::jsonb)
+  FROM surrounding s
+  LEFT JOIN public.users u ON u.id = s.sender_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_report_context(UUID, INTEGER) FROM PUBLIC;
+
+-- Report a message (p_message_id) or a user (p_reported_user_id)
+CREATE OR REPLACE FUNCTION public.submit_report(
+  p_reason TEXT,
+  p_details TEXT DEFAULT NULL,
+  p_message_id UUID DEFAULT NULL,
+  p_reported_user_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_message public.messages%ROWTYPE;
+  v_reported_user_id UUID := p_reported_user_id;
+  v_context JSONB := '[]'::jsonb;
+  v_report_id UUID;
+  v_last_message_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_message_id IS NOT NULL THEN
+    SELECT * INTO v_message FROM public.messages WHERE id = p_message_id;
+
+    IF NOT FOUND OR NOT (
+      v_message.sender_id = auth.uid()
+      OR v_message.recipient_id = auth.uid()
+      OR (v_message.conversation_id IS NOT NULL AND public.is_conversation_member(v_message.conversation_id, auth.uid()))
+    ) THEN
+      RAISE EXCEPTION 'Message not found';
+    END IF;
+
+    v_reported_user_id := v_message.sender_id;
+    v_context := public.get_report_context(p_message_id);
+  ELSIF v_reported_user_id IS NOT NULL THEN
+    -- Reporting a profile: include the latest messages they sent the reporter, if any
+    SELECT id INTO v_last_message_id
+    FROM public.messages
+    WHERE sender_id = v_reported_user_id AND recipient_id = auth.uid()
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    IF v_last_message_id IS NOT NULL THEN
+      v_context := public.get_report_context(v_last_message_id, 10);
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'Nothing to report';
+  END IF;
+
+  IF v_reported_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot report yourself';
+  END IF;
+
+  INSERT INTO public.reports (reporter_id, reported_user_id, message_id, conversation_id, reason, details, context)
+  VALUES (auth.uid(), v_reported_user_id, p_message_id, v_message.conversation_id, p_reason, NULLIF(trim(p_details), ''), v_context)
+  RETURNING id INTO v_report_id;
+
+  RETURN v_report_id;
+END;
+$$;
+
+-- Moderator queue with the names of everyone involved
+CREATE OR REPLACE FUNCTION public.get_reports(p_status public.report_status DEFAULT 'open')
+RETURNS TABLE (
+  id UUID,
+  reporter_id UUID,
+  reporter_name TEXT,
+  reported_user_id UUID,
+  reported_user_name TEXT,
+  message_id UUID,
+  conversation_id UUID,
+  conversation_name TEXT,
+  reason TEXT,
+  details TEXT,
+  context JSONB,
+  status public.report_status,
+  resolution_note TEXT,
+  resolved_by_name TEXT,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_moderator(auth.uid()) THEN
+    RAISE EXCEPTION 'Only moderators can review reports';
+  END IF;
+
+  RETURN QUERY
+  SELECT r.id, r.reporter_id, reporter.name, r.reported_user_id, reported.name,
+         r.message_id, r.conversation_id, c.name, r.reason, r.details, r.context,
+         r.status, r.resolution_note, resolver.name, r.resolved_at, r.created_at
+  FROM public.reports r
+  LEFT JOIN public.users reporter ON reporter.id = r.reporter_id
+  LEFT JOIN public.users reported ON reported.id = r.reported_user_id
+  LEFT JOIN public.users resolver ON resolver.id = r.resolved_by
+  LEFT JOIN public.conversations c ON c.id = r.conversation_id
+  WHERE r.status = p_status
+  ORDER BY CASE WHEN p_status = 'open' THEN r.created_at END ASC,
+           r.resolved_at DESC NULLS LAST;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.resolve_report(
+  p_report_id UUID,
+  p_status public.report_status,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_moderator(auth.uid()) THEN
+    RAISE EXCEPTION 'Only moderators can resolve reports';
+  END IF;
+
+  IF p_status = 'open' THEN
+    RAISE EXCEPTION 'A report can only be resolved as actioned or dismissed';
+  END IF;
+
+  UPDATE public.reports
+  SET status = p_status,
+      resolution_note = NULLIF(trim(p_note), ''),
+      resolved_by = auth.uid(),
+      resolved_at = now(),
+      reporter_seen_at = NULL
+  WHERE id = p_report_id;
+END;
+$$;
+
+-- The reporter has seen the outcome of their report
+CREATE OR REPLACE FUNCTION public.acknowledge_report(p_report_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.reports
+  SET reporter_seen_at = now()
+  WHERE id = p_report_id AND reporter_id = auth.uid();
+$$;
+
+GRANT EXECUTE ON FUNCTION public.submit_report(TEXT, TEXT, UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_reports(public.report_status) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.resolve_report(UUID, public.report_status, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.acknowledge_report(UUID) TO authenticated;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.reports;
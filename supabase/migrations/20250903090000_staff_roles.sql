@@ -0,0 +1,282 @@
+-- Staff roles, account suspension and admin tools
+CREATE TYPE public.user_role AS ENUM ('student', 'teacher', 'counselor', 'admin');
+
+ALTER TABLE public.users
+  ADD COLUMN role public.user_role NOT NULL DEFAULT 'student',
+  ADD COLUMN suspended_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN suspension_reason TEXT,
+  -- Set by an admin; the user can't turn privacy mode off while it is set
+  ADD COLUMN privacy_mode_locked BOOLEAN NOT NULL DEFAULT false;
+
+-- Existing moderators become counselors
+UPDATE public.users
+SET role = 'counselor'
+WHERE id IN (SELECT user_id FROM public.moderators);
+
+CREATE OR REPLACE FUNCTION public.get_user_role(p_user_id UUID)
+RETURNS public.user_role
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM public.users WHERE id = p_user_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_admin(p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(public.get_user_role(p_user_id) = 'admin', false);
+$$;
+
+-- Every staff role can review moderation data
+CREATE OR REPLACE FUNCTION public.is_moderator(p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(public.get_user_role(p_user_id) <> 'student', false);
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_suspended(p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.users WHERE id = p_user_id AND suspended_at IS NOT NULL);
+$$;
+
+DROP TABLE public.moderators;
+
+-- Users keep editing their own profile, but only admins (or the service role)
+-- can change roles and suspensions, and a locked privacy mode stays on
+CREATE OR REPLACE FUNCTION public.protect_user_admin_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR public.is_admin(auth.uid()) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.role IS DISTINCT FROM OLD.role
+     OR NEW.suspended_at IS DISTINCT FROM OLD.suspended_at
+     OR NEW.suspension_reason IS DISTINCT FROM OLD.suspension_reason
+     OR NEW.privacy_mode_locked IS DISTINCT FROM OLD.privacy_mode_locked THEN
+    RAISE EXCEPTION 'Only admins can change roles and account restrictions';
+  END IF;
+
+  IF OLD.privacy_mode_locked AND NEW.privacy_mode IS DISTINCT FROM true THEN
+    RAISE EXCEPTION 'Privacy mode has been turned on by an admin';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_user_admin_fields
+BEFORE UPDATE ON public.users
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_user_admin_fields();
+
+-- Staff can see every profile, including users in privacy mode
+CREATE POLICY "Staff can view all profiles"
+ON public.users
+FOR SELECT
+USING (public.is_moderator(auth.uid()));
+
+-- Suspended users can read but not send messages or DM requests
+DROP POLICY IF EXISTS "Users can send messages" ON public.messages;
+CREATE POLICY "Users can send messages" ON public.messages
+  FOR INSERT WITH CHECK (
+    auth.uid() = sender_id
+    AND NOT public.is_suspended(auth.uid())
+    AND (conversation_id IS NULL OR public.is_conversation_member(conversation_id, auth.uid()))
+    AND (recipient_id IS NULL OR NOT public.is_blocked_between(sender_id, recipient_id))
+  );
+
+DROP POLICY IF EXISTS "Users can create DM requests" ON public.dm_requests;
+CREATE POLICY "Users can create DM requests"
+ON public.dm_requests
+FOR INSERT
+WITH CHECK (auth.uid() = sender_id AND NOT public.is_suspended(auth.uid()));
+
+-- Admin user management
+CREATE OR REPLACE FUNCTION public.admin_list_users(p_search TEXT DEFAULT NULL)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  email TEXT,
+  avatar_url TEXT,
+  role public.user_role,
+  suspended_at TIMESTAMP WITH TIME ZONE,
+  suspension_reason TEXT,
+  privacy_mode BOOLEAN,
+  privacy_mode_locked BOOLEAN,
+  last_seen_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can manage users';
+  END IF;
+
+  RETURN QUERY
+  SELECT u.id, u.name, u.email, u.avatar_url, u.role, u.suspended_at, u.suspension_reason,
+         COALESCE(u.privacy_mode, false), u.privacy_mode_locked, u.last_seen_at, u.created_at
+  FROM public.users u
+  WHERE p_search IS NULL
+     OR trim(p_search) = ''
+     OR u.name ILIKE '%' || trim(p_search) || '%'
+     OR u.email ILIKE '%' || trim(p_search) || '%'
+  ORDER BY u.name;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.admin_set_role(p_user_id UUID, p_role public.user_role)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can change roles';
+  END IF;
+
+  IF p_user_id = auth.uid() AND p_role <> 'admin' THEN
+    RAISE EXCEPTION 'Admins cannot remove their own admin role';
+  END IF;
+
+  UPDATE public.users SET role = p_role WHERE id = p_user_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.admin_set_suspended(
+  p_user_id UUID,
+  p_suspended BOOLEAN,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can suspend accounts';
+  END IF;
+
+  IF p_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'Admins cannot suspend themselves';
+  END IF;
+
+  UPDATE public.users
+  SET suspended_at = CASE WHEN p_suspended THEN COALESCE(suspended_at, now()) END,
+      suspension_reason = CASE WHEN p_suspended THEN NULLIF(trim(p_reason), '') END
+  WHERE id = p_user_id;
+END;
+$$;
+
+-- Puts the name back to the email's local part and removes the avatar
+CREATE OR REPLACE FUNCTION public.admin_reset_profile(p_user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can reset profiles';
+  END IF;
+
+  UPDATE public.users
+  SET name = split_part(email, '@', 1),
+      avatar_url = NULL
+  WHERE id = p_user_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.admin_force_privacy_mode(p_user_id UUID, p_locked BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can force privacy mode';
+  END IF;
+
+  UPDATE public.users
+  SET privacy_mode = CASE WHEN p_locked THEN true ELSE privacy_mode END,
+      privacy_mode_locked = p_locked
+  WHERE id = p_user_id;
+END;
+$$;
+
+-- Dashboard numbers: users per role, messages per day and reports per status
+CREATE OR REPLACE FUNCTION public.get_admin_stats(p_days INTEGER DEFAULT 14)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can view statistics';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'total_users', (SELECT count(*) FROM public.users),
+    'suspended_users', (SELECT count(*) FROM public.users WHERE suspended_at IS NOT NULL),
+    'active_users', (
+      SELECT count(*) FROM public.users WHERE last_seen_at > now() - interval '7 days'
+    ),
+    'users_by_role', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object('role', r.role, 'count', r.total) ORDER BY r.role), '[]'::jsonb)
+      FROM (SELECT role, count(*) AS total FROM public.users GROUP BY role) r
+    ),
+    'messages_per_day', (
+      SELECT jsonb_agg(jsonb_build_object('day', d.day::date, 'count', COALESCE(m.total, 0)) ORDER BY d.day)
+      FROM generate_series(current_date - (p_days - 1), current_date, interval '1 day') AS d(day)
+      LEFT JOIN (
+        SELECT created_at::date AS day, count(*) AS total
+        FROM public.messages
+        WHERE created_at >= current_date - (p_days - 1)
+        GROUP BY 1
+      ) m ON m.day = d.day::date
+    ),
+    'reports_by_status', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object('status', r.status, 'count', r.total) ORDER BY r.status), '[]'::jsonb)
+      FROM (SELECT status, count(*) AS total FROM public.reports GROUP BY status) r
+    )
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_user_role(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.is_admin(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.is_suspended(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_list_users(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_set_role(UUID, public.user_role) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_set_suspended(UUID, BOOLEAN, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_reset_profile(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_force_privacy_mode(UUID, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_admin_stats(INTEGER) TO authenticated;
@@ -0,0 +1,484 @@
+-- Schools: every user belongs to one, and discovery, DM requests, contacts and
+-- messaging stay within a school unless both schools allow cross-school messaging
+CREATE TABLE public.schools (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 100),
+  -- New sign-ups with an email at this domain join the school
+  email_domain TEXT UNIQUE CHECK (email_domain = lower(email_domain)),
+  -- Sign-ups that match no domain join the default school
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  allow_cross_school_messaging BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_schools_single_default ON public.schools(is_default) WHERE is_default;
+
+ALTER TABLE public.users
+  ADD COLUMN school_id UUID REFERENCES public.schools(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_users_school ON public.users(school_id);
+
+-- Everyone registered so far belongs to the first school
+INSERT INTO public.schools (name, is_default) VALUES ('Default School', true);
+UPDATE public.users SET school_id = (SELECT id FROM public.schools WHERE is_default);
+
+CREATE OR REPLACE FUNCTION public.get_user_school(p_user_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT school_id FROM public.users WHERE id = p_user_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.same_school(p_user_a UUID, p_user_b UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(public.get_user_school(p_user_a) = public.get_user_school(p_user_b), false);
+$$;
+
+-- Same school, or two schools that both allow cross-school messaging
+CREATE OR REPLACE FUNCTION public.schools_can_connect(p_user_a UUID, p_user_b UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.same_school(p_user_a, p_user_b)
+    OR COALESCE((
+      SELECT bool_and(s.allow_cross_school_messaging)
+      FROM public.users u
+      JOIN public.schools s ON s.id = u.school_id
+      WHERE u.id IN (p_user_a, p_user_b)
+      HAVING count(*) = 2
+    ), false);
+$$;
+
+ALTER TABLE public.schools ENABLE ROW LEVEL SECURITY;
+
+-- School names are shown next to users from other schools
+CREATE POLICY "Authenticated users can view schools"
+ON public.schools
+FOR SELECT
+TO authenticated
+USING (true);
+
+-- New users join the school that owns their email domain
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.users (id, name, email, school_id)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.raw_user_meta_data->>'name', ''),
+    NEW.email,
+    COALESCE(
+      (SELECT id FROM public.schools WHERE email_domain = lower(split_part(NEW.email, '@', 2))),
+      (SELECT id FROM public.schools WHERE is_default)
+    )
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Users outside reach don't show up at all, whatever the other policies allow
+CREATE POLICY "Users only see users they can reach"
+ON public.users
+AS RESTRICTIVE
+FOR SELECT
+USING (auth.uid() = id OR public.schools_can_connect(auth.uid(), id));
+
+-- School changes go through admins like roles do
+CREATE OR REPLACE FUNCTION public.protect_user_admin_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR public.is_admin(auth.uid()) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.role IS DISTINCT FROM OLD.role
+     OR NEW.suspended_at IS DISTINCT FROM OLD.suspended_at
+     OR NEW.suspension_reason IS DISTINCT FROM OLD.suspension_reason
+     OR NEW.privacy_mode_locked IS DISTINCT FROM OLD.privacy_mode_locked
+     OR NEW.school_id IS DISTINCT FROM OLD.school_id THEN
+    RAISE EXCEPTION 'Only admins can change roles and account restrictions';
+  END IF;
+
+  IF OLD.privacy_mode_locked AND NEW.privacy_mode IS DISTINCT FROM true THEN
+    RAISE EXCEPTION 'Privacy mode has been turned on by an admin';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP POLICY IF EXISTS "Users can create DM requests" ON public.dm_requests;
+CREATE POLICY "Users can create DM requests"
+ON public.dm_requests
+FOR INSERT
+WITH CHECK (
+  auth.uid() = sender_id
+  AND NOT public.is_suspended(auth.uid())
+  AND public.schools_can_connect(sender_id, recipient_id)
+);
+
+DROP POLICY IF EXISTS "Users can send messages" ON public.messages;
+CREATE POLICY "Users can send messages" ON public.messages
+  FOR INSERT WITH CHECK (
+    auth.uid() = sender_id
+    AND NOT public.is_suspended(auth.uid())
+    AND (conversation_id IS NULL OR public.is_conversation_member(conversation_id, auth.uid()))
+    AND (
+      recipient_id IS NULL
+      OR (NOT public.is_blocked_between(sender_id, recipient_id) AND public.schools_can_connect(sender_id, recipient_id))
+    )
+  );
+
+-- Contacts are written by the dm-request function with the service role, so
+-- the boundary is checked by a trigger rather than a policy
+CREATE OR REPLACE FUNCTION public.enforce_school_boundary()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'allowed_contacts' THEN
+    IF NOT public.schools_can_connect(NEW.user1_id, NEW.user2_id) THEN
+      RAISE EXCEPTION 'These users are in different schools';
+    END IF;
+  ELSIF TG_TABLE_NAME = 'conversation_members' THEN
+    -- Whoever adds a member must be able to reach them
+    IF auth.uid() IS NOT NULL AND NEW.user_id <> auth.uid()
+       AND NOT public.schools_can_connect(auth.uid(), NEW.user_id) THEN
+      RAISE EXCEPTION 'Cannot add users from another school to this group';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_school_boundary
+BEFORE INSERT ON public.allowed_contacts
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_school_boundary();
+
+CREATE TRIGGER enforce_school_boundary
+BEFORE INSERT ON public.conversation_members
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_school_boundary();
+
+-- Staff moderate their own school; reports follow the reported user's school
+DROP POLICY IF EXISTS "Moderators can view all reports" ON public.reports;
+CREATE POLICY "Moderators can view reports from their school"
+ON public.reports
+FOR SELECT
+USING (public.is_moderator(auth.uid()) AND public.same_school(auth.uid(), reported_user_id));
+
+DROP POLICY IF EXISTS "Moderators can view message history" ON public.message_edits;
+CREATE POLICY "Moderators can view message history"
+ON public.message_edits
+FOR SELECT
+USING (
+  public.is_moderator(auth.uid())
+  AND EXISTS (
+    SELECT 1 FROM public.messages m
+    WHERE m.id = message_id AND public.same_school(auth.uid(), m.sender_id)
+  )
+);
+
+CREATE OR REPLACE FUNCTION public.get_reports(p_status public.report_status DEFAULT 'open')
+RETURNS TABLE (
+  id UUID,
+  reporter_id UUID,
+  reporter_name TEXT,
+  reported_user_id UUID,
+  reported_user_name TEXT,
+  message_id UUID,
+  conversation_id UUID,
+  conversation_name TEXT,
+  reason TEXT,
+  details TEXT,
+  context JSONB,
+  status public.report_status,
+  resolution_note TEXT,
+  resolved_by_name TEXT,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_moderator(auth.uid()) THEN
+    RAISE EXCEPTION 'Only moderators can review reports';
+  END IF;
+
+  RETURN QUERY
+  SELECT r.id, r.reporter_id, reporter.name, r.reported_user_id, reported.name,
+         r.message_id, r.conversation_id, c.name, r.reason, r.details, r.context,
+         r.status, r.resolution_note, resolver.name, r.resolved_at, r.created_at
+  FROM public.reports r
+  LEFT JOIN public.users reporter ON reporter.id = r.reporter_id
+  LEFT JOIN public.users reported ON reported.id = r.reported_user_id
+  LEFT JOIN public.users resolver ON resolver.id = r.resolved_by
+  LEFT JOIN public.conversations c ON c.id = r.conversation_id
+  WHERE r.status = p_status
+    AND public.same_school(auth.uid(), r.reported_user_id)
+  ORDER BY CASE WHEN p_status = 'open' THEN r.created_at END ASC,
+           r.resolved_at DESC NULLS LAST;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.resolve_report(
+  p_report_id UUID,
+  p_status public.report_status,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_moderator(auth.uid()) THEN
+    RAISE EXCEPTION 'Only moderators can resolve reports';
+  END IF;
+
+  IF p_status = 'open' THEN
+    RAISE EXCEPTION 'A report can only be resolved as actioned or dismissed';
+  END IF;
+
+  UPDATE public.reports
+  SET status = p_status,
+      resolution_note = NULLIF(trim(p_note), ''),
+      resolved_by = auth.uid(),
+      resolved_at = now(),
+      reporter_seen_at = NULL
+  WHERE id = p_report_id
+    AND public.same_school(auth.uid(), reported_user_id);
+END;
+$$;
+
+-- Admins manage the users of their own school
+CREATE OR REPLACE FUNCTION public.is_admin_of(p_admin_id UUID, p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.is_admin(p_admin_id) AND public.same_school(p_admin_id, p_user_id);
+$$;
+
+CREATE OR REPLACE FUNCTION public.admin_list_users(p_search TEXT DEFAULT NULL)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  email TEXT,
+  avatar_url TEXT,
+  role public.user_role,
+  suspended_at TIMESTAMP WITH TIME ZONE,
+  suspension_reason TEXT,
+  privacy_mode BOOLEAN,
+  privacy_mode_locked BOOLEAN,
+  last_seen_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can manage users';
+  END IF;
+
+  RETURN QUERY
+  SELECT u.id, u.name, u.email, u.avatar_url, u.role, u.suspended_at, u.suspension_reason,
+         COALESCE(u.privacy_mode, false), u.privacy_mode_locked, u.last_seen_at, u.created_at
+  FROM public.users u
+  WHERE u.school_id = public.get_user_school(auth.uid())
+    AND (
+      p_search IS NULL
+      OR trim(p_search) = ''
+      OR u.name ILIKE '%' || trim(p_search) || '%'
+      OR u.email ILIKE '%' || trim(p_search) || '%'
+    )
+  ORDER BY u.name;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.admin_set_role(p_user_id UUID, p_role public.user_role)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin_of(auth.uid(), p_user_id) THEN
+    RAISE EXCEPTION 'Only admins can change roles';
+  END IF;
+
+  IF p_user_id = auth.uid() AND p_role <> 'admin' THEN
+    RAISE EXCEPTION 'Admins cannot remove their own admin role';
+  END IF;
+
+  UPDATE public.users SET role = p_role WHERE id = p_user_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.admin_set_suspended(
+  p_user_id UUID,
+  p_suspended BOOLEAN,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin_of(auth.uid(), p_user_id) THEN
+    RAISE EXCEPTION 'Only admins can suspend accounts';
+  END IF;
+
+  IF p_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'Admins cannot suspend themselves';
+  END IF;
+
+  UPDATE public.users
+  SET suspended_at = CASE WHEN p_suspended THEN COALESCE(suspended_at, now()) END,
+      suspension_reason = CASE WHEN p_suspended THEN NULLIF(trim(p_reason), '') END
+  WHERE id = p_user_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.admin_reset_profile(p_user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin_of(auth.uid(), p_user_id) THEN
+    RAISE EXCEPTION 'Only admins can reset profiles';
+  END IF;
+
+  UPDATE public.users
+  SET name = split_part(email, '@', 1),
+      avatar_url = NULL
+  WHERE id = p_user_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.admin_force_privacy_mode(p_user_id UUID, p_locked BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin_of(auth.uid(), p_user_id) THEN
+    RAISE EXCEPTION 'Only admins can force privacy mode';
+  END IF;
+
+  UPDATE public.users
+  SET privacy_mode = CASE WHEN p_locked THEN true ELSE privacy_mode END,
+      privacy_mode_locked = p_locked
+  WHERE id = p_user_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.admin_update_school(p_name TEXT, p_allow_cross_school_messaging BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can change school settings';
+  END IF;
+
+  UPDATE public.schools
+  SET name = btrim(p_name),
+      allow_cross_school_messaging = p_allow_cross_school_messaging
+  WHERE id = public.get_user_school(auth.uid());
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_admin_stats(p_days INTEGER DEFAULT 14)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_school_id UUID := public.get_user_school(auth.uid());
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can view statistics';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'total_users', (SELECT count(*) FROM public.users WHERE school_id = v_school_id),
+    'suspended_users', (
+      SELECT count(*) FROM public.users WHERE school_id = v_school_id AND suspended_at IS NOT NULL
+    ),
+    'active_users', (
+      SELECT count(*) FROM public.users
+      WHERE school_id = v_school_id AND last_seen_at > now() - interval '7 days'
+    ),
+    'users_by_role', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object('role', r.role, 'count', r.total) ORDER BY r.role), '[]'::jsonb)
+      FROM (
+        SELECT role, count(*) AS total FROM public.users WHERE school_id = v_school_id GROUP BY role
+      ) r
+    ),
+    'messages_per_day', (
+      SELECT jsonb_agg(jsonb_build_object('day', d.day::date, 'count', COALESCE(m.total, 0)) ORDER BY d.day)
+      FROM generate_series(current_date - (p_days - 1), current_date, interval '1 day') AS d(day)
+      LEFT JOIN (
+        SELECT m.created_at::date AS day, count(*) AS total
+        FROM public.messages m
+        JOIN public.users u ON u.id = m.sender_id
+        WHERE m.created_at >= current_date - (p_days - 1)
+          AND u.school_id = v_school_id
+        GROUP BY 1
+      ) m ON m.day = d.day::date
+    ),
+    'reports_by_status', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object('status', r.status, 'count', r.total) ORDER BY r.status), '[]'::jsonb)
+      FROM (
+        SELECT rp.status, count(*) AS total
+        FROM public.reports rp
+        JOIN public.users u ON u.id = rp.reported_user_id
+        WHERE u.school_id = v_school_id
+        GROUP BY rp.status
+      ) r
+    )
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_user_school(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.same_school(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.schools_can_connect(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.is_admin_of(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_update_school(TEXT, BOOLEAN) TO authenticated;
@@ -0,0 +1,49 @@
+-- Word lists for the profanity filter. Rows without a school apply everywhere;
+-- admins add their own blocked words and allowlist false positives
+CREATE TABLE public.profanity_words (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  school_id UUID REFERENCES public.schools(id) ON DELETE CASCADE,
+  word TEXT NOT NULL CHECK (word = lower(btrim(word)) AND char_length(word) BETWEEN 1 AND 50),
+  kind TEXT NOT NULL CHECK (kind IN ('block', 'allow')),
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_profanity_words_unique
+ON public.profanity_words(COALESCE(school_id, '00000000-0000-0000-0000-000000000000'::uuid), word, kind);
+
+ALTER TABLE public.profanity_words ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view word lists"
+ON public.profanity_words
+FOR SELECT
+USING (
+  public.is_moderator(auth.uid())
+  AND (school_id IS NULL OR school_id = public.get_user_school(auth.uid()))
+);
+
+CREATE POLICY "Admins can add words for their school"
+ON public.profanity_words
+FOR INSERT
+WITH CHECK (
+  public.is_admin(auth.uid())
+  AND school_id = public.get_user_school(auth.uid())
+  AND created_by = auth.uid()
+);
+
+CREATE POLICY "Admins can remove words for their school"
+ON public.profanity_words
+FOR DELETE
+USING (
+  public.is_admin(auth.uid())
+  AND school_id = public.get_user_school(auth.uid())
+);
+
+-- The words the filter shipped with. Blocked words also match common endings
+-- ("butts", "killing"), so the allowlist covers everyday words that collide
+INSERT INTO public.profanity_words (word, kind) VALUES
+  ('damn', 'block'), ('hell', 'block'), ('stupid', 'block'), ('dumb', 'block'),
+  ('idiot', 'block'), ('hate', 'block'), ('kill', 'block'), ('die', 'block'),
+  ('crap', 'block'), ('poop', 'block'), ('butt', 'block'), ('heck', 'block'),
+  ('butter', 'allow'), ('butters', 'allow'), ('buttered', 'allow'), ('buttering', 'allow'),
+  ('dies', 'allow');
@@ -0,0 +1,137 @@
+-- DM requests can be withdrawn and expire; a rejected request can be sent
+-- again once the recipient's school cooldown has passed
+ALTER TYPE public.dm_request_status ADD VALUE IF NOT EXISTS 'cancelled';
+ALTER TYPE public.dm_request_status ADD VALUE IF NOT EXISTS 'expired';
+
+-- Old requests stay as history, so only one pending request per pair is unique
+ALTER TABLE public.dm_requests DROP CONSTRAINT IF EXISTS dm_requests_sender_id_recipient_id_key;
+CREATE UNIQUE INDEX idx_dm_requests_one_pending
+ON public.dm_requests(sender_id, recipient_id)
+WHERE status = 'pending';
+
+CREATE INDEX idx_dm_requests_sender ON public.dm_requests(sender_id, created_at DESC);
+
+-- Periods follow the recipient's school
+ALTER TABLE public.schools
+  ADD COLUMN dm_request_expiry_days INTEGER NOT NULL DEFAULT 7 CHECK (dm_request_expiry_days BETWEEN 1 AND 90),
+  ADD COLUMN dm_request_cooldown_days INTEGER NOT NULL DEFAULT 3 CHECK (dm_request_cooldown_days BETWEEN 0 AND 90);
+
+CREATE OR REPLACE FUNCTION public.expire_dm_requests()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_expired INTEGER;
+BEGIN
+  UPDATE public.dm_requests r
+  SET status = 'expired'
+  FROM public.users u
+  LEFT JOIN public.schools s ON s.id = u.school_id
+  WHERE u.id = r.recipient_id
+    AND r.status = 'pending'
+    AND r.created_at < now() - make_interval(days => COALESCE(s.dm_request_expiry_days, 7));
+
+  GET DIAGNOSTICS v_expired = ROW_COUNT;
+  RETURN v_expired;
+END;
+$$;
+
+-- When the sender may ask again after their last request was rejected; NULL if they can now
+CREATE OR REPLACE FUNCTION public.get_dm_request_cooldown_until(p_sender_id UUID, p_recipient_id UUID)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_until TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT r.updated_at + make_interval(days => COALESCE(s.dm_request_cooldown_days, 3))
+  INTO v_until
+  FROM public.dm_requests r
+  JOIN public.users u ON u.id = r.recipient_id
+  LEFT JOIN public.schools s ON s.id = u.school_id
+  WHERE r.sender_id = p_sender_id
+    AND r.recipient_id = p_recipient_id
+    AND r.status = 'rejected'
+  ORDER BY r.updated_at DESC
+  LIMIT 1;
+
+  IF v_until IS NULL OR v_until <= now() THEN
+    RETURN NULL;
+  END IF;
+  RETURN v_until;
+END;
+$$;
+
+-- Everything the caller has sent, with who it went to and when it expires or can be resent
+CREATE OR REPLACE FUNCTION public.get_outgoing_dm_requests()
+RETURNS TABLE (
+  id UUID,
+  recipient_id UUID,
+  recipient_name TEXT,
+  recipient_avatar_url TEXT,
+  status public.dm_request_status,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  can_resend_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT r.id, r.recipient_id, u.name, u.avatar_url, r.status, r.created_at, r.updated_at,
+         CASE WHEN r.status = 'pending'
+           THEN r.created_at + make_interval(days => COALESCE(s.dm_request_expiry_days, 7))
+         END,
+         CASE WHEN r.status = 'rejected'
+           THEN r.updated_at + make_interval(days => COALESCE(s.dm_request_cooldown_days, 3))
+         END
+  FROM public.dm_requests r
+  JOIN public.users u ON u.id = r.recipient_id
+  LEFT JOIN public.schools s ON s.id = u.school_id
+  WHERE r.sender_id = auth.uid()
+  ORDER BY r.created_at DESC
+  LIMIT 100;
+END;
+$$;
+
+DROP FUNCTION public.admin_update_school(TEXT, BOOLEAN);
+CREATE OR REPLACE FUNCTION public.admin_update_school(
+  p_name TEXT,
+  p_allow_cross_school_messaging BOOLEAN,
+  p_dm_request_expiry_days INTEGER,
+  p_dm_request_cooldown_days INTEGER
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can change school settings';
+  END IF;
+
+  UPDATE public.schools
+  SET name = btrim(p_name),
+      allow_cross_school_messaging = p_allow_cross_school_messaging,
+      dm_request_expiry_days = p_dm_request_expiry_days,
+      dm_request_cooldown_days = p_dm_request_cooldown_days
+  WHERE id = public.get_user_school(auth.uid());
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_outgoing_dm_requests() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_update_school(TEXT, BOOLEAN, INTEGER, INTEGER) TO authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('expire-dm-requests', '0 * * * *', 'SELECT public.expire_dm_requests()');
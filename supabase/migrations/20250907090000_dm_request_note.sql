@@ -0,0 +1,4 @@
+-- Optional intro from the sender, shown to the recipient with the request.
+-- Written by the dm-request function after profanity filtering.
+ALTER TABLE public.dm_requests
+  ADD COLUMN note TEXT CHECK (char_length(note) <= 200);
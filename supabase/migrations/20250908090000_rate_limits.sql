@@ -0,0 +1,116 @@
+-- Token buckets that cap how fast a user can send messages and DM requests.
+-- Thresholds are per school; buckets are only touched by edge functions.
+ALTER TABLE public.schools
+  ADD COLUMN messages_per_minute INTEGER NOT NULL DEFAULT 20 CHECK (messages_per_minute BETWEEN 1 AND 600),
+  ADD COLUMN dm_requests_per_hour INTEGER NOT NULL DEFAULT 10 CHECK (dm_requests_per_hour BETWEEN 1 AND 100);
+
+CREATE TABLE public.rate_limit_buckets (
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  -- Action plus scope, e.g. message:<conversation or recipient id>
+  bucket TEXT NOT NULL,
+  tokens DOUBLE PRECISION NOT NULL,
+  refilled_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, bucket)
+);
+
+-- No policies: clients never read or write buckets directly
+ALTER TABLE public.rate_limit_buckets ENABLE ROW LEVEL SECURITY;
+
+-- Takes one token from the user's bucket for p_action ('message' or 'dm_request').
+-- Returns 0 when the action may go ahead, otherwise the seconds until a token is free.
+CREATE OR REPLACE FUNCTION public.take_rate_limit_token(p_user_id UUID, p_action TEXT, p_scope TEXT DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_capacity INTEGER;
+  v_window_seconds INTEGER;
+  v_rate DOUBLE PRECISION;
+  v_bucket TEXT := p_action || COALESCE(':' || p_scope, '');
+  v_tokens DOUBLE PRECISION;
+BEGIN
+  IF p_action = 'message' THEN
+    SELECT s.messages_per_minute INTO v_capacity
+    FROM public.users u
+    LEFT JOIN public.schools s ON s.id = u.school_id
+    WHERE u.id = p_user_id;
+    v_capacity := COALESCE(v_capacity, 20);
+    v_window_seconds := 60;
+  ELSIF p_action = 'dm_request' THEN
+    SELECT s.dm_requests_per_hour INTO v_capacity
+    FROM public.users u
+    LEFT JOIN public.schools s ON s.id = u.school_id
+    WHERE u.id = p_user_id;
+    v_capacity := COALESCE(v_capacity, 10);
+    v_window_seconds := 3600;
+  ELSE
+    RAISE EXCEPTION 'Unknown rate limit action: %', p_action;
+  END IF;
+
+  v_rate := v_capacity::DOUBLE PRECISION / v_window_seconds;
+
+  -- Refill for the time since the last call; the upsert locks the row, so
+  -- concurrent requests from the same user are counted one after another
+  INSERT INTO public.rate_limit_buckets (user_id, bucket, tokens, refilled_at)
+  VALUES (p_user_id, v_bucket, v_capacity, now())
+  ON CONFLICT (user_id, bucket) DO UPDATE
+  SET tokens = LEAST(
+        v_capacity,
+        rate_limit_buckets.tokens + EXTRACT(EPOCH FROM now() - rate_limit_buckets.refilled_at) * v_rate
+      ),
+      refilled_at = now()
+  RETURNING tokens INTO v_tokens;
+
+  IF v_tokens >= 1 THEN
+    UPDATE public.rate_limit_buckets
+    SET tokens = tokens - 1
+    WHERE user_id = p_user_id AND bucket = v_bucket;
+    RETURN 0;
+  END IF;
+
+  RETURN CEIL((1 - v_tokens) / v_rate)::INTEGER;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.take_rate_limit_token(UUID, TEXT, TEXT) FROM PUBLIC;
+
+DROP FUNCTION public.admin_update_school(TEXT, BOOLEAN, INTEGER, INTEGER);
+CREATE OR REPLACE FUNCTION public.admin_update_school(
+  p_name TEXT,
+  p_allow_cross_school_messaging BOOLEAN,
+  p_dm_request_expiry_days INTEGER,
+  p_dm_request_cooldown_days INTEGER,
+  p_messages_per_minute INTEGER,
+  p_dm_requests_per_hour INTEGER
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can change school settings';
+  END IF;
+
+  UPDATE public.schools
+  SET name = btrim(p_name),
+      allow_cross_school_messaging = p_allow_cross_school_messaging,
+      dm_request_expiry_days = p_dm_request_expiry_days,
+      dm_request_cooldown_days = p_dm_request_cooldown_days,
+      messages_per_minute = p_messages_per_minute,
+      dm_requests_per_hour = p_dm_requests_per_hour
+  WHERE id = public.get_user_school(auth.uid());
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.admin_update_school(TEXT, BOOLEAN, INTEGER, INTEGER, INTEGER, INTEGER) TO authenticated;
+
+-- A bucket untouched for a day is full again, so the row can go
+SELECT cron.schedule(
+  'prune-rate-limit-buckets',
+  '30 3 * * *',
+  $$DELETE FROM public.rate_limit_buckets WHERE refilled_at < now() - interval '1 day'$$
+);
@@ -0,0 +1,53 @@
+-- Chat images were served from a public bucket, so anyone holding a link could
+-- open them. The bucket is now private: clients ask for short-lived signed URLs,
+-- which storage only issues to users the policies below let read the object.
+UPDATE storage.buckets SET public = false WHERE id = 'chat-images';
+
+-- Paths: chat-images/{conversation_id}/{user_id}/{filename}, where conversation_id
+-- is a group id or the two user ids of a direct chat joined by '_'
+CREATE OR REPLACE FUNCTION public.can_view_chat_media(p_name TEXT, p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_folders TEXT[] := storage.foldername(p_name);
+BEGIN
+  IF public.is_in_conversation(v_folders[1], p_user_id) THEN
+    RETURN TRUE;
+  END IF;
+
+  -- Staff reviewing reports can see what users in their school sent
+  RETURN v_folders[2] ~ '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+    AND public.is_moderator(p_user_id)
+    AND public.same_school(p_user_id, v_folders[2]::UUID);
+END;
+$$;
+
+DROP POLICY IF EXISTS "Users can view images from conversations they are part of" ON storage.objects;
+CREATE POLICY "Participants and staff can view chat images"
+ON storage.objects
+FOR SELECT TO authenticated
+USING (
+    bucket_id = 'chat-images' AND
+    public.can_view_chat_media(name, auth.uid())
+);
+
+-- Messages store the object path rather than a link; rewrite the old public URLs
+UPDATE public.messages
+SET image_url = regexp_replace(image_url, '^https?://[^/]+/storage/v1/object/public/chat-images/', '')
+WHERE image_url ~ '/storage/v1/object/public/chat-images/';
+
+UPDATE public.message_edits
+SET previous_image_url = regexp_replace(previous_image_url, '^https?://[^/]+/storage/v1/object/public/chat-images/', '')
+WHERE previous_image_url ~ '/storage/v1/object/public/chat-images/';
+
+-- Profile pictures used to be uploaded into chat-images/avatars/ and can no longer
+-- be loaded from there; they now go to the public avatars bucket
+UPDATE public.users
+SET avatar_url = NULL
+WHERE avatar_url ~ '/storage/v1/object/public/chat-images/avatars/';
+
+GRANT EXECUTE ON FUNCTION public.can_view_chat_media(TEXT, UUID) TO authenticated;
@@ -0,0 +1,53 @@
+-- Images are re-encoded in the browser before upload (metadata stripped, downsized)
+-- and sent with a smaller thumbnail and their dimensions, so bubbles can reserve
+-- space before anything loads
+ALTER TABLE public.messages
+  ADD COLUMN image_thumbnail_url TEXT,
+  ADD COLUMN image_width INTEGER CHECK (image_width > 0),
+  ADD COLUMN image_height INTEGER CHECK (image_height > 0);
+
+-- Same as before, but a tombstone also drops the thumbnail and dimensions
+CREATE OR REPLACE FUNCTION public.track_message_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.deleted_at IS NOT NULL THEN
+    IF NEW.deleted_at IS NULL OR NEW.content IS DISTINCT FROM OLD.content THEN
+      RAISE EXCEPTION 'Deleted messages cannot be changed';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.deleted_at IS NOT NULL THEN
+    INSERT INTO public.message_edits (message_id, action, previous_content, previous_image_url, edited_by)
+    VALUES (OLD.id, 'delete', OLD.content, OLD.image_url, auth.uid());
+
+    NEW.deleted_at := now();
+    NEW.content := NULL;
+    NEW.image_url := NULL;
+    NEW.image_thumbnail_url := NULL;
+    NEW.image_width := NULL;
+    NEW.image_height := NULL;
+    NEW.image_filename := NULL;
+    NEW.image_size := NULL;
+    NEW.media_url := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.content IS DISTINCT FROM OLD.content THEN
+    IF auth.role() IS DISTINCT FROM 'service_role' THEN
+      RAISE EXCEPTION 'Messages must be edited through the sanitize-message function';
+    END IF;
+
+    INSERT INTO public.message_edits (message_id, action, previous_content, edited_by)
+    VALUES (OLD.id, 'edit', OLD.content, NEW.sender_id);
+
+    NEW.edited_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,19 @@
+-- media_type says what a message carries besides text. The original
+-- check_media_type constraint went away when messages was recreated, and photos
+-- were stored as 'text'; sanitize-message now sets the type itself.
+UPDATE public.messages
+SET media_type = 'image'
+WHERE image_url IS NOT NULL AND media_type IS DISTINCT FROM 'image';
+
+UPDATE public.messages
+SET media_type = 'text'
+WHERE media_type IS NULL OR media_type NOT IN ('text', 'image', 'gif');
+
+ALTER TABLE public.messages ALTER COLUMN media_type SET NOT NULL;
+ALTER TABLE public.messages DROP CONSTRAINT IF EXISTS check_media_type;
+ALTER TABLE public.messages
+  ADD CONSTRAINT check_media_type CHECK (media_type IN ('text', 'image', 'gif'));
+
+-- A GIF message has to say which GIF
+ALTER TABLE public.messages
+  ADD CONSTRAINT check_gif_media_url CHECK (media_type <> 'gif' OR media_url IS NOT NULL OR deleted_at IS NOT NULL);
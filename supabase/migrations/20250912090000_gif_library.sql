@@ -0,0 +1,94 @@
+-- Per-user GIF favorites and recently sent GIFs, shown in the picker before any
+-- search. GIFs are keyed by URL so ones starred from a message bubble (which only
+-- carries the URL) match the same GIF starred from the picker.
+CREATE TABLE public.gif_favorites (
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  preview_url TEXT NOT NULL,
+  title TEXT NOT NULL DEFAULT '',
+  width INTEGER,
+  height INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, url),
+  CONSTRAINT check_gif_favorite_urls CHECK (
+    url ~ '^(https://([a-z0-9-]+\.)*tenor\.com/|/gif-fixtures/)'
+    AND preview_url ~ '^(https://([a-z0-9-]+\.)*tenor\.com/|/gif-fixtures/)'
+  )
+);
+
+CREATE TABLE public.gif_recents (
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  preview_url TEXT NOT NULL,
+  title TEXT NOT NULL DEFAULT '',
+  width INTEGER,
+  height INTEGER,
+  used_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, url),
+  CONSTRAINT check_gif_recent_urls CHECK (
+    url ~ '^(https://([a-z0-9-]+\.)*tenor\.com/|/gif-fixtures/)'
+    AND preview_url ~ '^(https://([a-z0-9-]+\.)*tenor\.com/|/gif-fixtures/)'
+  )
+);
+
+CREATE INDEX idx_gif_favorites_user_created ON public.gif_favorites(user_id, created_at DESC);
+CREATE INDEX idx_gif_recents_user_used ON public.gif_recents(user_id, used_at DESC);
+
+ALTER TABLE public.gif_favorites ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.gif_recents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their favorite GIFs"
+ON public.gif_favorites
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can favorite GIFs"
+ON public.gif_favorites
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can unfavorite GIFs"
+ON public.gif_favorites
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their recent GIFs"
+ON public.gif_recents
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can record recent GIFs"
+ON public.gif_recents
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update recent GIFs"
+ON public.gif_recents
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+-- Only the last 30 GIFs sent are kept as recents
+CREATE OR REPLACE FUNCTION public.trim_gif_recents()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.gif_recents
+  WHERE user_id = NEW.user_id
+    AND url IN (
+      SELECT url FROM public.gif_recents
+      WHERE user_id = NEW.user_id
+      ORDER BY used_at DESC
+      OFFSET 30
+    );
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER trim_gif_recents
+AFTER INSERT OR UPDATE ON public.gif_recents
+FOR EACH ROW
+EXECUTE FUNCTION public.trim_gif_recents();
@@ -0,0 +1,72 @@
+-- Voice messages: recorded in the browser, uploaded to chat-images next to photos
+-- (so the same participant-only read policy applies) and sent with media_type
+-- 'audio'. media_url holds the storage path; the duration and a coarse waveform
+-- come from the client so the player can draw itself before the audio loads.
+ALTER TABLE public.messages
+  ADD COLUMN media_size INTEGER CHECK (media_size > 0),
+  ADD COLUMN media_duration_ms INTEGER CHECK (media_duration_ms > 0),
+  ADD COLUMN media_waveform SMALLINT[] CHECK (
+    cardinality(media_waveform) <= 100
+    AND 0 <= ALL (media_waveform)
+    AND 100 >= ALL (media_waveform)
+  );
+
+ALTER TABLE public.messages DROP CONSTRAINT IF EXISTS check_media_type;
+ALTER TABLE public.messages
+  ADD CONSTRAINT check_media_type CHECK (media_type IN ('text', 'image', 'gif', 'audio'));
+
+ALTER TABLE public.messages
+  ADD CONSTRAINT check_audio_media CHECK (
+    media_type <> 'audio'
+    OR deleted_at IS NOT NULL
+    OR (media_url IS NOT NULL AND media_duration_ms IS NOT NULL)
+  );
+
+-- Same as before, but a tombstone also drops the audio details
+CREATE OR REPLACE FUNCTION public.track_message_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.deleted_at IS NOT NULL THEN
+    IF NEW.deleted_at IS NULL OR NEW.content IS DISTINCT FROM OLD.content THEN
+      RAISE EXCEPTION 'Deleted messages cannot be changed';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.deleted_at IS NOT NULL THEN
+    INSERT INTO public.message_edits (message_id, action, previous_content, previous_image_url, edited_by)
+    VALUES (OLD.id, 'delete', OLD.content, OLD.image_url, auth.uid());
+
+    NEW.deleted_at := now();
+    NEW.content := NULL;
+    NEW.image_url := NULL;
+    NEW.image_thumbnail_url := NULL;
+    NEW.image_width := NULL;
+    NEW.image_height := NULL;
+    NEW.image_filename := NULL;
+    NEW.image_size := NULL;
+    NEW.media_url := NULL;
+    NEW.media_size := NULL;
+    NEW.media_duration_ms := NULL;
+    NEW.media_waveform := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.content IS DISTINCT FROM OLD.content THEN
+    IF auth.role() IS DISTINCT FROM 'service_role' THEN
+      RAISE EXCEPTION 'Messages must be edited through the sanitize-message function';
+    END IF;
+
+    INSERT INTO public.message_edits (message_id, action, previous_content, edited_by)
+    VALUES (OLD.id, 'edit', OLD.content, NEW.sender_id);
+
+    NEW.edited_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
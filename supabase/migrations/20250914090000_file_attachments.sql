@@ -0,0 +1,69 @@
+-- Document attachments (PDF, Word, spreadsheets, plain text...). The file is
+-- uploaded to chat-images under the conversation folder like photos and voice
+-- messages; media_url holds its path, media_filename the name it was sent with
+-- and media_mime_type the type sanitize-message checked it against.
+ALTER TABLE public.messages
+  ADD COLUMN media_filename TEXT CHECK (char_length(media_filename) BETWEEN 1 AND 255),
+  ADD COLUMN media_mime_type TEXT;
+
+ALTER TABLE public.messages DROP CONSTRAINT IF EXISTS check_media_type;
+ALTER TABLE public.messages
+  ADD CONSTRAINT check_media_type CHECK (media_type IN ('text', 'image', 'gif', 'audio', 'file'));
+
+ALTER TABLE public.messages
+  ADD CONSTRAINT check_file_media CHECK (
+    media_type <> 'file'
+    OR deleted_at IS NOT NULL
+    OR (media_url IS NOT NULL AND media_filename IS NOT NULL AND media_mime_type IS NOT NULL AND media_size IS NOT NULL)
+  );
+
+-- Same as before, but a tombstone also drops the file name and type
+CREATE OR REPLACE FUNCTION public.track_message_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.deleted_at IS NOT NULL THEN
+    IF NEW.deleted_at IS NULL OR NEW.content IS DISTINCT FROM OLD.content THEN
+      RAISE EXCEPTION 'Deleted messages cannot be changed';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.deleted_at IS NOT NULL THEN
+    INSERT INTO public.message_edits (message_id, action, previous_content, previous_image_url, edited_by)
+    VALUES (OLD.id, 'delete', OLD.content, OLD.image_url, auth.uid());
+
+    NEW.deleted_at := now();
+    NEW.content := NULL;
+    NEW.image_url := NULL;
+    NEW.image_thumbnail_url := NULL;
+    NEW.image_width := NULL;
+    NEW.image_height := NULL;
+    NEW.image_filename := NULL;
+    NEW.image_size := NULL;
+    NEW.media_url := NULL;
+    NEW.media_size := NULL;
+    NEW.media_duration_ms := NULL;
+    NEW.media_waveform := NULL;
+    NEW.media_filename := NULL;
+    NEW.media_mime_type := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.content IS DISTINCT FROM OLD.content THEN
+    IF auth.role() IS DISTINCT FROM 'service_role' THEN
+      RAISE EXCEPTION 'Messages must be edited through the sanitize-message function';
+    END IF;
+
+    INSERT INTO public.message_edits (message_id, action, previous_content, edited_by)
+    VALUES (OLD.id, 'edit', OLD.content, NEW.sender_id);
+
+    NEW.edited_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
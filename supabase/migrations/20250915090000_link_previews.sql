@@ -0,0 +1,78 @@
+-- Link previews: the unfurl-link edge function fetches a page's OpenGraph
+-- metadata once, caches it here keyed by URL, and points the message at it.
+-- Failed lookups are cached too so a dead link isn't fetched again and again.
+CREATE TABLE public.link_previews (
+  url TEXT PRIMARY KEY CHECK (char_length(url) <= 2048),
+  ok BOOLEAN NOT NULL,
+  title TEXT CHECK (char_length(title) <= 300),
+  description TEXT CHECK (char_length(description) <= 500),
+  image_url TEXT CHECK (char_length(image_url) <= 2048),
+  site_name TEXT CHECK (char_length(site_name) <= 100),
+  fetched_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Written only by the edge function; the metadata is public, so anyone signed in can read it
+ALTER TABLE public.link_previews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can view link previews"
+ON public.link_previews
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+-- The preview shown under a message, for the first link in its text
+ALTER TABLE public.messages
+  ADD COLUMN link_preview_url TEXT REFERENCES public.link_previews(url) ON DELETE SET NULL;
+
+-- Same as before, but a tombstone also drops the link preview
+CREATE OR REPLACE FUNCTION public.track_message_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.deleted_at IS NOT NULL THEN
+    IF NEW.deleted_at IS NULL OR NEW.content IS DISTINCT FROM OLD.content THEN
+      RAISE EXCEPTION 'Deleted messages cannot be changed';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.deleted_at IS NOT NULL THEN
+    INSERT INTO public.message_edits (message_id, action, previous_content, previous_image_url, edited_by)
+    VALUES (OLD.id, 'delete', OLD.content, OLD.image_url, auth.uid());
+
+    NEW.deleted_at := now();
+    NEW.content := NULL;
+    NEW.image_url := NULL;
+    NEW.image_thumbnail_url := NULL;
+    NEW.image_width := NULL;
+    NEW.image_height := NULL;
+    NEW.image_filename := NULL;
+    NEW.image_size := NULL;
+    NEW.media_url := NULL;
+    NEW.media_size := NULL;
+    NEW.media_duration_ms := NULL;
+    NEW.media_waveform := NULL;
+    NEW.media_filename := NULL;
+    NEW.media_mime_type := NULL;
+    NEW.link_preview_url := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.content IS DISTINCT FROM OLD.content THEN
+    IF auth.role() IS DISTINCT FROM 'service_role' THEN
+      RAISE EXCEPTION 'Messages must be edited through the sanitize-message function';
+    END IF;
+
+    INSERT INTO public.message_edits (message_id, action, previous_content, edited_by)
+    VALUES (OLD.id, 'edit', OLD.content, NEW.sender_id);
+
+    NEW.edited_at := now();
+    -- The old preview may not match the new text; unfurl-link sets it again
+    NEW.link_preview_url := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,88 @@
+-- Adding someone to a group follows the same rules as messaging them directly:
+-- their school must be reachable, and users in privacy mode can only be added
+-- by an accepted contact
+CREATE OR REPLACE FUNCTION public.can_add_to_group(p_adder_id UUID, p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.schools_can_connect(p_adder_id, p_user_id)
+    AND (
+      NOT COALESCE((SELECT privacy_mode FROM public.users WHERE id = p_user_id), false)
+      OR EXISTS (
+        SELECT 1 FROM public.allowed_contacts
+        WHERE user1_id = LEAST(p_adder_id, p_user_id)
+          AND user2_id = GREATEST(p_adder_id, p_user_id)
+      )
+    );
+$$;
+
+-- Only used inside the functions below; it shouldn't answer questions about other people's contacts
+REVOKE EXECUTE ON FUNCTION public.can_add_to_group(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.create_group_conversation(p_name TEXT, p_member_ids UUID[])
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_conversation_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- The error doesn't say who, so it can't be used to probe privacy settings
+  IF EXISTS (
+    SELECT 1 FROM unnest(COALESCE(p_member_ids, '{}')) AS member_id
+    WHERE member_id <> auth.uid() AND NOT public.can_add_to_group(auth.uid(), member_id)
+  ) THEN
+    RAISE EXCEPTION 'Some of these people can''t be added to a group by you';
+  END IF;
+
+  INSERT INTO public.conversations (name, created_by)
+  VALUES (btrim(p_name), auth.uid())
+  RETURNING id INTO new_conversation_id;
+
+  INSERT INTO public.conversation_members (conversation_id, user_id, role)
+  VALUES (new_conversation_id, auth.uid(), 'owner');
+
+  INSERT INTO public.conversation_members (conversation_id, user_id, role)
+  SELECT new_conversation_id, member_id, 'member'
+  FROM unnest(COALESCE(p_member_ids, '{}')) AS member_id
+  WHERE member_id <> auth.uid()
+  ON CONFLICT DO NOTHING;
+
+  RETURN new_conversation_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.add_conversation_members(p_conversation_id UUID, p_user_ids UUID[])
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(public.get_conversation_role(p_conversation_id, auth.uid()), 'member') = 'member' THEN
+    RAISE EXCEPTION 'Only group owners and admins can add members';
+  END IF;
+
+  -- Existing members are left alone; only new ones need to be reachable
+  IF EXISTS (
+    SELECT 1 FROM unnest(COALESCE(p_user_ids, '{}')) AS member_id
+    WHERE NOT public.is_conversation_member(p_conversation_id, member_id)
+      AND NOT public.can_add_to_group(auth.uid(), member_id)
+  ) THEN
+    RAISE EXCEPTION 'Some of these people can''t be added to a group by you';
+  END IF;
+
+  INSERT INTO public.conversation_members (conversation_id, user_id, role)
+  SELECT p_conversation_id, member_id, 'member'
+  FROM unnest(p_user_ids) AS member_id
+  ON CONFLICT DO NOTHING;
+END;
+$$;
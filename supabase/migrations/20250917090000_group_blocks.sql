@@ -0,0 +1,190 @@
+-- Blocks carry over to groups: you can't add someone across a block, and
+-- group messages from people you've blocked are hidden from you
+CREATE OR REPLACE FUNCTION public.can_add_to_group(p_adder_id UUID, p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT public.is_blocked_between(p_adder_id, p_user_id)
+    AND public.schools_can_connect(p_adder_id, p_user_id)
+    AND (
+      NOT COALESCE((SELECT privacy_mode FROM public.users WHERE id = p_user_id), false)
+      OR EXISTS (
+        SELECT 1 FROM public.allowed_contacts
+        WHERE user1_id = LEAST(p_adder_id, p_user_id)
+          AND user2_id = GREATEST(p_adder_id, p_user_id)
+      )
+    );
+$$;
+
+-- Only the blocker stops seeing messages, so the block isn't revealed to the other person.
+-- Covers direct reads, get_conversation_messages and realtime.
+CREATE POLICY "Group messages from blocked users are hidden"
+ON public.messages
+AS RESTRICTIVE
+FOR SELECT
+USING (conversation_id IS NULL OR NOT public.has_blocked(auth.uid(), sender_id));
+
+-- The inbox preview and unread count skip them too
+CREATE OR REPLACE FUNCTION public.get_inbox()
+RETURNS TABLE (
+  partner_id UUID,
+  conversation_id UUID,
+  name TEXT,
+  avatar_url TEXT,
+  last_message_id UUID,
+  last_message_content TEXT,
+  last_message_media_type TEXT,
+  last_message_has_image BOOLEAN,
+  last_message_sender_id UUID,
+  last_message_sender_name TEXT,
+  last_message_at TIMESTAMP WITH TIME ZONE,
+  unread_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH my_messages AS (
+    SELECT
+      m.*,
+      CASE WHEN m.sender_id = auth.uid() THEN m.recipient_id ELSE m.sender_id END AS other_id
+    FROM public.messages m
+    WHERE m.conversation_id IS NULL
+      AND (m.sender_id = auth.uid() OR m.recipient_id = auth.uid())
+  ),
+  latest AS (
+    SELECT DISTINCT ON (other_id) *
+    FROM my_messages
+    ORDER BY other_id, created_at DESC, id DESC
+  ),
+  unread AS (
+    SELECT mm.other_id, count(*) AS unread_count
+    FROM my_messages mm
+    LEFT JOIN public.conversation_reads cr
+      ON cr.user_id = auth.uid() AND cr.partner_id = mm.other_id
+    WHERE mm.recipient_id = auth.uid()
+      AND (cr.last_read_at IS NULL OR mm.created_at > cr.last_read_at)
+    GROUP BY mm.other_id
+  ),
+  direct AS (
+    SELECT
+      l.other_id AS partner_id,
+      NULL::UUID AS conversation_id,
+      u.name,
+      u.avatar_url,
+      l.id AS last_message_id,
+      l.content AS last_message_content,
+      l.media_type AS last_message_media_type,
+      l.image_url IS NOT NULL AS last_message_has_image,
+      l.sender_id AS last_message_sender_id,
+      NULL::TEXT AS last_message_sender_name,
+      l.created_at AS last_message_at,
+      COALESCE(un.unread_count, 0) AS unread_count
+    FROM latest l
+    JOIN public.users u ON u.id = l.other_id
+    LEFT JOIN unread un ON un.other_id = l.other_id
+  ),
+  groups AS (
+    SELECT
+      NULL::UUID AS partner_id,
+      c.id AS conversation_id,
+      c.name,
+      c.avatar_url,
+      gm.id AS last_message_id,
+      gm.content AS last_message_content,
+      gm.media_type AS last_message_media_type,
+      gm.image_url IS NOT NULL AS last_message_has_image,
+      gm.sender_id AS last_message_sender_id,
+      su.name AS last_message_sender_name,
+      COALESCE(gm.created_at, c.created_at) AS last_message_at,
+      (
+        SELECT count(*) FROM public.messages um
+        WHERE um.conversation_id = c.id
+          AND um.sender_id <> auth.uid()
+          AND um.created_at > cm.last_read_at
+          AND NOT public.has_blocked(auth.uid(), um.sender_id)
+      ) AS unread_count
+    FROM public.conversation_members cm
+    JOIN public.conversations c ON c.id = cm.conversation_id
+    LEFT JOIN LATERAL (
+      SELECT * FROM public.messages m
+      WHERE m.conversation_id = c.id
+        AND NOT public.has_blocked(auth.uid(), m.sender_id)
+      ORDER BY m.created_at DESC, m.id DESC
+      LIMIT 1
+    ) gm ON true
+    LEFT JOIN public.users su ON su.id = gm.sender_id
+    WHERE cm.user_id = auth.uid()
+  )
+  SELECT * FROM direct
+  UNION ALL
+  SELECT * FROM groups
+  ORDER BY last_message_at DESC;
+$$;
+
+-- So do search results
+CREATE OR REPLACE FUNCTION public.search_messages(p_query TEXT, p_limit INTEGER DEFAULT 30)
+RETURNS TABLE (
+  message_id UUID,
+  partner_id UUID,
+  conversation_id UUID,
+  name TEXT,
+  avatar_url TEXT,
+  sender_id UUID,
+  sender_name TEXT,
+  snippet TEXT,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', p_query) AS q
+  )
+  SELECT
+    m.id AS message_id,
+    CASE
+      WHEN m.conversation_id IS NOT NULL THEN NULL
+      WHEN m.sender_id = auth.uid() THEN m.recipient_id
+      ELSE m.sender_id
+    END AS partner_id,
+    m.conversation_id,
+    COALESCE(c.name, partner.name) AS name,
+    COALESCE(c.avatar_url, partner.avatar_url) AS avatar_url,
+    m.sender_id,
+    sender.name AS sender_name,
+    ts_headline(
+      'english',
+      m.content,
+      query.q,
+      'StartSel=<mark>, StopSel=</mark>, MaxWords=20, MinWords=8, MaxFragments=1'
+    ) AS snippet,
+    m.created_at
+  FROM public.messages m
+  CROSS JOIN query
+  LEFT JOIN public.conversations c ON c.id = m.conversation_id
+  LEFT JOIN public.users partner ON partner.id = CASE
+    WHEN m.conversation_id IS NOT NULL THEN NULL
+    WHEN m.sender_id = auth.uid() THEN m.recipient_id
+    ELSE m.sender_id
+  END
+  LEFT JOIN public.users sender ON sender.id = m.sender_id
+  WHERE to_tsvector('english', COALESCE(m.content, '')) @@ query.q
+    AND m.deleted_at IS NULL
+    AND (
+      (m.conversation_id IS NULL AND (m.sender_id = auth.uid() OR m.recipient_id = auth.uid()))
+      OR (
+        m.conversation_id IS NOT NULL
+        AND public.is_conversation_member(m.conversation_id, auth.uid())
+        AND NOT public.has_blocked(auth.uid(), m.sender_id)
+      )
+    )
+  ORDER BY ts_rank(to_tsvector('english', COALESCE(m.content, '')), query.q) DESC, m.created_at DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100);
+$$;
@@ -0,0 +1,57 @@
+-- Report context is only for the people in the conversation (when they report
+-- it) and moderators; it was callable by anyone who knew a message id
+CREATE OR REPLACE FUNCTION public.get_report_context(p_message_id UUID, p_radius INTEGER DEFAULT 5)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH target AS (
+    SELECT * FROM public.messages
+    WHERE id = p_message_id
+      AND (
+        public.is_moderator(auth.uid())
+        OR sender_id = auth.uid()
+        OR recipient_id = auth.uid()
+        OR (conversation_id IS NOT NULL AND public.is_conversation_member(conversation_id, auth.uid()))
+      )
+  ),
+  thread AS (
+    SELECT m.*
+    FROM public.messages m, target t
+    WHERE (t.conversation_id IS NOT NULL AND m.conversation_id = t.conversation_id)
+       OR (
+         t.conversation_id IS NULL
+         AND (
+           (m.sender_id = t.sender_id AND m.recipient_id = t.recipient_id)
+           OR (m.sender_id = t.recipient_id AND m.recipient_id = t.sender_id)
+         )
+       )
+  ),
+  surrounding AS (
+    (SELECT th.* FROM thread th, target t
+      WHERE (th.created_at, th.id) < (t.created_at, t.id)
+      ORDER BY th.created_at DESC, th.id DESC LIMIT p_radius)
+    UNION ALL
+    (SELECT th.* FROM thread th, target t WHERE th.id = t.id)
+    UNION ALL
+    (SELECT th.* FROM thread th, target t
+      WHERE (th.created_at, th.id) > (t.created_at, t.id)
+      ORDER BY th.created_at, th.id LIMIT p_radius)
+  )
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'id', s.id,
+    'sender_id', s.sender_id,
+    'sender_name', u.name,
+    'content', s.content,
+    'image_url', s.image_url,
+    'created_at', s.created_at,
+    'deleted', s.deleted_at IS NOT NULL,
+    'reported', s.id = p_message_id
+  ) ORDER BY s.created_at, s.id), '[]'::jsonb)
+  FROM surrounding s
+  LEFT JOIN public.users u ON u.id = s.sender_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_report_context(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
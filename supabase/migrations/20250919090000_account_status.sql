@@ -0,0 +1,255 @@
+-- Roles and account restrictions move off public.users, whose rows other users
+-- can read. People can read their own status; admins go through the functions below.
+CREATE TABLE public.account_status (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE,
+  role public.user_role NOT NULL DEFAULT 'student',
+  suspended_at TIMESTAMP WITH TIME ZONE,
+  suspension_reason TEXT,
+  -- Set by an admin; the user can't turn privacy mode off while it is set
+  privacy_mode_locked BOOLEAN NOT NULL DEFAULT false
+);
+
+INSERT INTO public.account_status (user_id, role, suspended_at, suspension_reason, privacy_mode_locked)
+SELECT id, role, suspended_at, suspension_reason, privacy_mode_locked FROM public.users;
+
+ALTER TABLE public.account_status ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own account status"
+ON public.account_status
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Every profile gets a status row
+CREATE OR REPLACE FUNCTION public.create_account_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.account_status (user_id) VALUES (NEW.id) ON CONFLICT DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER create_account_status
+AFTER INSERT ON public.users
+FOR EACH ROW
+EXECUTE FUNCTION public.create_account_status();
+
+CREATE OR REPLACE FUNCTION public.get_user_role(p_user_id UUID)
+RETURNS public.user_role
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM public.account_status WHERE user_id = p_user_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_suspended(p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.account_status WHERE user_id = p_user_id AND suspended_at IS NOT NULL);
+$$;
+
+-- Schools still change only through admins, and a locked privacy mode stays on
+CREATE OR REPLACE FUNCTION public.protect_user_admin_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR public.is_admin(auth.uid()) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.school_id IS DISTINCT FROM OLD.school_id THEN
+    RAISE EXCEPTION 'Only admins can change schools';
+  END IF;
+
+  IF NEW.privacy_mode IS DISTINCT FROM true AND EXISTS (
+    SELECT 1 FROM public.account_status WHERE user_id = OLD.id AND privacy_mode_locked
+  ) THEN
+    RAISE EXCEPTION 'Privacy mode has been turned on by an admin';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.admin_list_users(p_search TEXT DEFAULT NULL)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  email TEXT,
+  avatar_url TEXT,
+  role public.user_role,
+  suspended_at TIMESTAMP WITH TIME ZONE,
+  suspension_reason TEXT,
+  privacy_mode BOOLEAN,
+  privacy_mode_locked BOOLEAN,
+  last_seen_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can manage users';
+  END IF;
+
+  RETURN QUERY
+  SELECT u.id, u.name, u.email, u.avatar_url, a.role, a.suspended_at, a.suspension_reason,
+         COALESCE(u.privacy_mode, false), a.privacy_mode_locked, u.last_seen_at, u.created_at
+  FROM public.users u
+  JOIN public.account_status a ON a.user_id = u.id
+  WHERE u.school_id = public.get_user_school(auth.uid())
+    AND (
+      p_search IS NULL
+      OR trim(p_search) = ''
+      OR u.name ILIKE '%' || trim(p_search) || '%'
+      OR u.email ILIKE '%' || trim(p_search) || '%'
+    )
+  ORDER BY u.name;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.admin_set_role(p_user_id UUID, p_role public.user_role)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin_of(auth.uid(), p_user_id) THEN
+    RAISE EXCEPTION 'Only admins can change roles';
+  END IF;
+
+  IF p_user_id = auth.uid() AND p_role <> 'admin' THEN
+    RAISE EXCEPTION 'Admins cannot remove their own admin role';
+  END IF;
+
+  UPDATE public.account_status SET role = p_role WHERE user_id = p_user_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.admin_set_suspended(
+  p_user_id UUID,
+  p_suspended BOOLEAN,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin_of(auth.uid(), p_user_id) THEN
+    RAISE EXCEPTION 'Only admins can suspend accounts';
+  END IF;
+
+  IF p_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'Admins cannot suspend themselves';
+  END IF;
+
+  UPDATE public.account_status
+  SET suspended_at = CASE WHEN p_suspended THEN COALESCE(suspended_at, now()) END,
+      suspension_reason = CASE WHEN p_suspended THEN NULLIF(trim(p_reason), '') END
+  WHERE user_id = p_user_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.admin_force_privacy_mode(p_user_id UUID, p_locked BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin_of(auth.uid(), p_user_id) THEN
+    RAISE EXCEPTION 'Only admins can force privacy mode';
+  END IF;
+
+  UPDATE public.account_status SET privacy_mode_locked = p_locked WHERE user_id = p_user_id;
+
+  IF p_locked THEN
+    UPDATE public.users SET privacy_mode = true WHERE id = p_user_id;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_admin_stats(p_days INTEGER DEFAULT 14)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_school_id UUID := public.get_user_school(auth.uid());
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can view statistics';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'total_users', (SELECT count(*) FROM public.users WHERE school_id = v_school_id),
+    'suspended_users', (
+      SELECT count(*) FROM public.users u
+      JOIN public.account_status a ON a.user_id = u.id
+      WHERE u.school_id = v_school_id AND a.suspended_at IS NOT NULL
+    ),
+    'active_users', (
+      SELECT count(*) FROM public.users
+      WHERE school_id = v_school_id AND last_seen_at > now() - interval '7 days'
+    ),
+    'users_by_role', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object('role', r.role, 'count', r.total) ORDER BY r.role), '[]'::jsonb)
+      FROM (
+        SELECT a.role, count(*) AS total
+        FROM public.users u
+        JOIN public.account_status a ON a.user_id = u.id
+        WHERE u.school_id = v_school_id
+        GROUP BY a.role
+      ) r
+    ),
+    'messages_per_day', (
+      SELECT jsonb_agg(jsonb_build_object('day', d.day::date, 'count', COALESCE(m.total, 0)) ORDER BY d.day)
+      FROM generate_series(current_date - (p_days - 1), current_date, interval '1 day') AS d(day)
+      LEFT JOIN (
+        SELECT m.created_at::date AS day, count(*) AS total
+        FROM public.messages m
+        JOIN public.users u ON u.id = m.sender_id
+        WHERE m.created_at >= current_date - (p_days - 1)
+          AND u.school_id = v_school_id
+        GROUP BY 1
+      ) m ON m.day = d.day::date
+    ),
+    'reports_by_status', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object('status', r.status, 'count', r.total) ORDER BY r.status), '[]'::jsonb)
+      FROM (
+        SELECT rp.status, count(*) AS total
+        FROM public.reports rp
+        JOIN public.users u ON u.id = rp.reported_user_id
+        WHERE u.school_id = v_school_id
+        GROUP BY rp.status
+      ) r
+    )
+  );
+END;
+$$;
+
+ALTER TABLE public.users
+  DROP COLUMN role,
+  DROP COLUMN suspended_at,
+  DROP COLUMN suspension_reason,
+  DROP COLUMN privacy_mode_locked;
@@ -0,0 +1,54 @@
+-- Requests are answered only through the dm-request function. The recipient
+-- UPDATE policy and the open INSERT policy on allowed_contacts let clients skip
+-- it, accepting expired requests or adding contacts outright.
+DROP POLICY IF EXISTS "Recipients can update DM requests" ON public.dm_requests;
+DROP POLICY IF EXISTS "System can insert allowed contacts" ON public.allowed_contacts;
+
+-- Accept or decline a pending request; accepting adds the contact in the same
+-- transaction. Returns nothing when the recipient has no such pending request.
+CREATE OR REPLACE FUNCTION public.respond_to_dm_request(
+  p_request_id UUID,
+  p_recipient_id UUID,
+  p_status public.dm_request_status
+)
+RETURNS SETOF public.dm_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request public.dm_requests%ROWTYPE;
+BEGIN
+  IF p_status NOT IN ('accepted', 'rejected') THEN
+    RAISE EXCEPTION 'status must be accepted or rejected';
+  END IF;
+
+  -- An expired request can't be accepted late
+  PERFORM public.expire_dm_requests();
+
+  UPDATE public.dm_requests
+  SET status = p_status
+  WHERE id = p_request_id
+    AND recipient_id = p_recipient_id
+    AND status = 'pending'
+  RETURNING * INTO v_request;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF p_status = 'accepted' THEN
+    INSERT INTO public.allowed_contacts (user1_id, user2_id)
+    VALUES (
+      LEAST(v_request.sender_id, v_request.recipient_id),
+      GREATEST(v_request.sender_id, v_request.recipient_id)
+    )
+    ON CONFLICT (user1_id, user2_id) DO NOTHING;
+  END IF;
+
+  RETURN NEXT v_request;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.respond_to_dm_request(UUID, UUID, public.dm_request_status) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.respond_to_dm_request(UUID, UUID, public.dm_request_status) TO service_role;
@@ -0,0 +1,10 @@
+-- Messages and DM requests are written only by the sanitize-message and
+-- dm-request functions, which run the filter, rate limits and reachability
+-- checks. Client INSERT policies let anyone skip all of that.
+DROP POLICY IF EXISTS "Users can send messages" ON public.messages;
+DROP POLICY IF EXISTS "Users can create DM requests" ON public.dm_requests;
+
+-- Supabase grants new functions to anon and authenticated directly, so revoking
+-- from PUBLIC alone left anyone able to drain another user's tokens
+REVOKE EXECUTE ON FUNCTION public.take_rate_limit_token(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.take_rate_limit_token(UUID, TEXT, TEXT) TO service_role;
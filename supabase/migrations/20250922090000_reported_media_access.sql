@@ -0,0 +1,33 @@
+-- Moderators could open any chat media sent by someone in their school. They
+-- now only see media attached to a reported message: the message as it is now,
+-- or as it was snapshotted into the report.
+CREATE OR REPLACE FUNCTION public.can_view_chat_media(p_name TEXT, p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_folders TEXT[] := storage.foldername(p_name);
+BEGIN
+  IF public.is_in_conversation(v_folders[1], p_user_id) THEN
+    RETURN TRUE;
+  END IF;
+
+  IF NOT public.is_moderator(p_user_id) THEN
+    RETURN FALSE;
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1
+    FROM public.reports r
+    LEFT JOIN public.messages m ON m.id = r.message_id
+    WHERE public.same_school(p_user_id, r.reported_user_id)
+      AND (
+        p_name IN (m.image_url, m.image_thumbnail_url, m.media_url)
+        OR r.context @> jsonb_build_array(jsonb_build_object('reported', true, 'image_url', p_name))
+      )
+  );
+END;
+$$;
@@ -0,0 +1,76 @@
+-- The sender's UPDATE policy exists so clients can delete their messages, but
+-- it also let them rewrite a message's attachment after sanitize-message had
+-- checked it (a GIF from any host, a file with any MIME type). Only the service
+-- role may change them now.
+CREATE OR REPLACE FUNCTION public.track_message_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Attachments and addressing are checked by sanitize-message when the message
+  -- is sent; the sender's UPDATE policy must not let them be swapped afterwards
+  IF auth.role() IS DISTINCT FROM 'service_role' AND ((
+    NEW.sender_id, NEW.recipient_id, NEW.conversation_id, NEW.created_at,
+    NEW.media_type, NEW.media_url, NEW.media_size, NEW.media_duration_ms, NEW.media_waveform,
+    NEW.media_filename, NEW.media_mime_type, NEW.image_url, NEW.image_thumbnail_url,
+    NEW.image_width, NEW.image_height, NEW.image_filename, NEW.image_size
+  ) IS DISTINCT FROM (
+    OLD.sender_id, OLD.recipient_id, OLD.conversation_id, OLD.created_at,
+    OLD.media_type, OLD.media_url, OLD.media_size, OLD.media_duration_ms, OLD.media_waveform,
+    OLD.media_filename, OLD.media_mime_type, OLD.image_url, OLD.image_thumbnail_url,
+    OLD.image_width, OLD.image_height, OLD.image_filename, OLD.image_size
+  )
+    -- Foreign keys clear these when the replied-to message or cached preview goes
+    OR (NEW.reply_to_id IS NOT NULL AND NEW.reply_to_id IS DISTINCT FROM OLD.reply_to_id)
+    OR (NEW.link_preview_url IS NOT NULL AND NEW.link_preview_url IS DISTINCT FROM OLD.link_preview_url)
+  ) THEN
+    RAISE EXCEPTION 'Messages must be edited through the sanitize-message function';
+  END IF;
+
+  IF OLD.deleted_at IS NOT NULL THEN
+    IF NEW.deleted_at IS NULL OR NEW.content IS DISTINCT FROM OLD.content THEN
+      RAISE EXCEPTION 'Deleted messages cannot be changed';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.deleted_at IS NOT NULL THEN
+    INSERT INTO public.message_edits (message_id, action, previous_content, previous_image_url, edited_by)
+    VALUES (OLD.id, 'delete', OLD.content, OLD.image_url, auth.uid());
+
+    NEW.deleted_at := now();
+    NEW.content := NULL;
+    NEW.image_url := NULL;
+    NEW.image_thumbnail_url := NULL;
+    NEW.image_width := NULL;
+    NEW.image_height := NULL;
+    NEW.image_filename := NULL;
+    NEW.image_size := NULL;
+    NEW.media_url := NULL;
+    NEW.media_size := NULL;
+    NEW.media_duration_ms := NULL;
+    NEW.media_waveform := NULL;
+    NEW.media_filename := NULL;
+    NEW.media_mime_type := NULL;
+    NEW.link_preview_url := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.content IS DISTINCT FROM OLD.content THEN
+    IF auth.role() IS DISTINCT FROM 'service_role' THEN
+      RAISE EXCEPTION 'Messages must be edited through the sanitize-message function';
+    END IF;
+
+    INSERT INTO public.message_edits (message_id, action, previous_content, edited_by)
+    VALUES (OLD.id, 'edit', OLD.content, NEW.sender_id);
+
+    NEW.edited_at := now();
+    -- The old preview may not match the new text; unfurl-link sets it again
+    NEW.link_preview_url := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,14 @@
+-- Link preview images were loaded straight from the linked site, which showed
+-- it every viewer's IP address and when they read the message. unfurl-link now
+-- copies them into this bucket and link_previews.image_url holds the object path.
+-- Only the function writes here (with the service role), so there are no
+-- write policies.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('link-preview-images', 'link-preview-images', true)
+ON CONFLICT (id) DO NOTHING;
+
+-- Cached previews still point at third-party images; they get a stored copy
+-- the next time they're refreshed
+UPDATE public.link_previews
+SET image_url = NULL
+WHERE image_url IS NOT NULL;
@@ -0,0 +1,50 @@
+-- has_blocked and is_blocked_between answer for any pair of users, and Supabase
+-- grants new functions to anon and authenticated, so anyone could ask who had
+-- blocked them. Only the edge functions (service role) call them now; the
+-- policies go through wrappers that always ask on behalf of auth.uid().
+
+-- Whether p_user_id has blocked the caller
+CREATE OR REPLACE FUNCTION public.is_blocked_by(p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_blocked(p_user_id, auth.uid());
+$$;
+
+-- Whether the caller has blocked p_user_id
+CREATE OR REPLACE FUNCTION public.has_blocked_user(p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_blocked(auth.uid(), p_user_id);
+$$;
+
+DROP POLICY IF EXISTS "Blocked users cannot see who blocked them" ON public.users;
+CREATE POLICY "Blocked users cannot see who blocked them"
+ON public.users
+AS RESTRICTIVE
+FOR SELECT
+USING (NOT public.is_blocked_by(id));
+
+DROP POLICY IF EXISTS "Group messages from blocked users are hidden" ON public.messages;
+CREATE POLICY "Group messages from blocked users are hidden"
+ON public.messages
+AS RESTRICTIVE
+FOR SELECT
+USING (conversation_id IS NULL OR NOT public.has_blocked_user(sender_id));
+
+REVOKE EXECUTE ON FUNCTION public.is_blocked_by(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.is_blocked_by(UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.has_blocked_user(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.has_blocked_user(UUID) TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION public.has_blocked(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.has_blocked(UUID, UUID) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.is_blocked_between(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.is_blocked_between(UUID, UUID) TO service_role;
@@ -0,0 +1,96 @@
+-- Roles and suspensions moved to account_status so other users couldn't read
+-- them, but get_user_role, is_admin, is_moderator, is_admin_of and is_suspended
+-- still answered for any user id. Only the edge functions (service role) and
+-- other SECURITY DEFINER functions call them now; policies and the app ask
+-- about the signed-in user through the wrappers below.
+
+-- Whether the signed-in user is staff (teacher, counselor or admin)
+CREATE OR REPLACE FUNCTION public.current_user_is_moderator()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.is_moderator(auth.uid());
+$$;
+
+-- Whether the signed-in user is an admin
+CREATE OR REPLACE FUNCTION public.current_user_is_admin()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.is_admin(auth.uid());
+$$;
+
+DROP POLICY IF EXISTS "Staff can view all profiles" ON public.users;
+CREATE POLICY "Staff can view all profiles"
+ON public.users
+FOR SELECT
+USING (public.current_user_is_moderator());
+
+DROP POLICY IF EXISTS "Moderators can view reports from their school" ON public.reports;
+CREATE POLICY "Moderators can view reports from their school"
+ON public.reports
+FOR SELECT
+USING (public.current_user_is_moderator() AND public.same_school(auth.uid(), reported_user_id));
+
+DROP POLICY IF EXISTS "Moderators can view message history" ON public.message_edits;
+CREATE POLICY "Moderators can view message history"
+ON public.message_edits
+FOR SELECT
+USING (
+  public.current_user_is_moderator()
+  AND EXISTS (
+    SELECT 1 FROM public.messages m
+    WHERE m.id = message_edits.message_id
+      AND public.same_school(auth.uid(), m.sender_id)
+  )
+);
+
+DROP POLICY IF EXISTS "Staff can view word lists" ON public.profanity_words;
+CREATE POLICY "Staff can view word lists"
+ON public.profanity_words
+FOR SELECT
+USING (
+  public.current_user_is_moderator()
+  AND (school_id IS NULL OR school_id = public.get_user_school(auth.uid()))
+);
+
+DROP POLICY IF EXISTS "Admins can add words for their school" ON public.profanity_words;
+CREATE POLICY "Admins can add words for their school"
+ON public.profanity_words
+FOR INSERT
+WITH CHECK (
+  public.current_user_is_admin()
+  AND school_id = public.get_user_school(auth.uid())
+  AND created_by = auth.uid()
+);
+
+DROP POLICY IF EXISTS "Admins can remove words for their school" ON public.profanity_words;
+CREATE POLICY "Admins can remove words for their school"
+ON public.profanity_words
+FOR DELETE
+USING (
+  public.current_user_is_admin()
+  AND school_id = public.get_user_school(auth.uid())
+);
+
+REVOKE EXECUTE ON FUNCTION public.current_user_is_moderator() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.current_user_is_moderator() TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.current_user_is_admin() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.current_user_is_admin() TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION public.get_user_role(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_user_role(UUID) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.is_admin(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.is_admin(UUID) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.is_moderator(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.is_moderator(UUID) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.is_admin_of(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.is_admin_of(UUID, UUID) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.is_suspended(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.is_suspended(UUID) TO service_role;
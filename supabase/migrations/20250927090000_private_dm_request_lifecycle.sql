@@ -0,0 +1,7 @@
+-- Supabase grants new functions to anon and authenticated directly, so anyone
+-- could ask whether one user had declined another's DM request, and until
+-- when. Only the dm-request function (and the expiry cron job) call these.
+REVOKE EXECUTE ON FUNCTION public.get_dm_request_cooldown_until(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_dm_request_cooldown_until(UUID, UUID) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.expire_dm_requests() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.expire_dm_requests() TO service_role;
@@ -0,0 +1,30 @@
+-- Making a non-member (or someone who just left) the owner updated no rows but
+-- still demoted the caller, leaving the group without an owner
+CREATE OR REPLACE FUNCTION public.set_conversation_member_role(p_conversation_id UUID, p_user_id UUID, p_role conversation_role)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.get_conversation_role(p_conversation_id, auth.uid()) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only the group owner can change roles';
+  END IF;
+
+  IF p_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'Owners cannot change their own role';
+  END IF;
+
+  UPDATE public.conversation_members SET role = p_role
+  WHERE conversation_id = p_conversation_id AND user_id = p_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'That person is not a member of this group';
+  END IF;
+
+  IF p_role = 'owner' THEN
+    UPDATE public.conversation_members SET role = 'admin'
+    WHERE conversation_id = p_conversation_id AND user_id = auth.uid();
+  END IF;
+END;
+$$;
@@ -0,0 +1,92 @@
+-- Roles and suspensions are private: users can read their own, staff checks in
+-- policies keep working, and nobody can look up another user's
+BEGIN;
+SELECT plan(11);
+
+INSERT INTO public.schools (name, email_domain) VALUES ('Example High', 'example.edu');
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'student@example.edu', '{"name": "Student"}'),
+  ('00000000-0000-0000-0000-0000000000b2', 'suspended@example.edu', '{"name": "Suspended"}'),
+  ('00000000-0000-0000-0000-0000000000c3', 'teacher@example.edu', '{"name": "Teacher"}');
+
+UPDATE public.account_status
+SET suspended_at = now(), suspension_reason = 'Spamming the group chats'
+WHERE user_id = '00000000-0000-0000-0000-0000000000b2';
+UPDATE public.account_status SET role = 'teacher' WHERE user_id = '00000000-0000-0000-0000-0000000000c3';
+
+INSERT INTO public.reports (reporter_id, reported_user_id, reason)
+VALUES ('00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000b2', 'spam');
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a1", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$SELECT public.get_user_role('00000000-0000-0000-0000-0000000000c3')$$,
+  '42501',
+  NULL,
+  'users cannot look up another user''s role'
+);
+
+SELECT throws_ok(
+  $$SELECT public.is_suspended('00000000-0000-0000-0000-0000000000b2')$$,
+  '42501',
+  NULL,
+  'users cannot look up whether another user is suspended'
+);
+
+SELECT throws_ok(
+  $$SELECT public.is_moderator('00000000-0000-0000-0000-0000000000c3')$$,
+  '42501',
+  NULL,
+  'users cannot look up whether another user is staff'
+);
+
+SELECT throws_ok(
+  $$SELECT public.is_admin('00000000-0000-0000-0000-0000000000c3')$$,
+  '42501',
+  NULL,
+  'users cannot look up whether another user is an admin'
+);
+
+SELECT is_empty(
+  $$SELECT 1 FROM public.account_status WHERE user_id = '00000000-0000-0000-0000-0000000000b2'$$,
+  'users cannot read another user''s account status'
+);
+
+SELECT is(
+  (SELECT role FROM public.account_status WHERE user_id = '00000000-0000-0000-0000-0000000000a1'),
+  'student'::public.user_role,
+  'users can read their own account status'
+);
+
+SELECT ok(NOT public.current_user_is_moderator(), 'students are not staff');
+
+-- Suspended users see their own suspension
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000b2", "role": "authenticated"}', true);
+
+SELECT is(
+  (SELECT suspension_reason FROM public.account_status WHERE user_id = '00000000-0000-0000-0000-0000000000b2'),
+  'Spamming the group chats',
+  'suspended users can read their own suspension'
+);
+
+-- Staff checks in policies still work
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000c3", "role": "authenticated"}', true);
+
+SELECT ok(public.current_user_is_moderator(), 'teachers are staff');
+
+SELECT isnt_empty(
+  $$SELECT 1 FROM public.reports WHERE reported_user_id = '00000000-0000-0000-0000-0000000000b2'$$,
+  'staff can view reports from their school'
+);
+
+RESET ROLE;
+SET LOCAL ROLE service_role;
+
+SELECT ok(
+  public.is_suspended('00000000-0000-0000-0000-0000000000b2'),
+  'the edge functions can still check for suspensions'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
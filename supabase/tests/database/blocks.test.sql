@@ -0,0 +1,84 @@
+-- Only the blocker ever sees a block: clients can't ask whether one exists,
+-- while the policies that hide blocked users keep working
+BEGIN;
+SELECT plan(8);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'blocker@example.edu', '{"name": "Blocker"}'),
+  ('00000000-0000-0000-0000-0000000000b2', 'blocked@example.edu', '{"name": "Blocked"}'),
+  ('00000000-0000-0000-0000-0000000000c3', 'other@example.edu', '{"name": "Other"}');
+
+INSERT INTO public.blocked_users (blocker_id, blocked_id)
+VALUES ('00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000b2');
+
+INSERT INTO public.conversations (id, name) VALUES ('00000000-0000-0000-0000-000000000010', 'Study group');
+INSERT INTO public.conversation_members (conversation_id, user_id, role) VALUES
+  ('00000000-0000-0000-0000-000000000010', '00000000-0000-0000-0000-0000000000a1', 'owner'),
+  ('00000000-0000-0000-0000-000000000010', '00000000-0000-0000-0000-0000000000b2', 'member'),
+  ('00000000-0000-0000-0000-000000000010', '00000000-0000-0000-0000-0000000000c3', 'member');
+INSERT INTO public.messages (sender_id, conversation_id, content) VALUES
+  ('00000000-0000-0000-0000-0000000000b2', '00000000-0000-0000-0000-000000000010', 'from the blocked user'),
+  ('00000000-0000-0000-0000-0000000000c3', '00000000-0000-0000-0000-000000000010', 'from someone else');
+
+-- The blocked user can't find out about the block
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000b2", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$SELECT public.has_blocked('00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000b2')$$,
+  '42501',
+  NULL,
+  'clients cannot call has_blocked'
+);
+
+SELECT throws_ok(
+  $$SELECT public.is_blocked_between('00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000b2')$$,
+  '42501',
+  NULL,
+  'clients cannot call is_blocked_between'
+);
+
+SELECT is_empty(
+  $$SELECT 1 FROM public.users WHERE id = '00000000-0000-0000-0000-0000000000a1'$$,
+  'the blocked user cannot see the blocker'
+);
+
+SELECT is(
+  (SELECT count(*)::int FROM public.messages WHERE conversation_id = '00000000-0000-0000-0000-000000000010'),
+  2,
+  'the blocked user still sees every group message'
+);
+
+-- The blocker stops seeing the blocked user's group messages
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a1", "role": "authenticated"}', true);
+
+SELECT results_eq(
+  $$SELECT content FROM public.messages WHERE conversation_id = '00000000-0000-0000-0000-000000000010'$$,
+  $$VALUES ('from someone else')$$,
+  'the blocker does not see the blocked user''s group messages'
+);
+
+SELECT isnt_empty(
+  $$SELECT 1 FROM public.users WHERE id = '00000000-0000-0000-0000-0000000000b2'$$,
+  'the blocker can still see the blocked user'
+);
+
+-- Nobody else is affected
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000c3", "role": "authenticated"}', true);
+
+SELECT is(
+  (SELECT count(*)::int FROM public.messages WHERE conversation_id = '00000000-0000-0000-0000-000000000010'),
+  2,
+  'other members see every group message'
+);
+
+RESET ROLE;
+SET LOCAL ROLE service_role;
+
+SELECT ok(
+  public.is_blocked_between('00000000-0000-0000-0000-0000000000b2', '00000000-0000-0000-0000-0000000000a1'),
+  'the edge functions can still check for blocks'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,141 @@
+-- Answering DM requests: accept, decline and expiry all go through
+-- respond_to_dm_request, which only the dm-request function can call, like the
+-- cooldown lookup and the expiry
+BEGIN;
+SELECT plan(18);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'sender@example.edu', '{"name": "Sender"}'),
+  ('00000000-0000-0000-0000-0000000000b2', 'recipient@example.edu', '{"name": "Recipient"}'),
+  ('00000000-0000-0000-0000-0000000000c3', 'other@example.edu', '{"name": "Other"}');
+
+INSERT INTO public.dm_requests (id, sender_id, recipient_id, created_at) VALUES
+  ('00000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000b2', now()),
+  ('00000000-0000-0000-0000-000000000002', '00000000-0000-0000-0000-0000000000c3', '00000000-0000-0000-0000-0000000000b2', now()),
+  ('00000000-0000-0000-0000-000000000003', '00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000c3', now() - interval '30 days');
+
+-- Clients can't answer a request or add a contact themselves
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000b2", "role": "authenticated"}', true);
+
+UPDATE public.dm_requests SET status = 'accepted' WHERE id = '00000000-0000-0000-0000-000000000001';
+SELECT is(
+  (SELECT status FROM public.dm_requests WHERE id = '00000000-0000-0000-0000-000000000001'),
+  'pending'::public.dm_request_status,
+  'recipients cannot accept by updating the request'
+);
+
+SELECT throws_ok(
+  $$INSERT INTO public.allowed_contacts (user1_id, user2_id)
+    VALUES ('00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000b2')$$,
+  '42501',
+  NULL,
+  'clients cannot add contacts'
+);
+
+SELECT throws_ok(
+  $$SELECT * FROM public.respond_to_dm_request('00000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-0000000000b2', 'accepted')$$,
+  '42501',
+  NULL,
+  'clients cannot call respond_to_dm_request'
+);
+
+SELECT throws_ok(
+  $$SELECT public.get_dm_request_cooldown_until('00000000-0000-0000-0000-0000000000c3', '00000000-0000-0000-0000-0000000000b2')$$,
+  '42501',
+  NULL,
+  'clients cannot look up who declined whom'
+);
+
+SELECT throws_ok(
+  $$SELECT public.expire_dm_requests()$$,
+  '42501',
+  NULL,
+  'clients cannot run the expiry'
+);
+
+RESET ROLE;
+SET LOCAL ROLE service_role;
+
+-- Accept
+SELECT is(
+  (SELECT status FROM public.respond_to_dm_request('00000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-0000000000b2', 'accepted')),
+  'accepted'::public.dm_request_status,
+  'accepting returns the accepted request'
+);
+
+SELECT isnt_empty(
+  $$SELECT 1 FROM public.allowed_contacts
+    WHERE user1_id = '00000000-0000-0000-0000-0000000000a1' AND user2_id = '00000000-0000-0000-0000-0000000000b2'$$,
+  'accepting adds the contact'
+);
+
+SELECT is_empty(
+  $$SELECT * FROM public.respond_to_dm_request('00000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-0000000000b2', 'rejected')$$,
+  'an answered request cannot be answered again'
+);
+
+SELECT is(
+  (SELECT status FROM public.dm_requests WHERE id = '00000000-0000-0000-0000-000000000001'),
+  'accepted'::public.dm_request_status,
+  'the first answer stands'
+);
+
+-- Only the recipient answers
+SELECT is_empty(
+  $$SELECT * FROM public.respond_to_dm_request('00000000-0000-0000-0000-000000000002', '00000000-0000-0000-0000-0000000000a1', 'accepted')$$,
+  'someone else cannot answer the request'
+);
+
+-- Decline
+SELECT is(
+  (SELECT status FROM public.respond_to_dm_request('00000000-0000-0000-0000-000000000002', '00000000-0000-0000-0000-0000000000b2', 'rejected')),
+  'rejected'::public.dm_request_status,
+  'declining returns the rejected request'
+);
+
+SELECT is_empty(
+  $$SELECT 1 FROM public.allowed_contacts
+    WHERE user1_id = '00000000-0000-0000-0000-0000000000b2' AND user2_id = '00000000-0000-0000-0000-0000000000c3'$$,
+  'declining adds no contact'
+);
+
+SELECT isnt(
+  public.get_dm_request_cooldown_until('00000000-0000-0000-0000-0000000000c3', '00000000-0000-0000-0000-0000000000b2'),
+  NULL,
+  'the sender has to wait before asking again'
+);
+
+SELECT throws_ok(
+  $$SELECT * FROM public.respond_to_dm_request('00000000-0000-0000-0000-000000000002', '00000000-0000-0000-0000-0000000000b2', 'cancelled')$$,
+  'P0001',
+  'status must be accepted or rejected',
+  'only accepting and declining are answers'
+);
+
+-- Expiry
+SELECT is_empty(
+  $$SELECT * FROM public.respond_to_dm_request('00000000-0000-0000-0000-000000000003', '00000000-0000-0000-0000-0000000000c3', 'accepted')$$,
+  'an expired request cannot be accepted'
+);
+
+SELECT is(
+  (SELECT status FROM public.dm_requests WHERE id = '00000000-0000-0000-0000-000000000003'),
+  'expired'::public.dm_request_status,
+  'the late answer marks the request expired'
+);
+
+SELECT is_empty(
+  $$SELECT 1 FROM public.allowed_contacts
+    WHERE user1_id = '00000000-0000-0000-0000-0000000000a1' AND user2_id = '00000000-0000-0000-0000-0000000000c3'$$,
+  'an expired request adds no contact'
+);
+
+SELECT is(
+  public.expire_dm_requests(),
+  0,
+  'nothing else was due to expire'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
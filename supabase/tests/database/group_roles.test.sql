@@ -0,0 +1,57 @@
+-- Changing member roles, including handing the group to a new owner
+BEGIN;
+SELECT plan(6);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'owner@example.edu', '{"name": "Owner"}'),
+  ('00000000-0000-0000-0000-0000000000b2', 'member@example.edu', '{"name": "Member"}'),
+  ('00000000-0000-0000-0000-0000000000c3', 'outsider@example.edu', '{"name": "Outsider"}');
+
+INSERT INTO public.conversations (id, name) VALUES ('00000000-0000-0000-0000-000000000010', 'Study group');
+INSERT INTO public.conversation_members (conversation_id, user_id, role) VALUES
+  ('00000000-0000-0000-0000-000000000010', '00000000-0000-0000-0000-0000000000a1', 'owner'),
+  ('00000000-0000-0000-0000-000000000010', '00000000-0000-0000-0000-0000000000b2', 'member');
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a1", "role": "authenticated"}', true);
+
+-- Someone outside the group can't be made owner
+SELECT throws_ok(
+  $$SELECT public.set_conversation_member_role('00000000-0000-0000-0000-000000000010', '00000000-0000-0000-0000-0000000000c3', 'owner')$$,
+  'P0001',
+  'That person is not a member of this group',
+  'non-members cannot be made owner'
+);
+
+SELECT is(
+  public.get_conversation_role('00000000-0000-0000-0000-000000000010', '00000000-0000-0000-0000-0000000000a1'),
+  'owner'::public.conversation_role,
+  'the owner keeps the group when the handover fails'
+);
+
+SELECT is_empty(
+  $$SELECT 1 FROM public.conversation_members
+    WHERE conversation_id = '00000000-0000-0000-0000-000000000010' AND user_id = '00000000-0000-0000-0000-0000000000c3'$$,
+  'the non-member is not added'
+);
+
+-- A member can be
+SELECT lives_ok(
+  $$SELECT public.set_conversation_member_role('00000000-0000-0000-0000-000000000010', '00000000-0000-0000-0000-0000000000b2', 'owner')$$,
+  'members can be made owner'
+);
+
+SELECT is(
+  public.get_conversation_role('00000000-0000-0000-0000-000000000010', '00000000-0000-0000-0000-0000000000b2'),
+  'owner'::public.conversation_role,
+  'the member is the new owner'
+);
+
+SELECT is(
+  public.get_conversation_role('00000000-0000-0000-0000-000000000010', '00000000-0000-0000-0000-0000000000a1'),
+  'admin'::public.conversation_role,
+  'the old owner becomes an admin'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
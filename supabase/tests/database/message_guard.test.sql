@@ -0,0 +1,65 @@
+-- Senders can delete their messages but not fake edit or receipt states;
+-- receipts still come through from the recipient
+BEGIN;
+SELECT plan(7);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'sender@example.edu', '{"name": "Sender"}'),
+  ('00000000-0000-0000-0000-0000000000b2', 'recipient@example.edu', '{"name": "Recipient"}');
+
+SET LOCAL ROLE service_role;
+SELECT set_config('request.jwt.claims', '{"role": "service_role"}', true);
+
+INSERT INTO public.messages (id, sender_id, recipient_id, content) VALUES
+  ('00000000-0000-0000-0000-000000000101', '00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000b2', 'first draft'),
+  ('00000000-0000-0000-0000-000000000102', '00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000b2', 'delete me');
+UPDATE public.messages SET content = 'second draft' WHERE id = '00000000-0000-0000-0000-000000000101';
+
+RESET ROLE;
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a1", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$UPDATE public.messages SET edited_at = NULL WHERE id = '00000000-0000-0000-0000-000000000101'$$,
+  'P0001',
+  'Messages must be edited through the sanitize-message function',
+  'senders cannot hide that a message was edited'
+);
+
+SELECT throws_ok(
+  $$UPDATE public.messages SET read_at = now() WHERE id = '00000000-0000-0000-0000-000000000101'$$,
+  'P0001',
+  'Messages must be edited through the sanitize-message function',
+  'senders cannot mark their own messages as read'
+);
+
+SELECT throws_ok(
+  $$UPDATE public.messages SET delivered_at = now() WHERE id = '00000000-0000-0000-0000-000000000101'$$,
+  'P0001',
+  'Messages must be edited through the sanitize-message function',
+  'senders cannot mark their own messages as delivered'
+);
+
+SELECT lives_ok(
+  $$UPDATE public.messages SET deleted_at = now() WHERE id = '00000000-0000-0000-0000-000000000102'$$,
+  'senders can still delete their messages'
+);
+
+-- The recipient's receipts still go through
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000b2", "role": "authenticated"}', true);
+
+SELECT lives_ok($$SELECT public.mark_messages_delivered()$$, 'recipients can mark messages delivered');
+SELECT lives_ok(
+  $$SELECT public.mark_conversation_read('00000000-0000-0000-0000-0000000000a1')$$,
+  'recipients can mark a conversation read'
+);
+
+SELECT is(
+  (SELECT count(*)::int FROM public.messages
+   WHERE id = '00000000-0000-0000-0000-000000000101' AND delivered_at IS NOT NULL AND read_at IS NOT NULL),
+  1,
+  'the receipts are stamped'
+);
+
+SELECT * FROM finish();
+ROLLBACK;